@@ -1,7 +1,14 @@
 import { Hono, Context, Next } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
 import { sign, verify } from 'hono/jwt';
 import { hashSync, compareSync } from 'bcrypt-ts';
+import { BlobRef, VfsTree, applyPatch, blobKeys, createFile, createVfs, isPatchOp, isVfsTree, migrateVfs } from '../../src/utils/vfs';
+import { renderMarkdown } from '../../src/utils/markdown';
+import { escapeHtml } from '../../src/utils/textUtils';
+import { readEvents } from '../../src/utils/sse';
+import { base32Encode, createTotpSecret, otpauthUri, verifyTotp } from '../../src/utils/totp';
+import { Permission, isPermission } from '../../src/utils/permissions';
 
 // --- Type Definitions ---
 type Bindings = {
@@ -17,7 +24,8 @@ type Bindings = {
 interface UserPayload {
     sub: number;
     username: string;
-    role: 'admin' | 'guest';
+    role: string; // A row in the `roles` table
+    sid: string; // The session row in D1 that the token belongs to
 }
 
 // This type represents the verified data we get back and set on the context.
@@ -25,6 +33,7 @@ interface UserPayload {
 interface VerifiedUser extends UserPayload {
     exp: number;
     iat: number;
+    permissions: Permission[]; // What the role grants, read from D1 on every request
 }
 
 type AppContext = Context<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>;
@@ -35,12 +44,17 @@ interface TurnstileResponse {
 interface GeoIPApiResponse {
   city: string; country: string; continent: string;
 }
+// One event of Gemini's streamGenerateContent response.
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
 
 const app = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
 
 
 // --- Middleware ---
-app.use('/api/*', cors());
+// The terminal calls the API from its own origin, so other sites get no CORS headers.
+app.use('/api/*', cors({ origin: (origin, c) => origin === new URL(c.req.url).origin ? origin : null, exposeHeaders: ['ETag'] }));
 
 const authMiddleware = async (c: AppContext, next: Next) => {
   const authHeader = c.req.header('Authorization');
@@ -50,14 +64,27 @@ const authMiddleware = async (c: AppContext, next: Next) => {
   const token = authHeader.substring(7);
   try {
     // `verify` returns a generic payload. We then manually construct our typed user object.
-    const payload = await verify(token, c.env.JWT_SECRET);
+    const payload = await verify(token, c.env.JWT_SECRET, 'HS256');
     const user: VerifiedUser = {
         sub: payload.sub as number,
         username: payload.username as string,
-        role: payload.role as 'admin' | 'guest',
+        role: payload.role as string,
+        sid: payload.sid as string,
         exp: payload.exp as number,
-        iat: payload.iat as number
+        iat: payload.iat as number,
+        permissions: []
     };
+    // A valid signature is not enough: the session must still exist, so logout and revocation
+    // take effect immediately instead of when the token expires. The role and its permissions are
+    // read along with it, so `usermod -r` and edits to a role apply to the next request.
+    const session = await c.env.DB.prepare(
+      `SELECT users.role, (SELECT group_concat(permission) FROM role_permissions WHERE role = users.role) AS permissions
+       FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.id = ? AND sessions.user_id = ? AND sessions.revoked = 0 AND sessions.expires > ? AND users.locked = 0`
+    ).bind(user.sid ?? '', user.sub, Date.now()).first<{ role: string; permissions: string | null }>();
+    if (!session) return c.json({ error: 'Unauthorized: Session ended' }, 401);
+    user.role = session.role;
+    user.permissions = (session.permissions ?? '').split(',').filter(isPermission);
     c.set('user', user);
     await next();
   } catch (e) {
@@ -65,6 +92,239 @@ const authMiddleware = async (c: AppContext, next: Next) => {
   }
 };
 
+const can = (c: AppContext, permission: Permission) => c.get('user').permissions.includes(permission);
+
+// Runs after authMiddleware and rejects users whose role lacks `permission`.
+const requirePermission = (permission: Permission) => async (c: AppContext, next: Next) => {
+  if (!can(c, permission)) return c.json({ error: `Forbidden: requires the '${permission}' permission` }, 403);
+  await next();
+};
+
+const rolePermissions = async (c: AppContext, role: string) => {
+  const { results } = await c.env.DB.prepare("SELECT permission FROM role_permissions WHERE role = ? ORDER BY permission").bind(role).all<{ permission: string }>();
+  return results.map(row => row.permission).filter(isPermission);
+};
+
+const roleExists = async (c: AppContext, role: unknown) =>
+  typeof role === 'string' && !!await c.env.DB.prepare("SELECT name FROM roles WHERE name = ?").bind(role).first();
+
+// Whether the caller holds every permission of `role`. Account management is limited to roles within
+// the caller's own, so `users.manage` cannot be used to hand out or take over more than one has.
+const withinCallerPermissions = async (c: AppContext, role: string) => {
+  const held = c.get('user').permissions;
+  return (await rolePermissions(c, role)).every(permission => held.includes(permission));
+};
+
+
+// --- Sessions ---
+// Logging in creates a session row and returns two tokens: a JWT that names the session (`sid`) and
+// expires after a few minutes, and an opaque refresh token that the client trades for a new pair.
+// Each trade replaces the refresh token, so a stolen copy stops working once the owner refreshes,
+// and presenting a replaced token revokes the session outright.
+const ACCESS_TOKEN_TTL = 60 * 15;
+const SESSION_TTL = 60 * 60 * 24 * 30; // Idle sessions end after 30 days; every refresh extends this
+
+interface SessionUser { id: number; username: string; role: string; }
+interface SessionRow {
+  id: string; user_id: number; refresh_hash: string; previous_hash: string | null;
+  user_agent: string | null; ip: string | null; created: number; last_used: number; expires: number; revoked: number;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) => [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+const sha256 = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+const randomToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+const issueTokens = async (c: AppContext, user: SessionUser, sid: string, refreshToken: string) => {
+  // The payload for `sign` is a plain object. Hono's `sign` function will add `iat`.
+  const payload = { sub: user.id, username: user.username, role: user.role, sid, exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL };
+  const permissions = await rolePermissions(c, user.role);
+  return { token: await sign(payload, c.env.JWT_SECRET), refreshToken, user: { username: user.username, role: user.role, permissions } };
+};
+
+const createSession = async (c: AppContext, user: SessionUser) => {
+  const id = crypto.randomUUID().replace(/-/g, '').substring(0, 10);
+  const refreshToken = randomToken();
+  const now = Date.now();
+  await c.env.DB.batch([
+    // Rows of ended sessions are only kept until the user's next login.
+    c.env.DB.prepare("DELETE FROM sessions WHERE user_id = ? AND (revoked = 1 OR expires < ?)").bind(user.id, now),
+    c.env.DB.prepare("INSERT INTO sessions (id, user_id, refresh_hash, user_agent, ip, created, last_used, expires) VALUES (?, ?, ?, ?, ?, ?, ?, ?)")
+      .bind(id, user.id, await sha256(refreshToken), c.req.header('User-Agent') ?? null, c.req.header('CF-Connecting-IP') ?? null, now, now, now + SESSION_TTL * 1000),
+  ]);
+  return issueTokens(c, user, id, refreshToken);
+};
+
+// Ends every session of a user, optionally keeping the one making the request.
+const revokeSessions = (c: AppContext, userId: number, keep = '') =>
+  c.env.DB.prepare("UPDATE sessions SET revoked = 1 WHERE user_id = ? AND id != ?").bind(userId, keep).run();
+
+// --- Audit Log ---
+// Logins, account changes and destructive file system operations are appended to `audit_log` in D1.
+// The actor defaults to the authenticated user of the request.
+type AuditAction = 'login' | 'login_failed' | 'lockout' | 'logout' | 'useradd' | 'userdel' | 'usermod' | 'passwd' | 'revoke' | 'register' | 'invite' | 'vfs_wipe' | 'vfs_replace' | 'sudo' | 'sudo_denied' | '2fa_enable' | '2fa_disable';
+
+interface AuditEntry { id: number; time: number; actor: string | null; action: AuditAction; target: string | null; ip: string | null; detail: string | null; }
+
+const audit = (c: AppContext, action: AuditAction, { actor, target, detail }: { actor?: string; target?: string; detail?: string } = {}) =>
+  c.env.DB.prepare("INSERT INTO audit_log (time, actor, action, target, ip, detail) VALUES (?, ?, ?, ?, ?, ?)")
+    .bind(Date.now(), actor ?? c.get('user')?.username ?? null, action, target ?? null, c.req.header('CF-Connecting-IP') ?? null, detail ?? null).run();
+
+// --- Login Throttling ---
+// Failed logins are counted per account and per IP address in D1. After a few free attempts every
+// further failure doubles the wait before the next one is accepted, up to an hour. A counter starts
+// over a day after its last failure; a successful login resets the account's counter but not the address's.
+// Each failure is counted with a single upsert, so parallel attempts cannot overwrite each other's count.
+const FREE_ATTEMPTS = { user: 5, ip: 20 };
+const BASE_LOCKOUT = 30;
+const MAX_LOCKOUT = 60 * 60;
+const FAILURE_TTL = 60 * 60 * 24;
+
+const throttleKeys = (username: string, ip?: string): [keyof typeof FREE_ATTEMPTS, string][] =>
+  ip ? [['user', `user:${username}`], ['ip', `ip:${ip}`]] : [['user', `user:${username}`]];
+
+// Seconds until the account or address may try again; 0 when neither is locked.
+const lockoutRemaining = async (c: AppContext, username: string, ip?: string) => {
+  const keys = throttleKeys(username, ip).map(([, key]) => key);
+  const until = await c.env.DB.prepare(`SELECT MAX(locked_until) AS until FROM login_failures WHERE key IN (${keys.map(() => '?').join(', ')})`)
+    .bind(...keys).first<number | null>('until');
+  return Math.max(0, Math.ceil(((until ?? 0) - Date.now()) / 1000));
+};
+
+// Counts a failure and returns the lockout it caused in seconds, 0 if still within the free attempts.
+const recordFailure = async (c: AppContext, username: string, ip?: string) => {
+  const now = Date.now();
+  await c.env.DB.prepare("DELETE FROM login_failures WHERE last_failure < ?").bind(now - FAILURE_TTL * 1000).run();
+  let lockout = 0;
+  for (const [kind, key] of throttleKeys(username, ip)) {
+    const count = await c.env.DB.prepare(
+      `INSERT INTO login_failures (key, count, locked_until, last_failure) VALUES (?, 1, 0, ?)
+       ON CONFLICT (key) DO UPDATE SET count = count + 1, last_failure = excluded.last_failure RETURNING count`
+    ).bind(key, now).first<number>('count') ?? 1;
+    const excess = count - FREE_ATTEMPTS[kind];
+    if (excess < 0) continue;
+    const seconds = Math.min(MAX_LOCKOUT, BASE_LOCKOUT * 2 ** excess);
+    await c.env.DB.prepare("UPDATE login_failures SET locked_until = MAX(locked_until, ?) WHERE key = ?").bind(now + seconds * 1000, key).run();
+    lockout = Math.max(lockout, seconds);
+  }
+  return lockout;
+};
+
+// --- Two-Factor Authentication ---
+// With TOTP enabled, the right password only earns a challenge: a JWT valid for five minutes that
+// `/api/login/verify` exchanges, together with a code from the authenticator app or a recovery code,
+// for a session. The challenge has no `sid`, so authMiddleware never accepts it as an access token.
+const CHALLENGE_TTL = 60 * 5;
+const RECOVERY_CODES = 10;
+const TOTP_ISSUER = 'Linkium';
+
+interface TotpRow { user_id: number; secret: string; enabled: number; last_step: number; created: number; }
+
+// Recovery codes are shown as `abcde-fghij`; case, spaces and the dash do not matter when entered.
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const createRecoveryCodes = async (c: AppContext, userId: number) => {
+  const codes = Array.from({ length: RECOVERY_CODES }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).substring(0, 10).toLowerCase();
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+  });
+  const hashes = await Promise.all(codes.map(code => sha256(normalizeRecoveryCode(code))));
+  await c.env.DB.batch([
+    c.env.DB.prepare("DELETE FROM recovery_codes WHERE user_id = ?").bind(userId),
+    ...hashes.map(hash => c.env.DB.prepare("INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)").bind(userId, hash)),
+  ]);
+  return codes;
+};
+
+// Accepts a current TOTP code or an unused recovery code, and uses it up.
+const checkSecondFactor = async (c: AppContext, totp: TotpRow, code: string) => {
+  const step = await verifyTotp(totp.secret, code, totp.last_step);
+  if (step !== null) {
+    // Conditional on `last_step`, so two requests racing with the same code cannot both succeed.
+    const { meta } = await c.env.DB.prepare("UPDATE totp SET last_step = ? WHERE user_id = ? AND last_step < ?").bind(step, totp.user_id, step).run();
+    return meta.changes > 0;
+  }
+  const { meta } = await c.env.DB.prepare("UPDATE recovery_codes SET used = 1 WHERE user_id = ? AND code_hash = ? AND used = 0")
+    .bind(totp.user_id, await sha256(normalizeRecoveryCode(code))).run();
+  return meta.changes > 0;
+};
+
+const enabledTotp = (c: AppContext, userId: number) =>
+  c.env.DB.prepare("SELECT * FROM totp WHERE user_id = ? AND enabled = 1").bind(userId).first<TotpRow>();
+
+// Both login routes end here once every factor has been checked.
+const completeLogin = async (c: AppContext, user: SessionUser) => {
+  await c.env.DB.prepare("DELETE FROM login_failures WHERE key = ?").bind(`user:${user.username}`).run();
+  await audit(c, 'login', { actor: user.username, detail: c.req.header('User-Agent') });
+  return createSession(c, user);
+};
+
+// A failed password or verification code counts towards the lockout of the account and the address.
+const rejectLogin = async (c: AppContext, username: string, reason?: string) => {
+  await audit(c, 'login_failed', { target: username, detail: reason });
+  const lockout = await recordFailure(c, username, c.req.header('CF-Connecting-IP'));
+  if (lockout > 0) await audit(c, 'lockout', { target: username, detail: `${lockout}s` });
+};
+
+// A 429 response while the account or address is locked out.
+const lockedOut = async (c: AppContext, username: string) => {
+  const lockedFor = await lockoutRemaining(c, username, c.req.header('CF-Connecting-IP'));
+  if (lockedFor === 0) return null;
+  c.header('Retry-After', String(lockedFor));
+  return c.json({ error: `Too many failed login attempts. Try again in ${lockedFor} seconds.` }, 429);
+};
+
+// --- Accounts ---
+// Admins list and edit accounts through `/api/admin/users` and hand out invite codes, with which
+// anyone can register a guest account. Deleting an account also deletes what the user stored.
+const ACCOUNT_LOCKED = 'This account is locked. Contact an administrator.';
+const USERNAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const INVITE_MAX_TTL = 60 * 60 * 24 * 30;
+const INVITE_MAX_USES = 100;
+
+// The error message for an unusable username or password, or null. Pass `username` only for new accounts.
+const credentialsError = (username: string | null, password: string) => {
+  if (username !== null && !USERNAME_PATTERN.test(username)) return 'Usernames are up to 32 lowercase letters, digits, - and _, starting with a letter.';
+  if (password.length < MIN_PASSWORD_LENGTH) return `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`;
+  return null;
+};
+
+interface AccountRow { username: string; role: string; locked: number; created: number | null; last_login: number | null; last_ip: string | null; two_factor: number; }
+interface InviteRow { code: string; created_by: string; created: number; expires: number; uses_left: number; }
+interface LinkMetadata { owner: string; }   // Share and short links both record who made them
+
+// The user's most recent `login` event, for joining against `users`.
+const LAST_LOGIN = "(SELECT id FROM audit_log WHERE action = 'login' AND actor = users.username ORDER BY time DESC, id DESC LIMIT 1)";
+
+const listKeys = async <M>(c: AppContext, prefix: string) => {
+  const keys: { name: string; metadata?: M }[] = [];
+  let cursor: string | undefined;
+  do {
+    const listing = await c.env.SITE_KV.list<M>({ prefix, cursor });
+    keys.push(...listing.keys);
+    cursor = listing.list_complete ? undefined : listing.cursor;
+  } while (cursor);
+  return keys;
+};
+
+// Removes the user's file system, their uploads in R2 and the share and short links they made.
+// Short links from before links recorded an owner are left alone. Returns what was deleted.
+const deleteUserData = async (c: AppContext, username: string) => {
+  await c.env.SITE_KV.delete(`vfs_${username}`);
+  await c.env.DB.prepare("DELETE FROM vfs_revisions WHERE username = ?").bind(username).run();
+  let files = 0;
+  let cursor: string | undefined;
+  do {
+    const listing = await c.env.SHARE_BUCKET.list({ prefix: `${username}/`, cursor });
+    if (listing.objects.length > 0) await c.env.SHARE_BUCKET.delete(listing.objects.map(object => object.key));
+    files += listing.objects.length;
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+  const links = [...await listKeys<LinkMetadata>(c, 'share_'), ...await listKeys<LinkMetadata>(c, 'short_')]
+    .filter(key => key.metadata?.owner === username);
+  await Promise.all(links.map(key => c.env.SITE_KV.delete(key.name)));
+  return { files, links: links.length };
+};
 
 // --- PUBLIC ROUTES ---
 app.post('/api/login', async (c) => {
@@ -73,6 +333,9 @@ app.post('/api/login', async (c) => {
     return c.json({ error: 'Missing required fields' }, 400);
   }
 
+  const locked = await lockedOut(c, username);
+  if (locked) return locked;
+
   const ip = c.req.header('CF-Connecting-IP');
   const formData = new FormData();
   formData.append('secret', c.env.TURNSTILE_SECRET_KEY);
@@ -87,47 +350,154 @@ app.post('/api/login', async (c) => {
     return c.json({ error: 'Bot verification failed.' }, 403);
   }
 
-  const user = await c.env.DB.prepare("SELECT * FROM users WHERE username = ?").bind(username).first<{ id: number; username: string; password_hash: string; role: 'admin' | 'guest' }>();
+  const user = await c.env.DB.prepare("SELECT * FROM users WHERE username = ?").bind(username).first<SessionUser & { password_hash: string; locked: number }>();
   if (!user || !compareSync(password, user.password_hash)) {
+    await rejectLogin(c, username);
     return c.json({ error: 'Invalid username or password' }, 401);
   }
-  
-  // The payload for `sign` is a plain object. Hono's `sign` function will add `iat`.
-  const payload = { 
-    sub: user.id, username: user.username, role: user.role, 
-    exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24) // exp in seconds for 24 hours
-  };
-  const token = await sign(payload, c.env.JWT_SECRET);
-  return c.json({ token, user: { username: user.username, role: user.role } });
+  // Only revealed to someone who knows the password.
+  if (user.locked) {
+    await audit(c, 'login_failed', { target: username, detail: 'account locked' });
+    return c.json({ error: ACCOUNT_LOCKED }, 403);
+  }
+
+  if (await enabledTotp(c, user.id)) {
+    const challenge = await sign({ sub: user.id, purpose: '2fa', exp: Math.floor(Date.now() / 1000) + CHALLENGE_TTL }, c.env.JWT_SECRET);
+    return c.json({ twoFactorRequired: true, challenge });
+  }
+  return c.json(await completeLogin(c, user));
+});
+
+// Second step of a login with 2FA: the challenge from `/api/login` plus a TOTP or recovery code.
+app.post('/api/login/verify', async (c) => {
+  const { challenge, code } = await c.req.json<{ challenge?: string; code?: string }>();
+  if (!challenge || !code) return c.json({ error: 'Missing required fields' }, 400);
+  let userId: number;
+  try {
+    const payload = await verify(challenge, c.env.JWT_SECRET, 'HS256');
+    if (payload.purpose !== '2fa') throw new Error('Not a login challenge');
+    userId = payload.sub as number;
+  } catch (e) {
+    return c.json({ error: 'The login has expired. Please log in again.' }, 401);
+  }
+  const user = await c.env.DB.prepare("SELECT id, username, role, locked FROM users WHERE id = ?").bind(userId).first<SessionUser & { locked: number }>();
+  const totp = user && await enabledTotp(c, user.id);
+  if (!user || !totp) return c.json({ error: 'The login has expired. Please log in again.' }, 401);
+  if (user.locked) return c.json({ error: ACCOUNT_LOCKED }, 403);
+  const locked = await lockedOut(c, user.username);
+  if (locked) return locked;
+  if (!await checkSecondFactor(c, totp, code)) {
+    await rejectLogin(c, user.username, 'wrong verification code');
+    return c.json({ error: 'Invalid verification code' }, 401);
+  }
+  return c.json(await completeLogin(c, user));
+});
+
+// Trades a refresh token for a new access token and a new refresh token.
+app.post('/api/refresh', async (c) => {
+  const { refreshToken } = await c.req.json<{ refreshToken?: string }>();
+  if (!refreshToken) return c.json({ error: 'Missing refresh token' }, 400);
+  const hash = await sha256(refreshToken);
+  const session = await c.env.DB.prepare("SELECT * FROM sessions WHERE refresh_hash = ? OR previous_hash = ?").bind(hash, hash).first<SessionRow>();
+  if (!session || session.revoked || session.expires < Date.now()) return c.json({ error: 'Session expired' }, 401);
+  if (session.refresh_hash !== hash) {
+    // A token that was already exchanged came back, so someone else holds a copy: end the session for both.
+    await c.env.DB.prepare("UPDATE sessions SET revoked = 1 WHERE id = ?").bind(session.id).run();
+    return c.json({ error: 'Refresh token reused; the session has been revoked' }, 401);
+  }
+  const user = await c.env.DB.prepare("SELECT id, username, role FROM users WHERE id = ? AND locked = 0").bind(session.user_id).first<SessionUser>();
+  if (!user) return c.json({ error: 'Session expired' }, 401);
+  const next = randomToken();
+  const now = Date.now();
+  // Matching on the old hash makes concurrent refreshes with the same token fail instead of both succeeding.
+  const { meta } = await c.env.DB.prepare("UPDATE sessions SET refresh_hash = ?, previous_hash = ?, last_used = ?, expires = ? WHERE id = ? AND refresh_hash = ?")
+    .bind(await sha256(next), hash, now, now + SESSION_TTL * 1000, session.id, hash).run();
+  if (meta.changes === 0) return c.json({ error: 'Session expired' }, 401);
+  return c.json(await issueTokens(c, user, session.id, next));
+});
+
+app.post('/api/logout', authMiddleware, async (c: AppContext) => {
+  const { all } = await c.req.json<{ all?: boolean }>().catch(() => ({ all: false }));
+  const user = c.get('user');
+  if (all) await revokeSessions(c, user.sub);
+  else await c.env.DB.prepare("UPDATE sessions SET revoked = 1 WHERE id = ?").bind(user.sid).run();
+  await audit(c, 'logout', { detail: all ? 'all sessions' : undefined });
+  return c.json({ success: true });
+});
+
+// The caller's account as the server sees it, for `id` and `groups`.
+app.get('/api/me', authMiddleware, (c: AppContext) => {
+  const user = c.get('user');
+  return c.json({ id: user.sub, username: user.username, role: user.role, permissions: user.permissions });
+});
+
+// Self-registration with an invite code. New accounts are always guests.
+app.post('/api/register', async (c) => {
+  const { invite, username, password } = await c.req.json<{ invite?: string; username?: string; password?: string }>();
+  if (!invite || !username || !password) return c.json({ error: 'Missing required fields' }, 400);
+  const invalid = credentialsError(username, password);
+  if (invalid) return c.json({ error: invalid }, 400);
+  // The code is checked first so that taken usernames are only revealed to invited people.
+  const now = Date.now();
+  const row = await c.env.DB.prepare("SELECT * FROM invites WHERE code = ? AND uses_left > 0 AND expires > ?").bind(invite, now).first<InviteRow>();
+  if (!row) return c.json({ error: 'Invalid or expired invite code.' }, 403);
+  if (await c.env.DB.prepare("SELECT id FROM users WHERE username = ?").bind(username).first()) {
+    return c.json({ error: `Username '${username}' is already taken.` }, 409);
+  }
+  // One transaction: the account is only created while the invite has uses left, and a failed insert
+  // (someone took the name in the meantime) does not use up the invite.
+  let created: number;
+  try {
+    const [insert] = await c.env.DB.batch([
+      c.env.DB.prepare(
+        "INSERT INTO users (username, password_hash, role, created) SELECT ?, ?, 'guest', ? WHERE EXISTS (SELECT 1 FROM invites WHERE code = ? AND uses_left > 0 AND expires > ?)"
+      ).bind(username, hashSync(password, 10), now, invite, now),
+      c.env.DB.prepare("UPDATE invites SET uses_left = uses_left - 1 WHERE code = ? AND uses_left > 0").bind(invite),
+    ]);
+    created = insert.meta.changes;
+  } catch (e) {
+    if (/constraint/i.test(String(e))) return c.json({ error: `Username '${username}' is already taken.` }, 409);
+    throw e;
+  }
+  if (created === 0) return c.json({ error: 'Invalid or expired invite code.' }, 403);
+  await audit(c, 'register', { actor: username, target: username, detail: `invited by ${row.created_by}` });
+  return c.json({ success: true, message: `Account '${username}' created. You can now 'login ${username}'.` }, 201);
 });
 
 
 // --- ADMIN ROUTES, VFS ROUTES, API PROXIES ---
 const adminRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
 adminRoutes.use('*', authMiddleware);
-adminRoutes.use('*', async (c: AppContext, next: Next) => {
-    const user = c.get('user');
-    if (user.role !== 'admin') return c.json({ error: 'Forbidden: Admin access required' }, 403);
-    await next();
-});
-adminRoutes.post('/useradd', async (c: AppContext) => {
+const manageUsers = requirePermission('users.manage');
+adminRoutes.post('/useradd', manageUsers, async (c: AppContext) => {
     const { username, password, role } = await c.req.json();
-    if (!username || !password || !['admin', 'guest'].includes(role)) return c.json({ error: 'Invalid parameters' }, 400);
+    if (typeof username !== 'string' || typeof password !== 'string' || !role) return c.json({ error: 'Invalid parameters' }, 400);
+    const invalid = credentialsError(username, password);
+    if (invalid) return c.json({ error: invalid }, 400);
+    if (!await roleExists(c, role)) return c.json({ error: `Role '${role}' does not exist.` }, 400);
+    if (!await withinCallerPermissions(c, role)) return c.json({ error: `Forbidden: role '${role}' has permissions you lack` }, 403);
     const passwordHash = hashSync(password, 10);
     try {
-        await c.env.DB.prepare("INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)")
-            .bind(username, passwordHash, role).run();
+        await c.env.DB.prepare("INSERT INTO users (username, password_hash, role, created) VALUES (?, ?, ?, ?)")
+            .bind(username, passwordHash, role, Date.now()).run();
+        await audit(c, 'useradd', { target: username, detail: `role=${role}` });
         return c.json({ success: true, message: `User '${username}' created successfully.`});
     } catch (e) {
         return c.json({ error: 'Username may already exist or another error occurred.'}, 500);
     }
 });
-adminRoutes.post('/userdel', async (c: AppContext) => {
+adminRoutes.post('/userdel', manageUsers, async (c: AppContext) => {
     const { username } = await c.req.json();
-    if (username === 'admin') return c.json({ error: 'Cannot delete the primary admin account'}, 400);
+    if (username === c.get('user').username) return c.json({ error: 'Cannot delete your own account' }, 400);
+    const target = await c.env.DB.prepare("SELECT role FROM users WHERE username = ?").bind(username ?? '').first<{ role: string }>();
+    if (target && !await withinCallerPermissions(c, target.role)) return c.json({ error: `Forbidden: '${username}' has permissions you lack` }, 403);
+    await c.env.DB.batch(['sessions', 'totp', 'recovery_codes'].map(table =>
+        c.env.DB.prepare(`DELETE FROM ${table} WHERE user_id = (SELECT id FROM users WHERE username = ?)`).bind(username)));
     const { meta } = await c.env.DB.prepare("DELETE FROM users WHERE username = ?").bind(username).run();
     if (meta.changes > 0) {
-        await c.env.SITE_KV.delete(`vfs_${username}`);
+        const deleted = await deleteUserData(c, username);
+        await audit(c, 'userdel', { target: username, detail: `${deleted.files} file(s), ${deleted.links} link(s)` });
+        await audit(c, 'vfs_wipe', { target: username, detail: 'account deleted' });
         return c.json({ success: true, message: `User '${username}' and their data have been deleted.`});
     }
     return c.json({ error: `User '${username}' not found.`});
@@ -135,42 +505,458 @@ adminRoutes.post('/userdel', async (c: AppContext) => {
 adminRoutes.post('/passwd', async (c: AppContext) => {
     const { username, newPassword } = await c.req.json();
     const currentUser = c.get('user');
-    if (currentUser.role !== 'admin' && currentUser.username !== username) {
+    if (!can(c, 'users.manage') && currentUser.username !== username) {
         return c.json({ error: 'Permission denied.' }, 403);
     }
-    if (!username || !newPassword) return c.json({ error: 'Missing parameters' }, 400);
+    if (!username || typeof newPassword !== 'string') return c.json({ error: 'Missing parameters' }, 400);
+    const invalid = credentialsError(null, newPassword);
+    if (invalid) return c.json({ error: invalid }, 400);
     const newPasswordHash = hashSync(newPassword, 10);
-    const { meta } = await c.env.DB.prepare("UPDATE users SET password_hash = ? WHERE username = ?")
-        .bind(newPasswordHash, username).run();
-    if (meta.changes > 0) {
-        return c.json({ success: true, message: `Password for '${username}' updated.` });
+    const target = await c.env.DB.prepare("SELECT id, role FROM users WHERE username = ?").bind(username).first<{ id: number; role: string }>();
+    if (!target) return c.json({ error: `User '${username}' not found.` });
+    if (username !== currentUser.username && !await withinCallerPermissions(c, target.role)) {
+        return c.json({ error: `Forbidden: '${username}' has permissions you lack` }, 403);
     }
-    return c.json({ error: `User '${username}' not found.` });
+    await c.env.DB.prepare("UPDATE users SET password_hash = ? WHERE id = ?").bind(newPasswordHash, target.id).run();
+    // Everyone signed in with the old password is signed out, except the session that changed it.
+    await revokeSessions(c, target.id, currentUser.sid);
+    await audit(c, 'passwd', { target: username });
+    return c.json({ success: true, message: `Password for '${username}' updated.` });
+});
+adminRoutes.post('/revoke', manageUsers, async (c: AppContext) => {
+    const { username } = await c.req.json();
+    const target = await c.env.DB.prepare("SELECT id FROM users WHERE username = ?").bind(username ?? '').first<{ id: number }>();
+    if (!target) return c.json({ error: `User '${username}' not found.` }, 404);
+    const { meta } = await revokeSessions(c, target.id, c.get('user').sid);
+    await audit(c, 'revoke', { target: username, detail: `${meta.changes} session(s)` });
+    return c.json({ success: true, message: `Revoked ${meta.changes} session(s) of '${username}'.` });
+});
+// Filters: `user` matches the actor or the target, `since` is a timestamp in milliseconds.
+adminRoutes.get('/audit', requirePermission('audit.read'), async (c: AppContext) => {
+    const username = c.req.query('user') || null;
+    const since = parseInt(c.req.query('since') || '0', 10) || 0;
+    const limit = Math.min(parseInt(c.req.query('limit') || '100', 10) || 100, 1000);
+    const { results } = await c.env.DB.prepare(
+        "SELECT * FROM (SELECT * FROM audit_log WHERE time >= ? AND (? IS NULL OR actor = ? OR target = ?) ORDER BY time DESC, id DESC LIMIT ?) ORDER BY time, id"
+    ).bind(since, username, username, username, limit).all<AuditEntry>();
+    return c.json({ entries: results });
+});
+adminRoutes.get('/users', manageUsers, async (c: AppContext) => {
+    const { results } = await c.env.DB.prepare(
+        `SELECT users.username, users.role, users.locked, users.created, last.time AS last_login, last.ip AS last_ip,
+                EXISTS (SELECT 1 FROM totp WHERE totp.user_id = users.id AND totp.enabled = 1) AS two_factor
+         FROM users LEFT JOIN audit_log AS last ON last.id = ${LAST_LOGIN} ORDER BY users.username`
+    ).all<AccountRow>();
+    const users = results.map(row => ({
+        username: row.username, role: row.role, locked: !!row.locked, created: row.created,
+        lastLogin: row.last_login, lastIp: row.last_ip, twoFactor: !!row.two_factor,
+    }));
+    return c.json({ users });
+});
+// Changes the role and/or lock state. Locking also ends every session of the account.
+adminRoutes.patch('/users/:username', manageUsers, async (c: AppContext) => {
+    const username = c.req.param('username') ?? '';
+    const { role, locked } = await c.req.json<{ role?: string; locked?: boolean }>();
+    if ((role === undefined && locked === undefined) || (locked !== undefined && typeof locked !== 'boolean')) {
+        return c.json({ error: 'Invalid parameters' }, 400);
+    }
+    if (role !== undefined && !await roleExists(c, role)) return c.json({ error: `Role '${role}' does not exist.` }, 400);
+    if (username === c.get('user').username) return c.json({ error: 'Cannot modify your own account' }, 400);
+    const target = await c.env.DB.prepare("SELECT id, role, locked FROM users WHERE username = ?").bind(username).first<{ id: number; role: string; locked: number }>();
+    if (!target) return c.json({ error: `User '${username}' not found.` }, 404);
+    if (!await withinCallerPermissions(c, target.role)) return c.json({ error: `Forbidden: '${username}' has permissions you lack` }, 403);
+    if (role !== undefined && !await withinCallerPermissions(c, role)) return c.json({ error: `Forbidden: role '${role}' has permissions you lack` }, 403);
+    const changes: string[] = [];
+    if (role !== undefined && role !== target.role) changes.push(`role=${role}`);
+    if (locked !== undefined && locked !== !!target.locked) changes.push(locked ? 'locked' : 'unlocked');
+    if (changes.length === 0) return c.json({ success: true, message: `User '${username}' is unchanged.` });
+    await c.env.DB.prepare("UPDATE users SET role = COALESCE(?, role), locked = COALESCE(?, locked) WHERE id = ?")
+        .bind(role ?? null, locked === undefined ? null : Number(locked), target.id).run();
+    if (locked) await revokeSessions(c, target.id);
+    await audit(c, 'usermod', { target: username, detail: changes.join(', ') });
+    return c.json({ success: true, message: `User '${username}' updated (${changes.join(', ')}).` });
+});
+adminRoutes.get('/invites', manageUsers, async (c: AppContext) => {
+    const { results } = await c.env.DB.prepare("SELECT * FROM invites WHERE uses_left > 0 AND expires > ? ORDER BY created")
+        .bind(Date.now()).all<InviteRow>();
+    return c.json({ invites: results.map(row => ({ code: row.code, createdBy: row.created_by, expires: row.expires, uses: row.uses_left })) });
+});
+adminRoutes.post('/invites', manageUsers, async (c: AppContext) => {
+    const { uses = 1, ttl = 60 * 60 * 24 * 7 } = await c.req.json<{ uses?: number; ttl?: number }>();
+    if (!Number.isInteger(uses) || uses < 1 || uses > INVITE_MAX_USES) return c.json({ error: `Uses must be between 1 and ${INVITE_MAX_USES}` }, 400);
+    if (!Number.isInteger(ttl) || ttl < 60 || ttl > INVITE_MAX_TTL) return c.json({ error: 'TTL must be between 1 minute and 30 days' }, 400);
+    const code = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
+    const now = Date.now();
+    await c.env.DB.prepare("INSERT INTO invites (code, created_by, created, expires, uses_left) VALUES (?, ?, ?, ?, ?)")
+        .bind(code, c.get('user').username, now, now + ttl * 1000, uses).run();
+    await audit(c, 'invite', { detail: `uses=${uses}` });
+    return c.json({ code, expires: now + ttl * 1000, uses }, 201);
+});
+adminRoutes.delete('/invites/:code', manageUsers, async (c: AppContext) => {
+    const code = c.req.param('code') ?? '';
+    const { meta } = await c.env.DB.prepare("DELETE FROM invites WHERE code = ?").bind(code).run();
+    if (meta.changes === 0) return c.json({ error: `Invite '${code}' not found.` }, 404);
+    return c.json({ success: true });
 });
 app.route('/api/admin', adminRoutes);
 
+// Login history for `last` and `lastlog`. Everyone sees their own; `audit.read` shows everyone's.
+const auditRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
+auditRoutes.use('*', authMiddleware);
+const historyScope = (c: AppContext) => can(c, 'audit.read') ? c.req.query('user') || null : c.get('user').username;
+auditRoutes.get('/logins', async (c: AppContext) => {
+  const username = historyScope(c);
+  const limit = Math.min(parseInt(c.req.query('limit') || '20', 10) || 20, 1000);
+  const { results } = await c.env.DB.prepare("SELECT * FROM audit_log WHERE action = 'login' AND (? IS NULL OR actor = ?) ORDER BY time DESC, id DESC LIMIT ?")
+    .bind(username, username, limit).all<AuditEntry>();
+  return c.json({ entries: results });
+});
+auditRoutes.get('/lastlog', async (c: AppContext) => {
+  const username = historyScope(c);
+  const { results } = await c.env.DB.prepare(
+    `SELECT users.username, last.time, last.ip FROM users
+     LEFT JOIN audit_log AS last ON last.id = ${LAST_LOGIN}
+     WHERE ? IS NULL OR users.username = ? ORDER BY users.username`
+  ).bind(username, username).all<{ username: string; time: number | null; ip: string | null }>();
+  return c.json({ users: results });
+});
+// sudo runs in the browser, so the client reports its use here; the actor is always the caller.
+auditRoutes.post('/', async (c: AppContext) => {
+  const { action, command } = await c.req.json<{ action: AuditAction; command?: string }>();
+  if (action !== 'sudo' && action !== 'sudo_denied') return c.json({ error: 'Invalid action' }, 400);
+  await audit(c, action, { detail: command?.substring(0, 200) });
+  return c.json({ success: true }, 201);
+});
+app.route('/api/audit', auditRoutes);
+
+const sessionsRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
+sessionsRoutes.use('*', authMiddleware);
+sessionsRoutes.get('/', async (c: AppContext) => {
+  const user = c.get('user');
+  const { results } = await c.env.DB.prepare("SELECT * FROM sessions WHERE user_id = ? AND revoked = 0 AND expires > ? ORDER BY last_used DESC")
+    .bind(user.sub, Date.now()).all<SessionRow>();
+  const sessions = results.map(row => ({
+    id: row.id, userAgent: row.user_agent, ip: row.ip, created: row.created, lastUsed: row.last_used, current: row.id === user.sid,
+  }));
+  return c.json({ sessions });
+});
+sessionsRoutes.delete('/:id', async (c: AppContext) => {
+  const id = c.req.param('id') ?? '';
+  const { meta } = await c.env.DB.prepare("UPDATE sessions SET revoked = 1 WHERE id = ? AND user_id = ? AND revoked = 0").bind(id, c.get('user').sub).run();
+  if (meta.changes === 0) return c.json({ error: `Session '${id}' not found.` }, 404);
+  return c.json({ success: true });
+});
+app.route('/api/sessions', sessionsRoutes);
+
+const twoFactorRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
+twoFactorRoutes.use('*', authMiddleware);
+twoFactorRoutes.get('/', async (c: AppContext) => {
+  const user = c.get('user');
+  const totp = await enabledTotp(c, user.sub);
+  const left = await c.env.DB.prepare("SELECT COUNT(*) AS count FROM recovery_codes WHERE user_id = ? AND used = 0").bind(user.sub).first<number>('count');
+  return c.json({ enabled: !!totp, recoveryCodesLeft: totp ? left ?? 0 : 0 });
+});
+// Starts (or restarts) a setup with a new secret; 2FA is only on once `/enable` confirms a code.
+twoFactorRoutes.post('/setup', async (c: AppContext) => {
+  const user = c.get('user');
+  if (await enabledTotp(c, user.sub)) return c.json({ error: 'Two-factor authentication is already enabled.' }, 409);
+  const secret = createTotpSecret();
+  await c.env.DB.prepare("INSERT OR REPLACE INTO totp (user_id, secret, enabled, last_step, created) VALUES (?, ?, 0, 0, ?)").bind(user.sub, secret, Date.now()).run();
+  return c.json({ secret, uri: otpauthUri(secret, user.username, TOTP_ISSUER) });
+});
+twoFactorRoutes.post('/enable', async (c: AppContext) => {
+  const user = c.get('user');
+  const { code } = await c.req.json<{ code?: string }>();
+  const pending = await c.env.DB.prepare("SELECT * FROM totp WHERE user_id = ? AND enabled = 0").bind(user.sub).first<TotpRow>();
+  if (!pending) return c.json({ error: 'No two-factor setup in progress.' }, 400);
+  const step = await verifyTotp(pending.secret, code ?? '');
+  if (step === null) return c.json({ error: 'Invalid verification code' }, 400);
+  await c.env.DB.prepare("UPDATE totp SET enabled = 1, last_step = ? WHERE user_id = ?").bind(step, user.sub).run();
+  const recoveryCodes = await createRecoveryCodes(c, user.sub);
+  await audit(c, '2fa_enable', { target: user.username });
+  return c.json({ success: true, recoveryCodes });
+});
+twoFactorRoutes.post('/disable', async (c: AppContext) => {
+  const user = c.get('user');
+  const { code } = await c.req.json<{ code?: string }>();
+  const totp = await enabledTotp(c, user.sub);
+  if (!totp) return c.json({ error: 'Two-factor authentication is not enabled.' }, 400);
+  if (!await checkSecondFactor(c, totp, code ?? '')) return c.json({ error: 'Invalid verification code' }, 400);
+  await c.env.DB.batch([
+    c.env.DB.prepare("DELETE FROM totp WHERE user_id = ?").bind(user.sub),
+    c.env.DB.prepare("DELETE FROM recovery_codes WHERE user_id = ?").bind(user.sub),
+  ]);
+  await audit(c, '2fa_disable', { target: user.username });
+  return c.json({ success: true });
+});
+app.route('/api/2fa', twoFactorRoutes);
+
 const vfsRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
 vfsRoutes.use('*', authMiddleware);
-vfsRoutes.get('/', async (c: AppContext) => {
+// The tree is stored with a revision number in the KV metadata; clients see it as a quoted ETag
+// and send it back in `If-Match`, so a write based on a stale tree is rejected instead of
+// silently overwriting changes made from another tab.
+interface VfsMetadata { revision: number; }
+const etagOf = (revision: number) => `"${revision}"`;
+
+const loadVfs = async (c: AppContext): Promise<{ tree: VfsTree; revision: number }> => {
   const user = c.get('user');
   const vfsKey = `vfs_${user.username}`;
-  let vfsData: object | null = await c.env.SITE_KV.get(vfsKey, 'json');
-  if (!vfsData) {
-    const defaultVfs = { '~': { 'README.md': `# Welcome, ${user.username}!\n\nThis is your personal file system.` } };
-    await c.env.SITE_KV.put(vfsKey, JSON.stringify(defaultVfs));
-    vfsData = defaultVfs;
+  const { value, metadata } = await c.env.SITE_KV.getWithMetadata<unknown, VfsMetadata>(vfsKey, 'json');
+  if (!value) {
+    const tree = createVfs(user.username, { 'README.md': createFile(`# Welcome, ${user.username}!\n\nThis is your personal file system.`, user.username) });
+    const revision = await storeVfs(c, tree, await claimedRevision(c));
+    // Another request created the tree first; read that one instead.
+    return revision === null ? loadVfs(c) : { tree, revision };
   }
-  return c.json(vfsData);
+  const tree = migrateVfs(value, user.username);
+  if (tree !== value) {
+    // Legacy trees (plain strings and objects) are upgraded once and written back.
+    const revision = await storeVfs(c, tree, metadata?.revision ?? 0);
+    return revision === null ? loadVfs(c) : { tree, revision };
+  }
+  return { tree, revision: metadata?.revision ?? 0 };
+};
+
+const claimedRevision = async (c: AppContext) =>
+  await c.env.DB.prepare("SELECT revision FROM vfs_revisions WHERE username = ?").bind(c.get('user').username).first<number>('revision') ?? 0;
+
+// KV cannot compare and swap, so the revision is claimed in D1 first: a single conditional upsert
+// moves it from `previousRevision` to the next one. Of two concurrent writes based on the same
+// revision only one gets a row changed; the other gets null and must not write the tree. If the KV
+// write fails the claim is given back, or every later write would be rejected as stale.
+const storeVfs = async (c: AppContext, tree: VfsTree, previousRevision: number): Promise<number | null> => {
+  const username = c.get('user').username;
+  const revision = previousRevision + 1;
+  const { meta } = await c.env.DB.prepare(
+    `INSERT INTO vfs_revisions (username, revision) VALUES (?, ?)
+     ON CONFLICT (username) DO UPDATE SET revision = excluded.revision WHERE vfs_revisions.revision = ?`
+  ).bind(username, revision, previousRevision).run();
+  if (meta.changes === 0) return null;
+  try {
+    await c.env.SITE_KV.put(`vfs_${username}`, JSON.stringify(tree), { metadata: { revision } });
+  } catch (e) {
+    await c.env.DB.prepare("UPDATE vfs_revisions SET revision = ? WHERE username = ? AND revision = ?").bind(previousRevision, username, revision).run();
+    throw e;
+  }
+  return revision;
+};
+
+// R2 objects that the stored tree no longer references (rm, overwrite) are deleted only after the
+// new tree is saved, so a rejected write never takes a file's contents with it.
+const releaseBlobs = async (c: AppContext, previous: Set<string>, tree: VfsTree) => {
+  const remaining = blobKeys(tree);
+  const orphaned = [...previous].filter(key => !remaining.has(key) && ownsKey(c, key));
+  if (orphaned.length > 0) await c.env.SHARE_BUCKET.delete(orphaned);
+};
+
+// Removing everything in ~ is logged as a wipe.
+const isEmptyHome = (tree: VfsTree) => Object.keys(tree['~'].children).length === 0;
+
+const staleWrite = (c: AppContext, revision: number) => {
+  c.header('ETag', etagOf(revision));
+  return c.json({ error: 'The file system was changed by another session.', etag: etagOf(revision) }, 412);
+};
+
+// Returns a 412 response when the client's `If-Match` does not name the current revision.
+const checkPrecondition = (c: AppContext, revision: number) => {
+  const ifMatch = c.req.header('If-Match');
+  return ifMatch && ifMatch !== '*' && ifMatch !== etagOf(revision) ? staleWrite(c, revision) : null;
+};
+
+vfsRoutes.get('/', async (c: AppContext) => {
+  const { tree, revision } = await loadVfs(c);
+  c.header('ETag', etagOf(revision));
+  return c.json(tree);
 });
-vfsRoutes.post('/', async (c: AppContext) => {
+// Replaces the whole tree. Used for the first save of a session and to resolve conflicts with "keep mine".
+vfsRoutes.post('/', requirePermission('vfs.write'), async (c: AppContext) => {
   const user = c.get('user');
-  const vfsKey = `vfs_${user.username}`;
-  const newVfsData = await c.req.json();
-  await c.env.SITE_KV.put(vfsKey, JSON.stringify(newVfsData));
-  return c.json({ success: true });
+  const { tree: previous, revision } = await loadVfs(c);
+  const rejected = checkPrecondition(c, revision);
+  if (rejected) return rejected;
+  const tree = await c.req.json<unknown>();
+  if (!isVfsTree(tree)) return c.json({ error: 'Invalid file system' }, 400);
+  const newRevision = await storeVfs(c, tree, revision);
+  if (newRevision === null) return staleWrite(c, await claimedRevision(c));
+  await releaseBlobs(c, blobKeys(previous), tree);
+  await audit(c, isEmptyHome(tree) ? 'vfs_wipe' : 'vfs_replace', { target: user.username });
+  c.header('ETag', etagOf(newRevision));
+  return c.json({ success: true, etag: etagOf(newRevision) });
+});
+vfsRoutes.patch('/', requirePermission('vfs.write'), async (c: AppContext) => {
+  if (!c.req.header('If-Match')) return c.json({ error: 'If-Match header required' }, 428);
+  const { tree, revision } = await loadVfs(c);
+  const rejected = checkPrecondition(c, revision);
+  if (rejected) return rejected;
+  const { ops } = await c.req.json<{ ops?: unknown }>();
+  if (!Array.isArray(ops) || !ops.every(isPatchOp)) return c.json({ error: 'Invalid patch' }, 400);
+  const wasEmpty = isEmptyHome(tree);
+  const previous = blobKeys(tree);
+  const error = applyPatch(tree, ops);
+  if (error) return c.json({ error: `Patch rejected: ${error}` }, 409);
+  const newRevision = await storeVfs(c, tree, revision);
+  if (newRevision === null) return staleWrite(c, await claimedRevision(c));
+  await releaseBlobs(c, previous, tree);
+  if (!wasEmpty && isEmptyHome(tree)) await audit(c, 'vfs_wipe', { target: c.get('user').username });
+  c.header('ETag', etagOf(newRevision));
+  return c.json({ success: true, etag: etagOf(newRevision) });
 });
 app.route('/api/vfs', vfsRoutes);
 
+// --- File Storage (R2) ---
+// Uploaded binaries live in SHARE_BUCKET under `<username>/<uuid>`; the VFS tree only keeps a
+// reference to the object key. Bodies are streamed in both directions and never buffered.
+// The quota is set per role in D1.
+const storageQuota = async (c: AppContext) =>
+  await c.env.DB.prepare("SELECT storage_quota FROM roles WHERE name = ?").bind(c.get('user').role).first<number>('storage_quota') ?? 0;
+
+const storageUsage = async (c: AppContext): Promise<number> => {
+  let used = 0;
+  let cursor: string | undefined;
+  do {
+    const listing = await c.env.SHARE_BUCKET.list({ prefix: `${c.get('user').username}/`, cursor });
+    used += listing.objects.reduce((sum, object) => sum + object.size, 0);
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+  return used;
+};
+
+// Only keys inside the caller's own prefix are accessible.
+const ownsKey = (c: AppContext, key: string) => key.startsWith(`${c.get('user').username}/`) && !key.includes('..');
+
+const filesRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
+filesRoutes.use('*', authMiddleware);
+filesRoutes.get('/', async (c: AppContext) => {
+  return c.json({ used: await storageUsage(c), quota: await storageQuota(c) });
+});
+filesRoutes.put('/', requirePermission('files.upload'), async (c: AppContext) => {
+  const size = parseInt(c.req.header('Content-Length') || '', 10);
+  if (!c.req.raw.body || isNaN(size)) return c.json({ error: 'Content-Length header required' }, 411);
+  const quota = await storageQuota(c);
+  const used = await storageUsage(c);
+  if (used + size > quota) return c.json({ error: `Storage quota exceeded (${used + size} of ${quota} bytes)` }, 413);
+  const key = `${c.get('user').username}/${crypto.randomUUID()}`;
+  const type = c.req.header('Content-Type') || 'application/octet-stream';
+  await c.env.SHARE_BUCKET.put(key, c.req.raw.body, {
+    httpMetadata: { contentType: type },
+    customMetadata: { name: c.req.query('name') || '' },
+  });
+  return c.json({ key, size, type }, 201);
+});
+filesRoutes.get('/:key{.+}', async (c: AppContext) => {
+  const key = c.req.param('key') ?? '';
+  if (!ownsKey(c, key)) return c.json({ error: 'Forbidden' }, 403);
+  const object = await c.env.SHARE_BUCKET.get(key);
+  if (!object) return c.json({ error: 'File not found' }, 404);
+  return new Response(object.body, {
+    headers: { 'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream', 'Content-Length': String(object.size) },
+  });
+});
+filesRoutes.delete('/:key{.+}', async (c: AppContext) => {
+  const key = c.req.param('key') ?? '';
+  if (!ownsKey(c, key)) return c.json({ error: 'Forbidden' }, 403);
+  await c.env.SHARE_BUCKET.delete(key);
+  return c.json({ success: true });
+});
+app.route('/api/files', filesRoutes);
+
+// --- Public Share Links ---
+// A share is a KV record `share_<id>` that expires on its own. Text files are copied into the
+// record; R2-backed files are referenced by key, so deleting the file also ends the share.
+interface ShareRecord {
+  id: string; owner: string; name: string; created: number; expires: number;
+  content?: string; blob?: BlobRef; passwordHash?: string;
+}
+interface ShareMetadata { owner: string; name: string; expires: number; protected: boolean; }
+const SHARE_MAX_TTL = 60 * 60 * 24 * 30;
+
+const sharesRoutes = new Hono<{ Bindings: Bindings; Variables: { user: VerifiedUser } }>();
+sharesRoutes.use('*', authMiddleware);
+sharesRoutes.get('/', async (c: AppContext) => {
+  const user = c.get('user');
+  const shares = (await listKeys<ShareMetadata>(c, 'share_'))
+    .filter((key): key is { name: string; metadata: ShareMetadata } => key.metadata?.owner === user.username)
+    .map(key => ({ id: key.name.substring(6), ...key.metadata }));
+  return c.json({ shares });
+});
+sharesRoutes.post('/', requirePermission('share.create'), async (c: AppContext) => {
+  const user = c.get('user');
+  const { name, content, blob, ttl, password } = await c.req.json<{ name: string; content?: string; blob?: BlobRef; ttl: number; password?: string }>();
+  if (!name || (content === undefined && !blob)) return c.json({ error: 'Missing file' }, 400);
+  if (!Number.isInteger(ttl) || ttl < 60 || ttl > SHARE_MAX_TTL) return c.json({ error: 'TTL must be between 1 minute and 30 days' }, 400);
+  if (blob && !ownsKey(c, blob.key)) return c.json({ error: 'Forbidden' }, 403);
+  const id = crypto.randomUUID().replace(/-/g, '').substring(0, 10);
+  const now = Date.now();
+  const record: ShareRecord = {
+    id, owner: user.username, name, created: now, expires: now + ttl * 1000,
+    content, blob, passwordHash: password ? hashSync(password, 10) : undefined,
+  };
+  const metadata: ShareMetadata = { owner: user.username, name, expires: record.expires, protected: !!password };
+  await c.env.SITE_KV.put(`share_${id}`, JSON.stringify(record), { expirationTtl: ttl, metadata });
+  return c.json({ id, url: `${new URL(c.req.url).origin}/api/share/${id}`, expires: record.expires }, 201);
+});
+sharesRoutes.delete('/:id', async (c: AppContext) => {
+  const id = c.req.param('id') ?? '';
+  const record = await c.env.SITE_KV.get<ShareRecord>(`share_${id}`, 'json');
+  if (!record || record.owner !== c.get('user').username) return c.json({ error: `Share '${id}' not found.` }, 404);
+  await c.env.SITE_KV.delete(`share_${id}`);
+  return c.json({ success: true });
+});
+app.route('/api/shares', sharesRoutes);
+
+const sharePage = (title: string, body: string) => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { max-width: 860px; margin: 2rem auto; padding: 0 1rem; background: #282a36; color: #f8f8f2; font: 16px/1.6 system-ui, sans-serif; }
+  a { color: #8be9fd; } h1, h2, h3 { color: #bd93f9; } blockquote { border-left: 3px solid #6272a4; margin: 0; padding-left: 1rem; color: #c0c0d0; }
+  pre, code { font-family: 'Fira Code', monospace; background: #21222c; } pre { padding: 1rem; overflow-x: auto; } img { max-width: 100%; }
+  footer { margin-top: 3rem; font-size: 13px; color: #6272a4; } input, button { font: inherit; padding: 0.3rem 0.6rem; }
+</style></head><body>${body}<footer>Shared from linkium.xyz</footer></body></html>`;
+
+// Types a browser may show inline on the app's own origin. Everything else, HTML and SVG included,
+// is sent as a download, so an uploaded file cannot run script next to the terminal's tokens.
+const INLINE_TYPES = /^(image\/(png|jpeg|gif|webp|avif|bmp)|audio\/[\w.+-]+|video\/[\w.+-]+|application\/pdf|text\/plain)$/;
+
+const serveShare = async (c: AppContext, password?: string) => {
+  const id = c.req.param('id');
+  const record = await c.env.SITE_KV.get<ShareRecord>(`share_${id}`, 'json');
+  if (!record || record.expires < Date.now()) return c.html(sharePage('Not found', '<h1>Link not found</h1><p>This share does not exist or has expired.</p>'), 404);
+  if (record.passwordHash && !(password && compareSync(password, record.passwordHash))) {
+    const error = password !== undefined ? '<p style="color:#ff5555;">Wrong password.</p>' : '';
+    return c.html(sharePage(record.name, `<h1>${escapeHtml(record.name)}</h1><p>This file is password protected.</p>${error}
+<form method="post"><input type="password" name="password" autofocus placeholder="Password"> <button type="submit">Open</button></form>`), password !== undefined ? 403 : 401);
+  }
+  const disposition = `${c.req.query('download') !== undefined ? 'attachment' : 'inline'}; filename="${record.name.replace(/"/g, '')}"`;
+  if (record.blob) {
+    const object = await c.env.SHARE_BUCKET.get(record.blob.key);
+    if (!object) return c.html(sharePage('Not found', '<h1>File removed</h1><p>The shared file is no longer available.</p>'), 410);
+    // The type stored with the object, not the one in the share record, which the client wrote.
+    const type = object.httpMetadata?.contentType || 'application/octet-stream';
+    const inline = INLINE_TYPES.test(type.split(';')[0].trim().toLowerCase()) && c.req.query('download') === undefined;
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': type, 'Content-Length': String(object.size),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${record.name.replace(/"/g, '')}"`,
+        'X-Content-Type-Options': 'nosniff', 'Content-Security-Policy': 'sandbox',
+      },
+    });
+  }
+  const content = record.content ?? '';
+  if (c.req.query('raw') !== undefined || c.req.query('download') !== undefined) {
+    return new Response(content, { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Content-Disposition': disposition } });
+  }
+  const body = /\.(md|markdown)$/i.test(record.name) ? renderMarkdown(content) : `<h1>${escapeHtml(record.name)}</h1><pre>${escapeHtml(content)}</pre>`;
+  return c.html(sharePage(record.name, `${body}<p><a href="?raw">View raw</a> · <a href="?download">Download</a></p>`));
+};
+// Public: no authMiddleware. Password-protected shares are unlocked through the form POST.
+app.get('/api/share/:id', (c) => serveShare(c));
+app.post('/api/share/:id', async (c) => {
+  const form = await c.req.parseBody();
+  return serveShare(c, typeof form.password === 'string' ? form.password : '');
+});
+
 const NETEASE_API_BASE = 'https://netease-cloud-music-api-nine-delta-39.vercel.app';
 app.get('/api/music/search/:keywords', (c) => fetch(`${NETEASE_API_BASE}/search?keywords=${c.req.param('keywords')}&limit=10`));
 app.get('/api/music/url/:id', (c) => fetch(`${NETEASE_API_BASE}/song/url/v1?id=${c.req.param('id')}&level=exhigh`));
@@ -179,7 +965,7 @@ app.get('/api/video/search/:keywords', (c) => fetch(`https://api.bilibili.com/x/
 app.get('/api/hitokoto', () => fetch('https://v1.hitokoto.cn/?c=a&c=b&c=c&c=d'));
 app.get('/api/devjoke', () => fetch('https://backend-omega-seven.vercel.app/api/getjoke'));
 app.get('/api/weather/:city', (c) => fetch(`https://wttr.in/${c.req.param('city')}?format=3`));
-app.get('/api/curl', (c) => fetch(c.req.query('url') || ''));
+app.get('/api/curl', authMiddleware, requirePermission('net.curl'), (c) => fetch(c.req.query('url') || ''));
 app.get('/api/dns/:domain', (c) => fetch(`https://cloudflare-dns.com/dns-query?name=${c.req.param('domain')}&type=A`, { headers: {'accept': 'application/dns-json'} }));
 app.get('/api/isdown', (c) => fetch(`https://downforeveryoneorjustme.com/v2/isitdown?host=${c.req.query('url')}`));
 app.get('/api/geoip', async (c) => {
@@ -191,37 +977,48 @@ app.get('/api/geoip', async (c) => {
 app.get('/api/github/:username', (c) => fetch(`https://api.github.com/users/${c.req.param('username')}`, { headers: {'User-Agent': 'Cloudflare-Worker'} }));
 app.get('/api/npm/:package', (c) => fetch(`https://registry.npmjs.org/${c.req.param('package')}`));
 
-app.post('/api/ai', authMiddleware, async (c: AppContext) => {
+app.post('/api/ai', authMiddleware, requirePermission('ai.use'), async (c: AppContext) => {
     const { prompt } = await c.req.json<{ prompt: string }>();
     if (!prompt) return c.json({ error: 'Prompt is required' }, 400);
     const geminiApiKey = c.env.GEMINI_API_KEY;
     if (!geminiApiKey) return c.json({ error: 'AI service is not configured.' }, 500);
     const model = 'gemini-1.5-flash-latest';
-    const apiEndpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${geminiApiKey}`;
+    const apiEndpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${geminiApiKey}`;
+    let response: Response;
     try {
-        const response = await fetch(apiEndpoint, {
+        response = await fetch(apiEndpoint, {
             method: 'POST', headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] }),
         });
-        if (!response.ok) { 
-            return new Response(JSON.stringify({ error: `Gemini API error: ${response.statusText}` }), { 
-                status: response.status,
-                headers: { 'Content-Type': 'application/json' }
-            });
-        }
-        const data = await response.json();
-        // @ts-ignore
-        const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text || 'Sorry, I could not generate a response.';
-        return c.json({ response: aiResponse });
     } catch (error) {
         return c.json({ error: 'Failed to contact AI service.' }, 500);
     }
+    if (!response.ok || !response.body) {
+        return new Response(JSON.stringify({ error: `Gemini API error: ${response.statusText}` }), {
+            status: response.ok ? 502 : response.status,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+    // Relays the answer as it is generated: one `message` event per text chunk, then `done`,
+    // or `error` if Gemini's stream breaks off.
+    const body = response.body;
+    return streamSSE(c, async (stream) => {
+        for await (const event of readEvents(body)) {
+            const chunk = JSON.parse(event.data) as GeminiChunk;
+            const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+            if (text) await stream.writeSSE({ data: JSON.stringify({ text }) });
+        }
+        await stream.writeSSE({ event: 'done', data: '' });
+    }, async (_error, stream) => {
+        await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'The AI response was interrupted.' }) });
+    });
 });
-app.post('/api/shorten', authMiddleware, async(c: AppContext) => {
+app.post('/api/shorten', authMiddleware, requirePermission('share.create'), async(c: AppContext) => {
     const { url } = await c.req.json<{ url: string }>();
     if (!url) return c.json({ error: 'URL is required.' }, 400);
     const key = Math.random().toString(36).substring(2, 8);
-    await c.env.SITE_KV.put(`short_${key}`, url, { expirationTtl: 60 * 60 * 24 * 30 });
+    const metadata: LinkMetadata = { owner: c.get('user').username };
+    await c.env.SITE_KV.put(`short_${key}`, url, { expirationTtl: 60 * 60 * 24 * 30, metadata });
     const shortUrl = `${new URL(c.req.url).origin}/s/${key}`;
     return c.json({ short_url: shortUrl });
 });
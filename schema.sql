@@ -0,0 +1,112 @@
+-- D1 schema. Apply with: wrangler d1 execute <database> --file=schema.sql
+
+-- Roles and the permissions they grant; the permission names are listed in src/utils/permissions.ts.
+-- Changes apply to every account with the role from its next request. Applying this file again
+-- restores the default grants below, but keeps any added rows.
+CREATE TABLE IF NOT EXISTS roles (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL DEFAULT '',
+    storage_quota INTEGER NOT NULL   -- Bytes of R2 storage per account
+);
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role TEXT NOT NULL REFERENCES roles (name) ON DELETE CASCADE,
+    permission TEXT NOT NULL,
+    PRIMARY KEY (role, permission)
+);
+INSERT OR IGNORE INTO roles (name, description, storage_quota) VALUES
+    ('admin', 'Administrators', 1073741824),
+    ('guest', 'Regular accounts', 52428800);
+INSERT OR IGNORE INTO role_permissions (role, permission) VALUES
+    ('admin', 'vfs.write'), ('admin', 'files.upload'), ('admin', 'share.create'), ('admin', 'ai.use'),
+    ('admin', 'net.curl'), ('admin', 'sudo'), ('admin', 'users.manage'), ('admin', 'audit.read'),
+    ('guest', 'vfs.write'), ('guest', 'files.upload'), ('guest', 'share.create'), ('guest', 'ai.use'),
+    ('guest', 'net.curl');
+
+CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL REFERENCES roles (name),
+    locked INTEGER NOT NULL DEFAULT 0,   -- A locked account cannot log in and its sessions are ended
+    created INTEGER                      -- NULL for accounts older than this column
+);
+-- Databases created before `locked` and `created` existed need:
+--   ALTER TABLE users ADD COLUMN locked INTEGER NOT NULL DEFAULT 0;
+--   ALTER TABLE users ADD COLUMN created INTEGER;
+-- Older databases also keep a CHECK constraint that only allows the roles 'admin' and 'guest'; the
+-- table has to be copied into a new one without it before other roles can be assigned.
+
+-- One row per signed-in device. Only a hash of the refresh token is stored; `previous_hash` is the
+-- token it replaced, so a copied token that comes back after rotation can be recognised.
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    refresh_hash TEXT NOT NULL UNIQUE,
+    previous_hash TEXT,
+    user_agent TEXT,
+    ip TEXT,
+    created INTEGER NOT NULL,     -- Milliseconds since the epoch, like the other timestamps
+    last_used INTEGER NOT NULL,   -- Updated on every refresh
+    expires INTEGER NOT NULL,
+    revoked INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS sessions_user ON sessions (user_id);
+
+-- Security-relevant events, newest last. `actor` is who did it (NULL when not logged in) and `target`
+-- the account it was done to; `detail` is free text such as the User-Agent of a login.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    time INTEGER NOT NULL,
+    actor TEXT,
+    action TEXT NOT NULL,
+    target TEXT,
+    ip TEXT,
+    detail TEXT
+);
+CREATE INDEX IF NOT EXISTS audit_log_time ON audit_log (time);
+CREATE INDEX IF NOT EXISTS audit_log_actor ON audit_log (actor, action);
+
+-- Failed logins per account (`user:<name>`) and per IP address (`ip:<address>`), for throttling.
+-- `locked_until` is when the next attempt is accepted again; rows are dropped a day after `last_failure`.
+CREATE TABLE IF NOT EXISTS login_failures (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL,
+    locked_until INTEGER NOT NULL DEFAULT 0,
+    last_failure INTEGER NOT NULL
+);
+
+-- TOTP two-factor authentication. A row with enabled = 0 is a setup that has not been confirmed
+-- with a code yet. `last_step` is the time step of the last accepted code, which cannot be used again.
+CREATE TABLE IF NOT EXISTS totp (
+    user_id INTEGER PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 0,
+    last_step INTEGER NOT NULL DEFAULT 0,
+    created INTEGER NOT NULL
+);
+
+-- Single-use codes for logging in without the authenticator app, stored as SHA-256 hashes.
+CREATE TABLE IF NOT EXISTS recovery_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS recovery_codes_user ON recovery_codes (user_id);
+
+-- The revision of each user's file system, which itself lives in KV. Writes move it forward with a
+-- conditional update, so two writes based on the same revision cannot both succeed.
+CREATE TABLE IF NOT EXISTS vfs_revisions (
+    username TEXT PRIMARY KEY,
+    revision INTEGER NOT NULL
+);
+
+-- Invite codes for self-registration with `register`. Each creates up to `uses_left` more guest
+-- accounts until it expires.
+CREATE TABLE IF NOT EXISTS invites (
+    code TEXT PRIMARY KEY,
+    created_by TEXT NOT NULL,
+    created INTEGER NOT NULL,
+    expires INTEGER NOT NULL,
+    uses_left INTEGER NOT NULL
+);
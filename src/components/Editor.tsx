@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useRef } from 'react';
+import '../assets/Editor.css';
+
+interface EditorProps {
+  path: string;
+  initialContent: string;
+  onSave: (content: string) => string | null; // error message, or null when written
+  onExit: () => void;
+}
+
+type EditorMode = 'edit' | 'search' | 'confirm-exit';
+
+const TAB = '    ';
+
+const SHORTCUTS: [string, string][] = [
+  ['^O', 'Write Out'], ['^X', 'Exit'], ['^F', 'Where Is'], ['^K', 'Cut Line'], ['^U', 'Paste'], ['^A', 'Line Start'], ['^E', 'Line End'],
+];
+
+// A nano-style full-screen editor for VFS files. It takes over the screen like the
+// `hollywood` mode and hands the buffer back through `onSave`.
+const Editor: React.FC<EditorProps> = ({ path, initialContent, onSave, onExit }) => {
+  const [lines, setLines] = useState<string[]>(() => initialContent.split('\n'));
+  const [cursor, setCursor] = useState({ row: 0, col: 0 });
+  const [modified, setModified] = useState(false);
+  const [mode, setMode] = useState<EditorMode>('edit');
+  const [query, setQuery] = useState('');
+  const [lastQuery, setLastQuery] = useState('');
+  const [status, setStatus] = useState(`[ Read ${initialContent.split('\n').length} lines ]`);
+  const [cutBuffer, setCutBuffer] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => { containerRef.current?.focus(); }, []);
+  useEffect(() => { cursorRef.current?.scrollIntoView({ block: 'nearest' }); }, [cursor]);
+
+  const edit = (newLines: string[], newCursor: { row: number; col: number }) => {
+    setLines(newLines);
+    setCursor(newCursor);
+    setModified(true);
+  };
+
+  const insertText = (text: string) => {
+    const { row, col } = cursor;
+    const line = lines[row];
+    const inserted = (line.substring(0, col) + text + line.substring(col)).split('\n');
+    const lastLength = inserted[inserted.length - 1].length - (line.length - col);
+    edit([...lines.slice(0, row), ...inserted, ...lines.slice(row + 1)], { row: row + inserted.length - 1, col: lastLength });
+  };
+
+  const save = () => {
+    const error = onSave(lines.join('\n'));
+    if (error === null) {
+      setModified(false);
+      setStatus(`[ Wrote ${lines.length} lines ]`);
+      return true;
+    }
+    setStatus(`[ Error writing ${path}: ${error} ]`);
+    return false;
+  };
+
+  const find = (term: string) => {
+    if (!term) return;
+    setLastQuery(term);
+    // Search forward from just after the cursor and wrap around the buffer.
+    for (let offset = 0; offset <= lines.length; offset++) {
+      const row = (cursor.row + offset) % lines.length;
+      const from = offset === 0 ? cursor.col + 1 : 0;
+      const col = lines[row].indexOf(term, from);
+      if (col !== -1) {
+        setCursor({ row, col });
+        setStatus(offset === lines.length ? '[ Search Wrapped ]' : '');
+        return;
+      }
+    }
+    setStatus(`[ "${term}" not found ]`);
+  };
+
+  const moveCursor = (row: number, col: number) => {
+    const clampedRow = Math.max(0, Math.min(lines.length - 1, row));
+    setCursor({ row: clampedRow, col: Math.max(0, Math.min(lines[clampedRow].length, col)) });
+  };
+
+  const handleEditKey = (e: React.KeyboardEvent) => {
+    const { row, col } = cursor;
+    const line = lines[row];
+    if (e.ctrlKey) {
+      switch (e.key.toLowerCase()) {
+        case 'o': save(); break;
+        case 'x':
+          if (modified) { setMode('confirm-exit'); setStatus('Save modified buffer? (Y/N, ^C to cancel)'); }
+          else onExit();
+          break;
+        case 'f': // Browsers reserve ^W (close tab), so ^F is the primary search key
+        case 'w': setMode('search'); setQuery(''); setStatus(''); break;
+        case 'k':
+          setCutBuffer([line]);
+          edit(lines.length > 1 ? lines.filter((_, i) => i !== row) : [''], { row: Math.min(row, Math.max(lines.length - 2, 0)), col: 0 });
+          break;
+        case 'u':
+          if (cutBuffer.length) edit([...lines.slice(0, row), ...cutBuffer, ...lines.slice(row)], { row: row + cutBuffer.length, col: 0 });
+          break;
+        case 'a': moveCursor(row, 0); break;
+        case 'e': moveCursor(row, line.length); break;
+        default: return;
+      }
+      e.preventDefault();
+      return;
+    }
+    switch (e.key) {
+      case 'ArrowUp': moveCursor(row - 1, col); break;
+      case 'ArrowDown': moveCursor(row + 1, col); break;
+      case 'ArrowLeft':
+        if (col > 0) moveCursor(row, col - 1);
+        else if (row > 0) moveCursor(row - 1, lines[row - 1].length);
+        break;
+      case 'ArrowRight':
+        if (col < line.length) moveCursor(row, col + 1);
+        else if (row < lines.length - 1) moveCursor(row + 1, 0);
+        break;
+      case 'Home': moveCursor(row, 0); break;
+      case 'End': moveCursor(row, line.length); break;
+      case 'PageUp': moveCursor(row - 20, col); break;
+      case 'PageDown': moveCursor(row + 20, col); break;
+      case 'Enter': insertText('\n'); break;
+      case 'Tab': insertText(TAB); break;
+      case 'Backspace':
+        if (col > 0) edit(lines.map((l, i) => i === row ? l.substring(0, col - 1) + l.substring(col) : l), { row, col: col - 1 });
+        else if (row > 0) {
+          const previous = lines[row - 1];
+          edit([...lines.slice(0, row - 1), previous + line, ...lines.slice(row + 1)], { row: row - 1, col: previous.length });
+        }
+        break;
+      case 'Delete':
+        if (col < line.length) edit(lines.map((l, i) => i === row ? l.substring(0, col) + l.substring(col + 1) : l), { row, col });
+        else if (row < lines.length - 1) edit([...lines.slice(0, row), line + lines[row + 1], ...lines.slice(row + 2)], { row, col });
+        break;
+      default:
+        if (e.key.length !== 1 || e.metaKey || e.altKey) return;
+        insertText(e.key);
+    }
+    e.preventDefault();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mode === 'edit') { handleEditKey(e); return; }
+    e.preventDefault();
+    if (mode === 'confirm-exit') {
+      const key = e.key.toLowerCase();
+      if (key === 'y') { if (save()) onExit(); else setMode('edit'); }
+      else if (key === 'n') onExit();
+      else if (key === 'c' && e.ctrlKey) { setMode('edit'); setStatus('[ Cancelled ]'); }
+      return;
+    }
+    // Search prompt
+    if (e.key === 'Enter') { setMode('edit'); find(query || lastQuery); }
+    else if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'c')) { setMode('edit'); setStatus('[ Cancelled ]'); }
+    else if (e.key === 'Backspace') setQuery(q => q.slice(0, -1));
+    else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) setQuery(q => q + e.key);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    e.preventDefault();
+    if (mode === 'edit') insertText(e.clipboardData.getData('text').replace(/\r\n?/g, '\n').replace(/\t/g, TAB));
+  };
+
+  return (
+    <div className="editor" ref={containerRef} tabIndex={0} onKeyDown={handleKeyDown} onPaste={handlePaste} onClick={() => containerRef.current?.focus()}>
+      <div className="editor-header">
+        <span>nano (web-zsh)</span>
+        <span>File: {path}</span>
+        <span>{modified ? 'Modified' : ''}</span>
+      </div>
+      <div className="editor-body">
+        {lines.map((line, row) => (
+          <div key={row} className="editor-line">
+            {row === cursor.row ? (
+              <>
+                {line.substring(0, cursor.col)}
+                <span ref={cursorRef} className="editor-cursor">{line[cursor.col] ?? ' '}</span>
+                {line.substring(cursor.col + 1)}
+              </>
+            ) : (line || ' ')}
+          </div>
+        ))}
+      </div>
+      <div className="editor-status">
+        {mode === 'search' ? `Search${lastQuery ? ` [${lastQuery}]` : ''}: ${query}` : status}
+      </div>
+      <div className="editor-shortcuts">
+        {SHORTCUTS.map(([key, label]) => (
+          <span key={key}><span className="editor-key">{key}</span> {label}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Editor;
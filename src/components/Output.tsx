@@ -0,0 +1,64 @@
+import React, { Fragment } from 'react';
+import { Color, OutputLine, Segment, Style, isSafeUrl, parseAnsi } from '../utils/output';
+
+// ANSI colours in the current theme's palette.
+const COLORS: { [color in Color]: string } = {
+  black: 'var(--background-color)', red: 'var(--red)', green: 'var(--green)', yellow: 'var(--yellow)',
+  blue: 'var(--purple)', magenta: 'var(--pink)', cyan: 'var(--cyan)', white: 'var(--text-color)', gray: 'var(--comment)',
+};
+
+const toCss = (style: Style): React.CSSProperties => ({
+  color: style.color && COLORS[style.color],
+  backgroundColor: style.background && COLORS[style.background],
+  fontWeight: style.bold ? 'bold' : undefined,
+  opacity: style.dim ? 0.6 : undefined,
+  fontStyle: style.italic ? 'italic' : undefined,
+  textDecoration: style.underline ? 'underline' : undefined,
+});
+
+// Wraps matches of the find bar's pattern in <mark>.
+const highlight = (text: string, pattern: RegExp | null): React.ReactNode =>
+  pattern ? text.split(pattern).map((piece, i) => i % 2 === 1 ? <mark key={i}>{piece}</mark> : piece) : text;
+
+const renderSegment = (segment: Segment, key: number, pattern: RegExp | null): React.ReactNode => {
+  switch (segment.type) {
+    case 'text': return <Fragment key={key}>{highlight(segment.text, pattern)}</Fragment>;
+    case 'span': return <span key={key} style={toCss(segment.style)}>{highlight(segment.text, pattern)}</span>;
+    case 'link':
+    case 'action': {
+      const href = segment.type === 'link' ? segment.href : segment.url;
+      if (!isSafeUrl(href)) return <Fragment key={key}>{highlight(segment.text, pattern)}</Fragment>;
+      return <a key={key} href={href} target="_blank" rel="noopener noreferrer">{highlight(segment.text, pattern)}</a>;
+    }
+    case 'pre': return <pre key={key} className={segment.tight ? 'tight' : undefined}>{renderText(segment.text, pattern)}</pre>;
+    case 'table':
+      return (
+        <table key={key} className="output-table">
+          <thead><tr>{segment.header.map((cell, i) => <th key={i}>{renderText(cell, pattern)}</th>)}</tr></thead>
+          <tbody>
+            {segment.rows.map((row, i) => <tr key={i}>{row.map((cell, j) => <td key={j}>{renderText(cell, pattern)}</td>)}</tr>)}
+          </tbody>
+        </table>
+      );
+    case 'prompt':
+      return (
+        <Fragment key={key}>
+          <span className="prompt-user">{highlight(`${segment.user}@${segment.host}`, pattern)}</span>
+          <span className="prompt-symbol">{highlight(`:${segment.path}$ `, pattern)}</span>
+        </Fragment>
+      );
+  }
+};
+
+const renderText = (text: string, pattern: RegExp | null) => parseAnsi(text).map((segment, i) => renderSegment(segment, i, pattern));
+
+interface OutputProps {
+  line: OutputLine;
+  pattern?: RegExp | null; // Search matches to highlight
+}
+
+const Output = ({ line, pattern = null }: OutputProps) => (
+  <>{typeof line === 'string' ? renderText(line, pattern) : line.map((segment, i) => renderSegment(segment, i, pattern))}</>
+);
+
+export default Output;
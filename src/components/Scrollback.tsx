@@ -0,0 +1,160 @@
+import React, { memo, useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import { OutputLine } from '../utils/output';
+import { ScrollbackLine, lineMatches, searchPattern } from '../utils/scrollback';
+import Output from './Output';
+
+// Only the rows near the viewport are rendered; spacers stand in for the rest. Rows are measured once
+// they render, lines that never have been use this estimate (16px text at line-height 1.5).
+const ESTIMATED_ROW_HEIGHT = 24;
+const OVERSCAN_PX = 600; // Rendered above and below the viewport so fast scrolling doesn't show gaps
+
+// First index whose offset is greater than `y`.
+const firstAfter = (offsets: number[], y: number) => {
+  let low = 0, high = offsets.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] > y) high = mid; else low = mid + 1;
+  }
+  return low;
+};
+
+interface RowProps { id: number; line: OutputLine; pattern: RegExp | null; current: boolean; }
+
+const Row = memo(({ id, line, pattern, current }: RowProps) => (
+  <div data-line={id} className={current ? 'scrollback-row find-current' : 'scrollback-row'}>
+    <Output line={line} pattern={pattern} />
+  </div>
+));
+
+interface ScrollbackProps {
+  lines: ScrollbackLine[];
+  scrollRef: React.RefObject<HTMLDivElement>; // The scrolling element the rows are rendered in
+  finding: boolean;                           // Whether the Ctrl+Shift+F search bar is open
+  onFindClose: () => void;
+}
+
+const Scrollback = ({ lines, scrollRef, finding, onFindClose }: ScrollbackProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<number, number>()); // By line id
+  const [measured, setMeasured] = useState(0);       // Bumped whenever a row's height changes
+  const [viewport, setViewport] = useState({ top: 0, height: 0 }); // Relative to the top of the list
+  const pinned = useRef(true); // Scrolled to the bottom; stays there while rows get measured
+
+  const [query, setQuery] = useState('');
+  const [currentId, setCurrentId] = useState<number | null>(null); // Line of the current match
+
+  // offsets[i] is the top of line i, offsets[lines.length] the total height.
+  const offsets = useMemo(() => {
+    const result = [0];
+    lines.forEach((line, i) => result.push(result[i] + (heights.current.get(line.id) ?? ESTIMATED_ROW_HEIGHT)));
+    return result;
+  }, [lines, measured]);
+
+  const listTop = useCallback(() => {
+    const container = scrollRef.current!;
+    return listRef.current!.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+  }, [scrollRef]);
+
+  const updateViewport = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container || !listRef.current) return;
+    pinned.current = container.scrollHeight - container.scrollTop - container.clientHeight < 2;
+    const next = { top: container.scrollTop - listTop(), height: container.clientHeight };
+    setViewport(prev => prev.top === next.top && prev.height === next.height ? prev : next);
+  }, [scrollRef, listTop]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    let frame = 0;
+    const schedule = () => { cancelAnimationFrame(frame); frame = requestAnimationFrame(updateViewport); };
+    container.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    updateViewport();
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [scrollRef, updateViewport]);
+
+  // Measures rendered rows, including when the window width changes how they wrap.
+  const observer = useMemo(() => new ResizeObserver(entries => {
+    let changed = false;
+    for (const entry of entries) {
+      const row = entry.target as HTMLElement;
+      const id = Number(row.dataset.line);
+      if (heights.current.get(id) !== row.offsetHeight) { heights.current.set(id, row.offsetHeight); changed = true; }
+    }
+    if (changed) setMeasured(n => n + 1);
+  }), []);
+  useLayoutEffect(() => {
+    listRef.current?.querySelectorAll<HTMLElement>('[data-line]').forEach(row => observer.observe(row));
+    return () => observer.disconnect();
+  });
+  useLayoutEffect(() => {
+    if (pinned.current && scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [offsets, scrollRef]);
+
+  // Forget the heights of lines that were dropped or cleared.
+  useEffect(() => {
+    const first = lines[0]?.id ?? Infinity;
+    heights.current.forEach((_, id) => { if (id < first) heights.current.delete(id); });
+  }, [lines]);
+
+  // --- Search ---
+  const pattern = useMemo(() => finding ? searchPattern(query) : null, [finding, query]);
+  const matches = useMemo(() => pattern ? lines.flatMap((line, i) => lineMatches(line.line, pattern) ? [i] : []) : [], [lines, pattern]);
+  const position = matches.findIndex(i => lines[i].id === currentId);
+
+  const jumpTo = (index: number) => {
+    const container = scrollRef.current;
+    if (!container || !listRef.current) return;
+    setCurrentId(lines[index].id);
+    container.scrollTop = listTop() + offsets[index] - container.clientHeight / 2;
+  };
+
+  // A new query starts at the newest match.
+  useEffect(() => {
+    if (matches.length > 0) jumpTo(matches[matches.length - 1]);
+    else setCurrentId(null);
+  }, [pattern]);
+
+  // Enter and ↑ go to older matches, Shift+Enter and ↓ to newer ones; Escape closes the bar.
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') { e.preventDefault(); onFindClose(); return; }
+    const newer = (e.key === 'Enter' && e.shiftKey) || e.key === 'ArrowDown';
+    if (e.key !== 'Enter' && e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    if (matches.length === 0) return;
+    const next = position === -1 ? matches.length - 1 : (position + (newer ? 1 : -1) + matches.length) % matches.length;
+    jumpTo(matches[next]);
+  };
+
+  const start = Math.max(0, firstAfter(offsets, viewport.top - OVERSCAN_PX) - 1);
+  const end = Math.min(lines.length, firstAfter(offsets, viewport.top + viewport.height + OVERSCAN_PX));
+
+  return (
+    <>
+      {finding && (
+        <div className="find-bar" onClick={e => e.stopPropagation()}>
+          <input
+            type="text" value={query} placeholder="Find in output"
+            onChange={e => setQuery(e.target.value)} onKeyDown={handleFindKeyDown}
+            autoFocus autoComplete="off" spellCheck="false"
+          />
+          <span>{query && (matches.length > 0 ? `${position + 1}/${matches.length}` : 'No matches')}</span>
+        </div>
+      )}
+      <div ref={listRef}>
+        <div style={{ height: offsets[start] }} />
+        {lines.slice(start, end).map(line => (
+          <Row key={line.id} id={line.id} line={line.line} pattern={pattern} current={pattern !== null && line.id === currentId} />
+        ))}
+        <div style={{ height: offsets[lines.length] - offsets[end] }} />
+      </div>
+    </>
+  );
+};
+
+export default memo(Scrollback);
@@ -1,8 +1,23 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { LoginOutcome, useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useVFS } from '../hooks/useVFS';
+import { useScrollback } from '../hooks/useScrollback';
 import { processCommand } from '../utils/commandProcessor';
+import { AuthContext, LoginAttempt, SongInfo, TerminalController, VfsContext } from '../utils/commandContext';
+import { commandNames } from '../utils/commandRegistry';
+import { initPlugins } from '../utils/pluginManager';
+import { jobTable } from '../utils/jobs';
+import { complete, formatColumns } from '../utils/completion';
+import { shellEnv } from '../utils/environment';
+import { HistoryExpansionError, expandHistory, shellHistory, writeHistoryFile } from '../utils/history';
+import { canAccess, createBlobFile, createFile, dirname, getObjectByPath, isDir, isFile, joinPath, setObjectByPath, writeFile } from '../utils/vfs';
+import { readInlineText, uploadBlob } from '../utils/fileTransfer';
+import { formatSize } from '../utils/textUtils';
+import { OutputLine, Segment, isSafeUrl, paint } from '../utils/output';
+import Editor from './Editor';
+import Scrollback from './Scrollback';
+import Output from './Output';
 import { bootSequence } from '../utils/boot';
 import '../assets/Terminal.css';
 
@@ -49,34 +64,53 @@ const Hollywood: React.FC<{ onExit: () => void }> = ({ onExit }) => {
 };
 
 
+const CONFLICT_PROMPT = 'Your files were changed in another session. Keep [m]ine, take [t]heirs or [r]eplay mine on top? ';
+
 const Terminal: React.FC = () => {
-  const { user, login, logout, getAuthHeader } = useAuth();
+  const { user, login, verifyCode, logout, getAuthHeader } = useAuth();
   const { addToast } = useToast();
-  const { vfs, currentPath, ...vfsActions } = useVFS(user, getAuthHeader, addToast);
+  const { vfs, currentPath, startupScript, clearStartupScript, conflict, resolveConflict, online, ...vfsActions } = useVFS(user, getAuthHeader, addToast, logout);
 
-  const [history, setHistory] = useState<string[]>([]);
+  const { lines, print, replaceLast, clear, setLimit: setScrollbackLimit } = useScrollback();
+  const [isFinding, setIsFinding] = useState(false); // Ctrl+Shift+F search through the scrollback
   const [input, setInput] = useState('');
-  const [commandHistory, setCommandHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [historyIndex, setHistoryIndex] = useState(-1); // Steps back from the newest entry while browsing with the arrows
+  // Ctrl+R reverse incremental search: `match` indexes shellHistory.entries(), -1 when nothing matches.
+  const [search, setSearch] = useState<{ query: string; match: number; original: string } | null>(null);
   
   const [isBooting, setIsBooting] = useState(true);
   const [isPasswordPrompt, setIsPasswordPrompt] = useState(false);
   const [isJsRepl, setIsJsRepl] = useState(false);
   const [isHollywood, setIsHollywood] = useState(false);
+  const [editorFile, setEditorFile] = useState<string | null>(null);
 
-  const [loginAttempt, setLoginAttempt] = useState<{ username: string; turnstileToken: string | null } | null>(null);
-  const [activeIntervalId, setActiveIntervalId] = useState<number | null>(null);
+  const [loginAttempt, setLoginAttempt] = useState<LoginAttempt | null>(null);
+  // Set after the password when the account uses 2FA; the login finishes with a verification code.
+  const [codeChallenge, setCodeChallenge] = useState<{ username: string; challenge: string } | null>(null);
+  const [isRunning, setIsRunning] = useState(false); // A foreground job holds the prompt until it ends or Ctrl+C kills it
+  // A command (passwd, useradd, register) waiting for a password typed at a masked prompt.
+  const [secretRequest, setSecretRequest] = useState<{ prompt: string; resolve: (secret: string | null) => void } | null>(null);
+  const isSecretPrompt = isPasswordPrompt || codeChallenge !== null || secretRequest !== null;
   
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
-  const [currentSong, setCurrentSong] = useState<{name: string, artist: string} | null>(null);
+  const [currentSong, setCurrentSong] = useState<SongInfo | null>(null);
   const turnstileLoaded = useRef(false);
   const turnstileRef = useRef<HTMLDivElement>(null); // Ref for the Turnstile container
 
+  const vfsRef = useRef(vfs); // Lets long-running commands (tail -f, watch) read the latest tree
+  vfsRef.current = vfs;
   const terminalEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadDirRef = useRef('~'); // Target directory of the pending `upload` file picker
 
   const hostname = "linkium.xyz"; // Centralized hostname for display
-  const prompt = isJsRepl ? `<span style="color:var(--yellow);">&gt;&nbsp;</span>` : `<span class="prompt-user">${user?.username || 'guest'}@${hostname}</span><span class="prompt-symbol">:${currentPath}$ </span>`;
+  const prompt = useMemo((): Segment[] => isJsRepl
+    ? [{ type: 'span', text: '> ', style: { color: 'yellow' } }]
+    : [{ type: 'prompt', user: user?.username || 'guest', host: hostname, path: currentPath }], [isJsRepl, user, currentPath]);
+  // A command line as it is echoed above its output.
+  const echo = (command: string): OutputLine => [...prompt, { type: 'text', text: command }];
   
   const scrollToBottom = () => {
     terminalEndRef.current?.scrollIntoView({ behavior: 'auto' }); // Use 'auto' for instant scroll
@@ -85,11 +119,12 @@ const Terminal: React.FC = () => {
   useEffect(() => {
     const startBoot = async () => {
       for (const line of bootSequence) {
-        setHistory(prev => [...prev, line.text]);
+        print(line.text);
         await new Promise(resolve => setTimeout(resolve, line.delay));
       }
+      await initPlugins();
       setIsBooting(false);
-      setHistory(prev => [...prev, `Welcome! Type 'login guest' or 'login admin' to begin. Or type 'help'.`]);
+      print(`Welcome! Type 'login guest' or 'login admin' to begin. Or type 'help'.`);
     };
     startBoot();
   }, []);
@@ -111,9 +146,23 @@ const Terminal: React.FC = () => {
 
   useEffect(() => {
     loadTurnstileScript();
+    if (isFinding) return; // Leave the scroll position and focus to the find bar
     scrollToBottom();
-    inputRef.current?.focus();
-  }, [history, isBooting, loadTurnstileScript]);
+    if (!editorFile) inputRef.current?.focus();
+  }, [lines, isBooting, loadTurnstileScript, editorFile, isFinding]);
+
+  useEffect(() => {
+    const handleFindShortcut = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'f' && e.ctrlKey && e.shiftKey) {
+        e.preventDefault();
+        setIsFinding(true);
+      }
+    };
+    window.addEventListener('keydown', handleFindShortcut);
+    return () => window.removeEventListener('keydown', handleFindShortcut);
+  }, []);
+
+  const closeFind = useCallback(() => setIsFinding(false), []);
 
   useEffect(() => {
     if (loginAttempt) {
@@ -123,7 +172,7 @@ const Terminal: React.FC = () => {
                 sitekey: import.meta.env.VITE_TURNSTILE_SITE_KEY,
                 callback: (token: string) => {
                     setLoginAttempt(prev => prev ? { ...prev, turnstileToken: token } : null);
-                    setHistory(prev => [...prev, 'Turnstile verification successful. Please enter password.']);
+                    print('Turnstile verification successful. Please enter password.');
                     setIsPasswordPrompt(true);
                 },
                 'error-callback': () => {
@@ -146,121 +195,291 @@ const Terminal: React.FC = () => {
     }
   }, [loginAttempt, addToast]);
   
+  // Prints command output and performs the actions in it, like opening a link in a new tab.
+  const printOutput = useCallback((lines: OutputLine[]) => {
+    for (const line of lines) {
+      if (typeof line === 'string') continue;
+      line.forEach(segment => { if (segment.type === 'action' && isSafeUrl(segment.url)) window.open(segment.url, '_blank', 'noopener,noreferrer'); });
+    }
+    print(...lines);
+  }, [print]);
+
   const handleCommandExecution = useCallback(async (command: string) => {
-    const terminalController = {
-        clearScreen: () => setHistory([]),
-        pushToHistory: (lines: string[]) => setHistory(prev => [...prev, ...lines]),
-        setActiveInterval: (id: number | null) => setActiveIntervalId(id),
-        setAudioSrc: (src: string | null, songInfo: {name: string, artist: string} | null) => {
+    const terminalController: TerminalController = {
+        clearScreen: clear,
+        pushToHistory: printOutput,
+        updateLastLine: replaceLast,
+        setScrollback: setScrollbackLimit,
+        getVFS: vfsActions.getLatestVFS,
+        readSecret: (secretPrompt) => new Promise(resolve => {
+            setInput('');
+            setSecretRequest({ prompt: secretPrompt, resolve });
+        }),
+        setAudioSrc: (src, songInfo) => {
             setAudioSrc(src); setCurrentSong(songInfo);
         },
-        changeTheme: (theme: string) => {
+        changeTheme: (theme) => {
             document.documentElement.setAttribute('data-theme', theme); localStorage.setItem('terminal-theme', theme);
         }
     };
 
-    const authContext = { user, login, logout, getAuthHeader, startLogin: setLoginAttempt };
-    const vfsContext = { vfs, currentPath, ...vfsActions };
+    const authContext: AuthContext = { user, logout, getAuthHeader, startLogin: setLoginAttempt };
+    const vfsContext: VfsContext = { vfs, currentPath, ...vfsActions };
 
     // JS REPL Logic
     if (isJsRepl) {
         if (command.toLowerCase() === 'exit') {
             setIsJsRepl(false);
-            setHistory(prev => [...prev, `${prompt}${command}`, 'Exiting JavaScript REPL.']);
+            print(echo(command), 'Exiting JavaScript REPL.');
             return;
         }
         try {
             // A safer eval using new Function
             const result = new Function(`"use strict"; return (() => { ${command} })()`)();
-            setHistory(prev => [...prev, `${prompt}${command}`, String(result)]);
+            print(echo(command), String(result));
         } catch (e: any) {
-            setHistory(prev => [...prev, `${prompt}${command}`, `<span style="color:var(--red);">${e.name}: ${e.message}</span>`]);
+            print(echo(command), paint(`${e.name}: ${e.message}`, 'red'));
         }
         return;
     }
 
-    const output = await processCommand(command, authContext, vfsContext, addToast, terminalController);
+    setIsRunning(true);
+    const job = jobTable.spawn(command, user?.username || 'guest', false, foreground => processCommand(command, authContext, vfsContext, addToast, terminalController, foreground));
+    const output = await job.result;
+    setIsRunning(false);
     
     // Handle special commands returned from commandProcessor
-    if (output.special === 'clear') { setHistory([]); }
-    else if (output.special === 'js_repl') { setIsJsRepl(true); setHistory(prev => [...prev, 'Entering JavaScript REPL. Type "exit" to leave.']); }
+    if (output.special === 'clear') { clear(); }
+    else if (output.special === 'js_repl') { setIsJsRepl(true); print('Entering JavaScript REPL. Type "exit" to leave.'); }
     else if (output.special === 'hollywood') { setIsHollywood(true); }
-    else if (output.text.length > 0) {
-        const jsCommand = output.text.find(line => line.startsWith('window.open'));
-        if (jsCommand) {
-            try { new Function(jsCommand)(); setHistory(prev => [...prev, "Executing..."]); }
-            catch (e) { console.error(e); setHistory(prev => [...prev, "Execution failed."]); }
-        } else {
-             setHistory(prev => [...prev, ...output.text]);
-        }
-    }
+    else if (output.special === 'editor' && output.file) { setEditorFile(output.file); }
+    else if (output.special === 'upload' && output.file) { uploadDirRef.current = output.file; fileInputRef.current?.click(); }
+    printOutput(output.text);
     setTimeout(scrollToBottom, 0);
-  }, [user, login, logout, getAuthHeader, vfs, currentPath, vfsActions, addToast, isJsRepl, prompt]);
+  }, [user, login, logout, getAuthHeader, vfs, currentPath, vfsActions, addToast, isJsRepl, prompt, printOutput]);
+
+  // Source ~/.zshrc after login so aliases, variables and the theme follow the account.
+  useEffect(() => {
+    if (!startupScript) return;
+    clearStartupScript();
+    handleCommandExecution(`source ${startupScript}`);
+  }, [startupScript, clearStartupScript, handleCommandExecution]);
+
+  const finishLogin = (outcome: LoginOutcome, username: string) => {
+    if (outcome.status === 'ok') addToast(`Welcome, ${username}!`, 'success');
+    else if (outcome.status === 'error') addToast(outcome.error, 'error');
+  };
 
   const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
+      if (secretRequest) {
+        setSecretRequest(null);
+        setInput('');
+        print(`${secretRequest.prompt}****`);
+        secretRequest.resolve(input);
+        return;
+      }
+      if (isRunning) return;
       const command = input.trim();
       setInput('');
 
+      if (conflict) {
+        const choice = ({ m: 'mine', t: 'theirs', r: 'merge' } as const)[command.toLowerCase()[0] as 'm' | 't' | 'r'];
+        print(`${CONFLICT_PROMPT}${command}`);
+        if (choice) await resolveConflict(choice);
+        return;
+      }
+
       if (isPasswordPrompt && loginAttempt) {
-        const success = await login(loginAttempt.username, command, loginAttempt.turnstileToken!);
+        const outcome = await login(loginAttempt.username, command, loginAttempt.turnstileToken!);
         setIsPasswordPrompt(false);
         setLoginAttempt(null);
-        setHistory(prev => [...prev, `Password: ****`]);
-        if (success) {
-            addToast(`Welcome, ${loginAttempt.username}!`, 'success');
+        print(`Password: ****`);
+        if (outcome.status === 'code') {
+            print('Enter the code from your authenticator app, or a recovery code.');
+            setCodeChallenge({ username: loginAttempt.username, challenge: outcome.challenge });
         } else {
-            addToast('Login failed.', 'error');
+            finishLogin(outcome, loginAttempt.username);
         }
         return;
       }
+
+      if (codeChallenge) {
+        const outcome = await verifyCode(codeChallenge.challenge, command);
+        setCodeChallenge(null);
+        print(`Verification code: ${'*'.repeat(command.length)}`);
+        finishLogin(outcome, codeChallenge.username);
+        return;
+      }
       
-      const fullCommand = `${prompt}${command}`;
       if (!isJsRepl) {
-        setHistory(prev => [...prev, fullCommand]);
+        print(echo(command));
       }
       
       if (command || isJsRepl) {
-        if (!isJsRepl && command && command !== commandHistory[0]) {
-            setCommandHistory(prev => [command, ...prev].slice(0, 50));
-        }
         setHistoryIndex(-1);
-        await handleCommandExecution(command);
+        if (isJsRepl) { await handleCommandExecution(command); return; }
+        let expanded: string;
+        try { expanded = expandHistory(command); }
+        catch (err) {
+          if (!(err instanceof HistoryExpansionError)) throw err;
+          print(`zsh: ${err.message}`);
+          return;
+        }
+        // Like zsh, show the command line that `!!`/`!n` expanded to before running it.
+        if (expanded !== command) print(expanded);
+        shellHistory.add(expanded);
+        await handleCommandExecution(expanded);
+        saveHistory();
+      }
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (isJsRepl || conflict || isSecretPrompt) return;
+      const result = complete(input, {
+        commands: commandNames(), aliases: [...shellEnv.aliases.keys()], vfs, currentPath, username: user?.username,
+      });
+      if (result.candidates.length > 0) {
+        // Roughly 10px per character at the terminal's font size.
+        const columns = Math.floor((bodyRef.current?.clientWidth ?? 800) / 10);
+        print(echo(input), ...formatColumns(result.candidates, columns));
       }
+      setInput(result.text);
     } else if (e.key === 'ArrowUp') {
       e.preventDefault();
-      if (!isJsRepl && commandHistory.length > 0) {
-        const newIndex = Math.min(commandHistory.length - 1, historyIndex + 1);
+      const entries = shellHistory.entries();
+      if (!isJsRepl && entries.length > 0) {
+        const newIndex = Math.min(entries.length - 1, historyIndex + 1);
         setHistoryIndex(newIndex);
-        setInput(commandHistory[newIndex] || '');
+        setInput(entries[entries.length - 1 - newIndex] || '');
       }
     } else if (e.key === 'ArrowDown') {
       e.preventDefault();
+      const entries = shellHistory.entries();
       if (!isJsRepl && historyIndex >= 0) {
         const newIndex = historyIndex - 1;
         setHistoryIndex(newIndex);
-        setInput(newIndex >= 0 ? commandHistory[newIndex] : '');
+        setInput(newIndex >= 0 ? entries[entries.length - 1 - newIndex] : '');
       }
+    } else if (e.key === 'r' && e.ctrlKey) {
+      e.preventDefault();
+      if (!isJsRepl && !conflict && !isSecretPrompt) setSearch({ query: '', match: -1, original: input });
     } else if (e.key === 'c' && e.ctrlKey) {
       e.preventDefault();
-      if (activeIntervalId) {
-        clearInterval(activeIntervalId);
-        setActiveIntervalId(null);
-        setHistory(prev => [...prev, `${prompt}${input}`, `^C<br/>Watch command terminated.`]);
+      if (secretRequest) {
+        setSecretRequest(null);
+        print(`${secretRequest.prompt}^C`);
+        secretRequest.resolve(null);
+      } else if (jobTable.interrupt()) {
+        print('^C');
+      } else if (codeChallenge) {
+        setCodeChallenge(null);
+        print('Verification code: ^C', 'Login cancelled.');
       } else if (isJsRepl) {
         setIsJsRepl(false);
-        setHistory(prev => [...prev, `${prompt}${input}`, '^C<br/>Exiting JavaScript REPL.']);
+        print(echo(input), '^C', 'Exiting JavaScript REPL.');
       } else {
-        setHistory(prev => [...prev, `${prompt}${input}`, `^C`]);
+        print(echo(input), '^C');
       }
       setInput('');
     } else if (e.key === 'l' && e.ctrlKey) {
         e.preventDefault();
-        setHistory([]);
+        clear();
     }
   };
   
+  // Keys while the Ctrl+R search is active: Ctrl+R finds the next older match, Enter runs it,
+  // arrows/Tab/Escape/Ctrl+G leave the search (keeping the match, or restoring the input for Escape/Ctrl+G).
+  const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!search) return;
+    const entries = shellHistory.entries();
+    const matched = search.match >= 0 ? entries[search.match] : '';
+    if (e.key === 'r' && e.ctrlKey) {
+      e.preventDefault();
+      const next = shellHistory.search(search.query, search.match >= 0 ? search.match : entries.length);
+      if (next >= 0) setSearch({ ...search, match: next });
+    } else if (e.key === 'Escape' || (e.ctrlKey && (e.key === 'g' || e.key === 'c'))) {
+      e.preventDefault();
+      setSearch(null);
+      setInput(search.original);
+    } else if (['Enter', 'Tab', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(e.key)) {
+      e.preventDefault();
+      setSearch(null);
+      setInput(matched);
+      if (e.key === 'Enter' && matched) {
+        print(echo(matched));
+        setInput('');
+        shellHistory.add(matched);
+        await handleCommandExecution(matched);
+        saveHistory();
+      }
+    }
+  };
+
+  const handleSearchInput = (query: string) => {
+    setSearch(prev => prev && { ...prev, query, match: query ? shellHistory.search(query) : -1 });
+  };
+
+  // Rewrites ~/.zsh_history from the session history, on top of whatever the command changed.
+  const saveHistory = () => {
+    if (!user?.permissions.includes('vfs.write')) return;
+    const newVfs = JSON.parse(JSON.stringify(vfsActions.getLatestVFS()));
+    if (writeHistoryFile(newVfs, user.username)) vfsActions.updateVFS(newVfs);
+  };
+
+  // Returns an error message for the editor's status bar, or null on success.
+  const saveEditorFile = (content: string): string | null => {
+    if (!editorFile || !user?.permissions.includes('vfs.write')) return 'Permission denied';
+    const existing = getObjectByPath(vfs, editorFile) ?? getObjectByPath(vfs, dirname(editorFile));
+    if (existing && !canAccess(existing, user.username, 'w')) return 'Permission denied';
+    const newVfs = JSON.parse(JSON.stringify(vfs));
+    if (!writeFile(newVfs, editorFile, content, user.username)) return 'No such file or directory';
+    vfsActions.updateVFS(newVfs);
+    return null;
+  };
+  const editorNode = editorFile ? getObjectByPath(vfs, editorFile) : undefined;
+
+  // Stores each file inline or in R2 (see fileTransfer) and adds it to `dir` in the VFS.
+  const uploadFiles = async (files: File[], dir: string) => {
+    if (!user) { addToast('Please log in to upload files.', 'error'); return; }
+    const target = getObjectByPath(vfsRef.current, dir);
+    if (!isDir(target) || !user.permissions.includes('vfs.write') || !canAccess(target, user.username, 'w')) {
+      print(`upload: ${dir}: Permission denied`);
+      return;
+    }
+    for (const file of files) {
+      const path = joinPath(dir, file.name);
+      const existing = getObjectByPath(vfsRef.current, path);
+      if (existing && (isDir(existing) || !canAccess(existing, user.username, 'w'))) {
+        print(`upload: ${file.name}: ${isDir(existing) ? 'Is a directory' : 'Permission denied'}`);
+        continue;
+      }
+      try {
+        const text = await readInlineText(file);
+        const node = text !== null ? createFile(text, user.username) : createBlobFile(await uploadBlob(file, await getAuthHeader()), user.username);
+        const newVfs = JSON.parse(JSON.stringify(vfsRef.current));
+        setObjectByPath(newVfs, path, node);
+        vfsRef.current = newVfs;
+        vfsActions.updateVFS(newVfs);
+        print(`upload: ${file.name} (${formatSize(file.size, true)}) -> ${path}`);
+      } catch (e: any) {
+        print(paint(`upload: ${file.name}: ${e.message}`, 'red'));
+      }
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length) uploadFiles(files, uploadDirRef.current);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length) uploadFiles(files, currentPath);
+  };
+
   const handleTerminalClick = () => {
     inputRef.current?.focus();
     setTimeout(scrollToBottom, 100);
@@ -269,22 +488,58 @@ const Terminal: React.FC = () => {
   return (
     <>
       {isHollywood && <Hollywood onExit={() => setIsHollywood(false)} />}
-      <div className="terminal-window" onClick={handleTerminalClick}>
+      {editorFile && (
+        <Editor
+          path={editorFile}
+          initialContent={isFile(editorNode) ? editorNode.content : ''}
+          onSave={saveEditorFile}
+          onExit={() => setEditorFile(null)}
+        />
+      )}
+      <input ref={fileInputRef} type="file" multiple hidden onChange={handleFileInput} />
+      <div className="terminal-window" onClick={handleTerminalClick} onDragOver={e => e.preventDefault()} onDrop={handleDrop}>
         <div className="terminal-header">
             <div className="dots">
                 <span className="dot red"></span><span className="dot yellow"></span><span className="dot green"></span>
             </div>
-            <div className="title">{user?.username || 'guest'}@{hostname}</div>
+            <div className="title">
+                {user?.username || 'guest'}@{hostname}
+                {user && !online && <span className="offline-indicator" title="Changes are saved locally and synced on reconnect">offline</span>}
+            </div>
         </div>
-        <div className="terminal-body">
-            {history.map((line, index) => (
-            <div key={index} dangerouslySetInnerHTML={{ __html: line.replace(/ /g, '&nbsp;') }} />
-            ))}
+        <div className="terminal-body" ref={bodyRef}>
+            <Scrollback lines={lines} scrollRef={bodyRef} finding={isFinding} onFindClose={closeFind} />
             {!isBooting && (
             <>
                 {loginAttempt && !isPasswordPrompt && <div id="turnstile-container" ref={turnstileRef}></div>}
-                <div className="input-line" style={{ display: (isPasswordPrompt || (!!loginAttempt && !isPasswordPrompt)) ? 'none' : 'flex' }}>
-                    <span dangerouslySetInnerHTML={{ __html: prompt.replace(/ /g, '&nbsp;') }} />
+                {conflict && (
+                <div className="input-line">
+                    <span>{CONFLICT_PROMPT}</span>
+                    <input
+                        ref={inputRef} type="text" value={input}
+                        onChange={e => setInput(e.target.value)} onKeyDown={handleKeyDown}
+                        autoFocus autoComplete="off" spellCheck="false"
+                    />
+                </div>
+                )}
+                {search ? (
+                <>
+                    <div className="input-line">
+                        <span className="prompt"><Output line={prompt} /></span>
+                        <span>{search.match >= 0 ? shellHistory.entries()[search.match] : ''}</span>
+                    </div>
+                    <div className="input-line">
+                        <span>{search.query && search.match < 0 ? 'failing bck-i-search:' : 'bck-i-search:'}&nbsp;</span>
+                        <input
+                            ref={inputRef} type="text" value={search.query}
+                            onChange={e => handleSearchInput(e.target.value)} onKeyDown={handleSearchKeyDown}
+                            autoFocus autoComplete="off" spellCheck="false"
+                        />
+                    </div>
+                </>
+                ) : (
+                <div className="input-line" style={{ display: (conflict || isSecretPrompt || (!!loginAttempt && !isPasswordPrompt)) ? 'none' : 'flex' }}>
+                    {!isRunning && <span className="prompt"><Output line={prompt} /></span>}
                     <input
                         ref={inputRef} type="text" value={input}
                         onChange={e => setInput(e.target.value)} onKeyDown={handleKeyDown}
@@ -292,6 +547,7 @@ const Terminal: React.FC = () => {
                         disabled={!!loginAttempt && !isPasswordPrompt}
                     />
                 </div>
+                )}
                 {isPasswordPrompt && (
                 <div className="input-line">
                     <span>Password:&nbsp;</span>
@@ -302,6 +558,26 @@ const Terminal: React.FC = () => {
                     />
                 </div>
                 )}
+                {secretRequest && (
+                <div className="input-line">
+                    <span>{secretRequest.prompt}</span>
+                    <input
+                        ref={inputRef} type="password" value={input}
+                        onChange={e => setInput(e.target.value)} onKeyDown={handleKeyDown}
+                        autoFocus autoComplete="new-password"
+                    />
+                </div>
+                )}
+                {codeChallenge && (
+                <div className="input-line">
+                    <span>Verification code:&nbsp;</span>
+                    <input
+                        ref={inputRef} type="password" value={input}
+                        onChange={e => setInput(e.target.value)} onKeyDown={handleKeyDown}
+                        autoFocus autoComplete="one-time-code" spellCheck="false"
+                    />
+                </div>
+                )}
             </>
             )}
             <div ref={terminalEndRef} />
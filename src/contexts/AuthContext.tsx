@@ -1,23 +1,50 @@
-import { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
-
-interface User {
-  username: string;
-  role: 'admin' | 'guest';
-}
+import { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { User } from '../utils/commandContext';
+import { clearCachedVfs } from '../utils/vfsCache';
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (username: string, password: string, turnstileToken: string) => Promise<boolean>;
-  logout: () => void;
-  getAuthHeader: () => { Authorization: string };
+  login: (username: string, password: string, turnstileToken: string) => Promise<LoginOutcome>;
+  verifyCode: (challenge: string, code: string) => Promise<LoginOutcome>;   // Second step when the account uses 2FA
+  logout: (everywhere?: boolean) => Promise<void>;
+  getAuthHeader: () => Promise<{ Authorization: string }>;
 }
 
 interface LoginResponse {
   token: string;
+  refreshToken: string;
   user: User;
 }
 
+interface ChallengeResponse {
+  twoFactorRequired: true;
+  challenge: string;
+}
+
+// `code`: the password was right, but the account has two-factor authentication, so the login is
+// finished by passing the challenge and a verification code to verifyCode.
+export type LoginOutcome = { status: 'ok' } | { status: 'code'; challenge: string } | { status: 'error'; error: string };
+
+// Access tokens are short-lived; getAuthHeader trades the refresh token for a new pair once the
+// current one is this close to expiring.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// The `exp` claim of a JWT in milliseconds, or 0 if the token cannot be read.
+const expiresAt = (token: string) => {
+  try {
+    return (JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/'))).exp ?? 0) * 1000;
+  } catch (e) {
+    return 0;
+  }
+};
+
+const needsRefresh = (token: string | null) => !!token && expiresAt(token) - Date.now() < REFRESH_MARGIN_MS;
+
+// Refreshing returns the user again; an unchanged one keeps its identity so nothing re-renders or reloads.
+const sameUser = (a: User, b: User) =>
+  a.username === b.username && a.role === b.role && a.permissions.join() === b.permissions.join();
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
@@ -26,63 +53,150 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       // Initialize token from localStorage on first load
       return localStorage.getItem('token');
   });
+  const refreshingRef = useRef<Promise<string | null> | null>(null);
 
   // This effect synchronizes the `user` state with the token from localStorage
   useEffect(() => {
     const storedToken = localStorage.getItem('token');
     const storedUser = localStorage.getItem('user');
-    if (storedToken && storedUser) {
+    if (storedToken && storedUser && localStorage.getItem('refreshToken')) {
       try {
+        const parsed = JSON.parse(storedUser);
         setToken(storedToken);
-        setUser(JSON.parse(storedUser));
+        // Users stored before roles had permissions get theirs with the refresh below.
+        setUser({ ...parsed, permissions: parsed.permissions ?? [] });
       } catch (e) {
         // If stored data is corrupt, clear it.
         localStorage.clear();
         setToken(null);
         setUser(null);
       }
+    } else {
+      // Tokens from before refresh tokens existed cannot be renewed.
+      localStorage.removeItem('token');
+      localStorage.removeItem('user');
     }
   }, []);
 
-  const logout = useCallback(() => {
+  const storeSession = useCallback((data: LoginResponse) => {
+    localStorage.setItem('token', data.token);
+    localStorage.setItem('refreshToken', data.refreshToken);
+    localStorage.setItem('user', JSON.stringify(data.user));
+    setToken(data.token);
+    setUser(current => current && sameUser(current, data.user) ? current : data.user);
+  }, []);
+
+  const clearSession = useCallback(() => {
     setToken(null);
     setUser(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
+    clearCachedVfs();
   }, []);
 
-  const login = async (username: string, password: string, turnstileToken: string): Promise<boolean> => {
+  // A refresh token works once, and every tab shares the one in localStorage, so refreshes are
+  // serialized across tabs with a Web Lock; a tab that waited finds the new token already stored.
+  // `force` refreshes even when the access token is still fresh.
+  const refresh = useCallback((force = false): Promise<string | null> => {
+    const run = async () => {
+      const current = localStorage.getItem('token');
+      if (current && !needsRefresh(current) && !force) {
+        setToken(current);
+        return current;
+      }
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        clearSession();
+        return null;
+      }
+      try {
+        const response = await fetch('/api/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (response.status === 400 || response.status === 401) {
+          clearSession(); // Revoked or expired: the user is logged out here too
+          return null;
+        }
+        if (!response.ok) return current;
+        const data = await response.json() as LoginResponse;
+        storeSession(data);
+        return data.token;
+      } catch (error) {
+        return current; // Offline: the request fails on its own and is retried later
+      }
+    };
+    if (!refreshingRef.current) {
+      const locked = async () => 'locks' in navigator ? navigator.locks.request('linkium-auth-refresh', run) : run();
+      refreshingRef.current = locked().finally(() => { refreshingRef.current = null; });
+    }
+    return refreshingRef.current;
+  }, [clearSession, storeSession]);
+
+  useEffect(() => {
+    const storedUser = localStorage.getItem('user');
+    if (storedUser && localStorage.getItem('refreshToken') && !JSON.parse(storedUser).permissions) refresh(true);
+  }, [refresh]);
+
+  const getAuthHeader = useCallback(async () => {
+    let current = localStorage.getItem('token');
+    if (needsRefresh(current)) current = await refresh();
+    return { Authorization: `Bearer ${current}` };
+  }, [refresh]);
+
+  // Ends the session on the server (or all of the user's sessions) and forgets the tokens locally.
+  // The local logout happens even when the server cannot be reached.
+  const logout = useCallback(async (everywhere = false) => {
     try {
-      const response = await fetch('/api/login', {
+      if (localStorage.getItem('refreshToken')) {
+        await fetch('/api/logout', {
+          method: 'POST',
+          headers: { ...await getAuthHeader(), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ all: everywhere }),
+        });
+      }
+    } catch (error) {
+      console.error('Logout request failed:', error);
+    } finally {
+      clearSession();
+    }
+  }, [getAuthHeader, clearSession]);
+
+  // Both login steps post credentials and either get tokens, a 2FA challenge or an error back.
+  const submit = async (url: string, body: object): Promise<LoginOutcome> => {
+    try {
+      const response = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password, turnstileToken }),
+        body: JSON.stringify(body),
       });
       if (!response.ok) {
-        logout(); // Ensure state is cleared on failed login
-        return false;
+        clearSession(); // Ensure state is cleared on failed login
+        // e.g. a wrong password, or a lockout after too many of them
+        const { error } = await response.json().catch(() => ({})) as { error?: string };
+        return { status: 'error', error: error || 'Login failed.' };
       }
 
-      const data = await response.json() as LoginResponse;
-      
-      localStorage.setItem('token', data.token);
-      localStorage.setItem('user', JSON.stringify(data.user));
-      setToken(data.token);
-      setUser(data.user);
-      return true;
+      const data = await response.json() as LoginResponse | ChallengeResponse;
+      if ('twoFactorRequired' in data) return { status: 'code', challenge: data.challenge };
+      storeSession(data);
+      return { status: 'ok' };
     } catch (error) {
       console.error('Login failed:', error);
-      logout(); // Ensure state is cleared on error
-      return false;
+      clearSession(); // Ensure state is cleared on error
+      return { status: 'error', error: 'Login failed.' };
     }
   };
 
-  const getAuthHeader = () => ({
-    Authorization: `Bearer ${token}`,
-  });
+  const login = (username: string, password: string, turnstileToken: string) =>
+    submit('/api/login', { username, password, turnstileToken });
+
+  const verifyCode = (challenge: string, code: string) => submit('/api/login/verify', { challenge, code });
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, getAuthHeader }}>
+    <AuthContext.Provider value={{ user, token, login, verifyCode, logout, getAuthHeader }}>
       {children}
     </AuthContext.Provider>
   );
@@ -94,4 +208,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,34 @@
+import { useState, useCallback, useRef } from 'react';
+import { OutputLine } from '../utils/output';
+import { ScrollbackLine, loadScrollbackLimit, saveScrollbackLimit, trimScrollback } from '../utils/scrollback';
+
+// The terminal's output buffer. `print` appends lines, `replaceLast` rewrites the line that is still
+// being streamed, and only the newest `limit` lines are kept.
+export const useScrollback = () => {
+  const [lines, setLines] = useState<ScrollbackLine[]>([]);
+  const [limit, setLimitState] = useState(loadScrollbackLimit);
+  const limitRef = useRef(limit);
+  limitRef.current = limit;
+  const nextId = useRef(0);
+
+  const print = useCallback((...output: OutputLine[]) => {
+    if (output.length === 0) return;
+    const added = output.map(line => ({ id: nextId.current++, line }));
+    setLines(prev => trimScrollback([...prev, ...added], limitRef.current));
+  }, []);
+
+  const replaceLast = useCallback((line: OutputLine) => {
+    const id = nextId.current++; // Only used when there is no line to replace
+    setLines(prev => prev.length === 0 ? [{ id, line }] : [...prev.slice(0, -1), { ...prev[prev.length - 1], line }]);
+  }, []);
+
+  const clear = useCallback(() => setLines([]), []);
+
+  const setLimit = useCallback((value: number) => {
+    saveScrollbackLimit(value);
+    setLimitState(value);
+    setLines(prev => trimScrollback(prev, value));
+  }, []);
+
+  return { lines, print, replaceLast, clear, limit, setLimit };
+};
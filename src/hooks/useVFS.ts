@@ -1,76 +1,270 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PROFILE_FILE, RC_FILE, importLegacyAliases, loadProfile, shellEnv } from '../utils/environment';
+import { VfsPatchOp, VfsTree, applyPatch, createVfs, diffVfs, isFile, migrateVfs } from '../utils/vfs';
+import { clearCachedVfs, loadCachedVfs, saveCachedVfs } from '../utils/vfsCache';
+import { HISTORY_FILE, shellHistory } from '../utils/history';
+import { AddToast, User } from '../utils/commandContext';
 
-interface User {
-  username: string;
-  role: 'admin' | 'guest';
-}
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// Writes are batched: every updateVFS call diffs against the previous tree and queues the
+// resulting patch ops, which are sent together once the shell has been idle for a moment.
+const SAVE_DEBOUNCE_MS = 400;
+// While offline the queue is retried periodically, in addition to the browser's `online` event.
+const OFFLINE_RETRY_MS = 30000;
 
 export const useVFS = (
   user: User | null,
-  getAuthHeader: () => { Authorization: string },
-  addToast: (msg: string, type?: 'info' | 'success' | 'error') => void
+  getAuthHeader: () => Promise<{ Authorization: string }>,
+  addToast: AddToast,
+  onSessionEnded: () => void   // Called when the server no longer accepts the session (revoked or expired)
 ) => {
-  const [vfs, setVfs] = useState<any>({ '~': {} });
+  const [vfs, setVfs] = useState<VfsTree>(() => createVfs(''));
   const [currentPath, setCurrentPath] = useState('~');
+  // Set after login when ~/.zshrc exists; the terminal sources it once the new tree is rendered.
+  const [startupScript, setStartupScript] = useState<string | null>(null);
+  // Set when the server rejected our queued ops because another session changed the tree.
+  const [conflict, setConflict] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  const treeRef = useRef(vfs); // The latest local tree, updated synchronously so chained commands diff correctly
+  const etagRef = useRef<string | null>(null);
+  const queueRef = useRef<VfsPatchOp[]>([]);
+  const timerRef = useRef<number | null>(null);
+  const savingRef = useRef(false);
+  const conflictRef = useRef(false);
+  const remoteEtagRef = useRef<string | null>(null); // Server revision reported by the rejected write
+  const onlineRef = useRef(online);
+  const endedRef = useRef(false); // Set once the server answered 401; nothing is cached after that
+
+  const replaceTree = (tree: VfsTree) => {
+    treeRef.current = tree;
+    setVfs(tree);
+  };
+
+  // Mirrors the sync state into IndexedDB so it survives reloads and offline sessions.
+  const persist = () => {
+    if (user && !endedRef.current) saveCachedVfs(user.username, { tree: treeRef.current, etag: etagRef.current, queue: queueRef.current });
+  };
+
+  const setConnectivity = (isOnline: boolean) => {
+    if (onlineRef.current === isOnline) return;
+    onlineRef.current = isOnline;
+    setOnline(isOnline);
+    if (isOnline) addToast('Back online.', 'success');
+    else addToast('You are offline. Changes are saved locally and synced on reconnect.', 'info');
+  };
+
+  const resetSync = () => {
+    endedRef.current = false;
+    queueRef.current = [];
+    etagRef.current = null;
+    conflictRef.current = false;
+    setConflict(false);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  // The session was revoked or expired: the cached tree and any queued edits are dropped with it.
+  const endSession = () => {
+    endedRef.current = true;
+    queueRef.current = [];
+    clearCachedVfs();
+    addToast('Session expired. Please log in again.', 'error');
+    onSessionEnded();
+  };
+
+  // Throws when the network is unreachable; HTTP errors are reported and resolve to null.
+  const loadRemote = useCallback(async (): Promise<VfsTree | null> => {
+    if (!user) return null;
+    const response = await fetch('/api/vfs', { headers: await getAuthHeader() });
+    setConnectivity(true);
+    if (response.status === 401) {
+      endSession();
+      return null;
+    }
+    if (!response.ok) {
+      addToast('Failed to load file system from server.', 'error');
+      return null;
+    }
+    etagRef.current = response.headers.get('ETag');
+    return migrateVfs(await response.json(), user.username);
+  }, [user, getAuthHeader, addToast, onSessionEnded]);
+
+  const flush = useCallback(async () => {
+    timerRef.current = null;
+    if (!user || savingRef.current || conflictRef.current || queueRef.current.length === 0) return;
+    const ops = queueRef.current;
+    queueRef.current = [];
+    savingRef.current = true;
+    try {
+      const response = await fetch('/api/vfs', {
+        method: 'PATCH',
+        headers: { ...await getAuthHeader(), 'Content-Type': 'application/json', 'If-Match': etagRef.current ?? '*' },
+        body: JSON.stringify({ ops }),
+      });
+      setConnectivity(true);
+      if (response.ok) {
+        etagRef.current = (await response.json() as { etag: string }).etag;
+      } else if (response.status === 403) {
+        // The role lacks `vfs.write`: retrying cannot succeed, so the changes stay local only.
+        addToast('You do not have permission to save changes to the file system.', 'error');
+      } else if (response.status === 401) {
+        endSession();
+      } else {
+        // Keep the ops so nothing is lost. Server errors are retried; any other rejection (412 from
+        // another session, or a 400/409 for ops that no longer apply) would fail the same way
+        // again, so it is resolved by the user like a conflict.
+        queueRef.current = [...ops, ...queueRef.current];
+        if (response.status >= 500) {
+          addToast('Failed to save changes to cloud.', 'error');
+        } else {
+          if (response.status === 412) {
+            remoteEtagRef.current = (await response.json() as { etag: string }).etag;
+          } else {
+            remoteEtagRef.current = etagRef.current;
+            addToast('The server rejected the latest changes to the file system.', 'error');
+          }
+          conflictRef.current = true;
+          setConflict(true);
+        }
+      }
+    } catch (error) {
+      // Network failure: keep the ops queued (and cached) until the connection is back.
+      queueRef.current = [...ops, ...queueRef.current];
+      setConnectivity(false);
+    } finally {
+      savingRef.current = false;
+    }
+    persist();
+    // Writes that were queued while this request was in flight, or a retry while offline.
+    if (queueRef.current.length > 0 && !conflictRef.current && !timerRef.current) {
+      timerRef.current = window.setTimeout(flush, onlineRef.current ? SAVE_DEBOUNCE_MS : OFFLINE_RETRY_MS);
+    }
+  }, [user, getAuthHeader, addToast, onSessionEnded]);
 
   const fetchVFS = useCallback(async () => {
     // FIX 1: The most critical fix. Only fetch VFS if a user is actually logged in.
     if (!user) {
       // If no user, reset to a default empty state.
-      setVfs({ '~': {} });
+      resetSync();
+      replaceTree(createVfs(''));
       setCurrentPath('~');
+      shellEnv.reset();
+      shellHistory.clear();
       return;
     }
-    
+
     try {
-      const response = await fetch('/api/vfs', { headers: getAuthHeader() });
-      if (response.status === 401) {
-        // This can happen if the token expires. AuthContext should handle the logout.
-        addToast('Session expired. Please log in again.', 'error');
-        return;
+      resetSync();
+      const cached = await loadCachedVfs(user.username);
+      let data: VfsTree | null = null;
+      try { data = await loadRemote(); }
+      catch (error) {
+        if (!cached) throw error;
+        setConnectivity(false);
       }
-      if (response.ok) {
-        const data = await response.json();
-        setVfs(data);
-        setCurrentPath('~'); // Reset to home directory on VFS load
-      } else {
-        addToast('Failed to load file system from server.', 'error');
+      if (endedRef.current) return; // A 401 is not an outage, so the cached copy is not used
+      if (cached && (!data || cached.queue.length > 0)) {
+        // Continue from the cached state. Queued offline edits are replayed against the revision
+        // they were based on, so the server reports a conflict if it moved on in the meantime.
+        data = cached.tree;
+        etagRef.current = cached.etag;
+        queueRef.current = cached.queue;
+        if (cached.queue.length > 0) timerRef.current = window.setTimeout(flush, SAVE_DEBOUNCE_MS);
       }
+      if (!data) return;
+      replaceTree(data);
+      persist();
+      if (user.permissions.includes('vfs.write')) {
+        const withAliases: VfsTree = JSON.parse(JSON.stringify(data));
+        if (importLegacyAliases(withAliases, user.username)) updateVFS(withAliases);
+      }
+      const home = treeRef.current['~'];
+      setCurrentPath('~'); // Reset to home directory on VFS load
+      const profile = home.children[PROFILE_FILE];
+      if (isFile(profile)) loadProfile(profile.content);
+      if (isFile(home.children[RC_FILE])) setStartupScript(`~/${RC_FILE}`);
+      const historyFile = home.children[HISTORY_FILE];
+      shellHistory.load(isFile(historyFile) ? historyFile.content : '');
     } catch (error) {
       console.error('Failed to fetch VFS:', error);
       addToast('Network error while loading file system.', 'error');
     }
-  }, [user, getAuthHeader, addToast]);
+  }, [user, loadRemote, flush, addToast]);
 
-  // FIX 2: The dependency array for useEffect is now just `user`.
-  // This means fetchVFS will ONLY be called when the user's login state changes.
+  // FIX 2: The dependency array for useEffect is now just the username.
+  // This means fetchVFS will ONLY be called when the user's login state changes, not when a token
+  // refresh hands back a new user object (or new permissions) for the same account.
   useEffect(() => {
     fetchVFS();
-  }, [user]); // This is now much safer and more efficient.
+  }, [user?.username]); // This is now much safer and more efficient.
+
+  useEffect(() => {
+    const handleOnline = () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      flush();
+    };
+    const handleOffline = () => setConnectivity(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
 
-  const saveVFS = useCallback(async (newVfs: any) => {
+  const updateVFS = (newVfs: VfsTree) => {
     if (!user) {
         addToast('Cannot save file system. You are not logged in.', 'error');
         return;
     };
+    // R2 objects that are no longer referenced are deleted by the server once it accepts the patch.
+    queueRef.current.push(...diffVfs(treeRef.current, newVfs));
+    replaceTree(newVfs);
+    persist();
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, SAVE_DEBOUNCE_MS);
+  };
+
+  // mine: overwrite the server copy with the local tree.
+  // theirs: drop the queued local changes and load the server copy.
+  // merge: replay the queued local changes on top of the server copy; ops that no longer fit are dropped.
+  const resolveConflict = useCallback(async (choice: ConflictResolution) => {
     try {
-      const response = await fetch('/api/vfs', {
-        method: 'POST',
-        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
-        body: JSON.stringify(newVfs),
-      });
-      if (!response.ok) {
-        addToast('Failed to save changes to cloud.', 'error');
+      if (choice === 'mine') {
+        const response = await fetch('/api/vfs', {
+          method: 'POST',
+          headers: { ...await getAuthHeader(), 'Content-Type': 'application/json', 'If-Match': remoteEtagRef.current ?? '*' },
+          body: JSON.stringify(treeRef.current),
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        etagRef.current = (await response.json() as { etag: string }).etag;
+        queueRef.current = [];
+      } else {
+        const remote = await loadRemote();
+        if (!remote) return;
+        const pending = choice === 'merge' ? queueRef.current : [];
+        const applied = pending.filter(op => applyPatch(remote, [op]) === null);
+        if (applied.length < pending.length) addToast(`${pending.length - applied.length} local change(s) conflicted and were discarded.`, 'info');
+        queueRef.current = applied;
+        replaceTree(remote);
       }
+      conflictRef.current = false;
+      setConflict(false);
+      persist();
+      if (queueRef.current.length > 0) flush();
+      addToast('File system synchronized.', 'success');
     } catch (error) {
-      addToast('Network error while saving changes.', 'error');
+      console.error('Failed to resolve VFS conflict:', error);
+      addToast('Could not resolve the conflict. Please try again.', 'error');
     }
-  }, [user, getAuthHeader, addToast]);
+  }, [getAuthHeader, loadRemote, flush, addToast]);
 
-  const updateVFS = (newVfs: any) => {
-    setVfs(newVfs);
-    saveVFS(newVfs);
-  };
+  const clearStartupScript = useCallback(() => setStartupScript(null), []);
+
+  // The tree including updates made earlier in the same event handler, before React re-renders.
+  const getLatestVFS = useCallback(() => treeRef.current, []);
 
-  return { vfs, currentPath, setCurrentPath, updateVFS, refetch: fetchVFS };
-};
\ No newline at end of file
+  return { vfs, currentPath, setCurrentPath, updateVFS, getLatestVFS, refetch: fetchVFS, startupScript, clearStartupScript, conflict, resolveConflict, online };
+};
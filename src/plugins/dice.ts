@@ -0,0 +1,26 @@
+import { definePlugin } from '../utils/pluginManager';
+
+// Every module in this folder is bundled as a plugin. Its default export describes the commands;
+// see PluginContext in utils/pluginManager.ts for what a command can access.
+export default definePlugin({
+    name: 'dice',
+    version: '1.0.0',
+    description: 'Dice rolls for tabletop games.',
+    commands: [
+        {
+            name: 'roll',
+            category: 'fun',
+            usage: 'roll [NdM] (default 1d6)',
+            description: 'Roll N dice with M sides.',
+            args: 'none',
+            run: (args) => {
+                const match = (args[0] || '1d6').match(/^(\d*)d(\d+)$/i);
+                const count = match ? parseInt(match[1] || '1', 10) : 0;
+                const sides = match ? parseInt(match[2], 10) : 0;
+                if (count < 1 || count > 100 || sides < 2 || sides > 1000) return { text: ['roll: expected NdM, e.g. 2d6 (up to 100 dice)'], exitCode: 1 };
+                const rolls = Array.from({ length: count }, () => Math.floor(Math.random() * sides) + 1);
+                return [count === 1 ? String(rolls[0]) : `${rolls.join(' + ')} = ${rolls.reduce((sum, roll) => sum + roll, 0)}`];
+            },
+        },
+    ],
+});
@@ -1,9 +1,11 @@
+import { paint } from './output';
+
 export const bootSequence = [
     { text: 'Booting system...', delay: 100 },
     { text: 'Initializing Linkium Workspace environment...', delay: 200 },
     { text: 'Loading kernel modules...', delay: 150 },
-    { text: '[ <span style="color:var(--green);">OK</span> ] Started Network Service.', delay: 300 },
-    { text: '[ <span style="color:var(--green);">OK</span> ] Mounted Virtual File System from KV.', delay: 100 },
+    { text: `[ ${paint('OK', 'green')} ] Started Network Service.`, delay: 300 },
+    { text: `[ ${paint('OK', 'green')} ] Mounted Virtual File System from KV.`, delay: 100 },
     { text: 'Connecting to Linkium Edge Network...', delay: 500 },
     { text: 'Connection established. Welcome to `my.linkium.xyz`', delay: 100 },
     { text: '...', delay: 200 },
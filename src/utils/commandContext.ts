@@ -0,0 +1,100 @@
+import { VfsTree } from './vfs';
+import { OutputLine } from './output';
+import { Permission } from './permissions';
+
+// --- Command Context Types ---
+// Everything processCommand needs from its host. The terminal component provides React-backed
+// implementations; createHeadlessController runs commands without a UI (watch, tests, scripts).
+export interface User {
+    username: string;
+    role: string;                // A role defined on the server, such as 'admin' or 'guest'
+    permissions: Permission[];   // What the role grants; the server checks them again on each request
+}
+
+export interface LoginAttempt {
+    username: string;
+    turnstileToken: string | null;
+}
+
+// What commands see of the session. The terminal builds it from the React auth context (useAuth).
+export interface AuthContext {
+    user: User | null;
+    logout: (everywhere?: boolean) => Promise<void>;    // `everywhere` also ends the user's other sessions
+    getAuthHeader: () => Promise<{ Authorization: string }>;   // Renews the access token first when it is about to expire
+    startLogin: (attempt: LoginAttempt) => void;   // Starts the Turnstile + password prompt flow
+}
+
+export interface VfsContext {
+    vfs: VfsTree;
+    currentPath: string;
+    updateVFS: (tree: VfsTree) => void;
+    setCurrentPath: (path: string) => void;
+}
+
+export type ToastType = 'info' | 'success' | 'error';
+export type AddToast = (message: string, type?: ToastType) => void;
+
+export interface SongInfo { name: string; artist: string; }
+
+export interface TerminalController {
+    clearScreen: () => void;
+    // Streaming output: lines printed while a command is still running (tail -f, watch) or by a
+    // background job, as opposed to the result lines printed when it finishes.
+    pushToHistory: (lines: OutputLine[]) => void;
+    updateLastLine: (line: string) => void;   // Rewrites the last pushed line while it is still being written
+    setAudioSrc: (src: string | null, song: SongInfo | null) => void;
+    changeTheme: (theme: string) => void;
+    setScrollback: (lines: number) => void;   // How many lines of output the terminal keeps
+    getVFS: () => VfsTree;   // The latest tree, including changes made after the command started
+    readSecret: (prompt: string) => Promise<string | null>;   // Reads a line without echoing it, like the login password; null when cancelled
+}
+
+// Where a command writes output while it runs. Output bound for the terminal appears right away;
+// in a pipe, a redirect or `$(...)` it is collected and handed on when the command finishes.
+export interface OutputStream {
+    tty: boolean;                          // Whether the output goes straight to the terminal
+    write: (text: string) => void;         // `\n` ends a line; an unfinished line is shown as it grows
+    writeLines: (lines: OutputLine[]) => void;
+}
+
+// Modes the terminal switches into after a command finishes.
+export type SpecialMode = 'clear' | 'js_repl' | 'hollywood' | 'editor' | 'upload';
+
+export interface CommandResult {
+    text: OutputLine[];
+    exitCode: number;
+    special?: SpecialMode;
+    file?: string;   // The file to edit (editor) or the directory to upload into (upload)
+}
+
+// What a command handler may return: output lines, a (partial) result, or nothing.
+export type CommandOutput = OutputLine[] | Partial<CommandResult> | void;
+
+// A controller that records instead of rendering. `output` holds the streamed lines since the
+// last clearScreen; the other fields mirror the state a terminal would display.
+export interface HeadlessController extends TerminalController {
+    output: OutputLine[];
+    theme: string | null;
+    scrollback: number | null;
+    audio: { src: string | null; song: SongInfo | null };
+    secrets: string[];   // Answers for readSecret, in the order they are asked for
+}
+
+export const createHeadlessController = (getVFS: () => VfsTree): HeadlessController => {
+    const controller: HeadlessController = {
+        output: [],
+        theme: null,
+        scrollback: null,
+        audio: { src: null, song: null },
+        secrets: [],
+        clearScreen: () => { controller.output = []; },
+        pushToHistory: (lines) => { controller.output.push(...lines); },
+        updateLastLine: (line) => { controller.output.splice(-1, 1, line); },
+        setAudioSrc: (src, song) => { controller.audio = { src, song }; },
+        changeTheme: (theme) => { controller.theme = theme; },
+        setScrollback: (lines) => { controller.scrollback = lines; },
+        getVFS,
+        readSecret: async () => controller.secrets.shift() ?? null,
+    };
+    return controller;
+};
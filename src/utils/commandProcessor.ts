@@ -1,10 +1,29 @@
 import figlet from 'figlet';
 import { sha256 } from 'js-sha256';
 import { bootSequence } from './boot';
+import { CommandList, Expansions, Pipeline, SimpleCommand, ShellSyntaxError, Word, expandWord, parseCommandLine, quoteArg, tokenize } from './shellParser';
+import { PROFILE_FILE, RC_FILE, shellEnv } from './environment';
+import { runScript } from './scriptRunner';
+import {
+    Access, DirNode, VfsNode, resolvePath, getObjectByPath, setObjectByPath, deleteObjectByPath, writeFile,
+    basename, dirname, joinPath, nodeSize, isDir, isFile, createDir, createFile, canAccess, formatMode, parseMode,
+} from './vfs';
+import { formatSize, globToRegExp, parseDuration, unifiedDiff } from './textUtils';
+import { errorOf, fetchBlob, saveToDisk } from './fileTransfer';
+import { INTERRUPTED_EXIT_CODE, Job, SHELL_PID, SHELL_STARTED, exitStatus, formatJob, jobTable, sleep, untilAborted } from './jobs';
+import { shellHistory, writeHistoryFile } from './history';
+import { CATEGORIES, CommandCategory, CommandName, REGISTRY, apropos, commandMeta, helpCategory, helpOverview, isBuiltinCommand, manPage, usageOf } from './commandRegistry';
+import { AddToast, AuthContext, CommandOutput, CommandResult, OutputStream, TerminalController, VfsContext, createHeadlessController } from './commandContext';
+import { readEvents } from './sse';
+import { encodeQr, renderQr } from './qrcode';
+import { Color, OutputLine, bold, link, openUrl, paint, pre, table, toText } from './output';
+import { MAX_SCROLLBACK, MIN_SCROLLBACK, loadScrollbackLimit } from './scrollback';
+import { PERMISSIONS, Permission, isPermission } from './permissions';
+import { PluginContext, listPlugins, loadPluginModule, pluginOf, runPluginCommand, setPluginEnabled } from './pluginManager';
 
 // --- API Response Type Interfaces ---
 interface UserResponse { message?: string; error?: string; success?: boolean; }
-interface AiResponse { response?: string; error?: string; }
+interface AiResponse { text?: string; error?: string; }   // An error body, or one event of the answer stream
 interface MusicSearchSong { id: number; name: string; ar: { name: string }[]; }
 interface MusicSearchResult { code: number; result?: { songs: MusicSearchSong[]; }; }
 interface MusicUrlResult { data?: { url: string }[]; }
@@ -21,264 +40,913 @@ interface IsDownResponse { status_code: number; }
 interface ShortenResponse { short_url?: string; error?: string; }
 interface UnshortenResponse { long_url?: string; error?: string; }
 interface GeoIPResponse { city: string; country: string; continent: string; }
+interface StorageUsage { used: number; quota: number; error?: string; }
+interface ShareInfo { id: string; name: string; expires: number; protected: boolean; }
+interface TwoFactorResponse { enabled?: boolean; recoveryCodesLeft?: number; secret?: string; uri?: string; recoveryCodes?: string[]; error?: string; }
+interface AuditEntry { id: number; time: number; actor: string | null; action: string; target: string | null; ip: string | null; detail: string | null; }
+interface AuditResponse { entries?: AuditEntry[]; users?: { username: string; time: number | null; ip: string | null }[]; error?: string; }
+interface AccountInfo { username: string; role: string; locked: boolean; created: number | null; lastLogin: number | null; lastIp: string | null; twoFactor: boolean; }
+interface UsersResponse { users?: AccountInfo[]; error?: string; }
+interface InviteInfo { code: string; createdBy: string; expires: number; uses: number; }
+interface InviteResponse { code?: string; expires?: number; uses?: number; invites?: InviteInfo[]; error?: string; }
+interface IdentityResponse { id?: number; username?: string; role?: string; permissions?: string[]; error?: string; }
+interface SessionInfo { id: string; userAgent: string | null; ip: string | null; created: number; lastUsed: number; current: boolean; }
+interface SessionResponse { sessions?: SessionInfo[]; success?: boolean; error?: string; }
+interface ShareResponse { id?: string; url?: string; expires?: number; shares?: ShareInfo[]; error?: string; }
 
-// --- VFS Helper Functions ---
-const resolvePath = (path: string, currentPath: string): string => {
-    if (!path) return currentPath;
-    if (path.startsWith('/')) return path === '/' ? '~' : path;
-    if (path === '~') return '~';
-    const parts = (currentPath === '~' ? [] : currentPath.substring(1).split('/')).concat(path.split('/'));
-    const newPathParts: string[] = [];
-    for (const part of parts) {
-        if (part === '..') { newPathParts.pop(); } 
-        else if (part !== '.' && part !== '') { newPathParts.push(part); }
-    }
-    return newPathParts.length > 0 ? `/${newPathParts.join('/')}` : '~';
-};
-const getObjectByPath = (obj: any, path: string): any => {
-    if (path === '~') return obj['~'];
-    if (!path.startsWith('/')) return undefined;
-    const parts = path.substring(1).split('/');
-    let current = obj['~'];
-    for (const part of parts) {
-        if (typeof current !== 'object' || current === null || !current.hasOwnProperty(part)) { return undefined; }
-        current = current[part];
-    }
-    return current;
-};
-const setObjectByPath = (obj: any, path: string, value: any): boolean => {
-    if (path === '~' || !path.startsWith('/')) return false; 
-    const parts = path.substring(1).split('/');
-    const fileName = parts.pop();
-    if (!fileName) return false;
-    let parent = obj['~'];
-    for (const part of parts) {
-        if (typeof parent[part] !== 'object' || parent[part] === null) { return false; }
-        parent = parent[part];
-    }
-    parent[fileName] = value;
-    return true;
-};
-const deleteObjectByPath = (obj: any, path: string): boolean => {
-    if (path === '~' || !path.startsWith('/')) return false;
-    const parts = path.substring(1).split('/');
-    const fileName = parts.pop();
-    if (!fileName) return false;
-    let parent = obj['~'];
-    for (const part of parts) {
-        if (typeof parent[part] !== 'object' || parent[part] === null) { return false; }
-        parent = parent[part];
-    }
-    if (parent.hasOwnProperty(fileName)) {
-        delete parent[fileName];
-        return true;
-    }
-    return false;
-};
-const tree = (dir: any, prefix = ''): string[] => {
-    const entries = Object.keys(dir);
+const tree = (dir: DirNode, prefix = ''): string[] => {
+    const entries = Object.keys(dir.children);
     const result: string[] = [];
     entries.forEach((entry, index) => {
         const isLast = index === entries.length - 1;
         const connector = isLast ? '└── ' : '├── ';
         const newPrefix = prefix + (isLast ? '    ' : '│   ');
-        const isDir = typeof dir[entry] === 'object' && dir[entry] !== null;
-        result.push(prefix + connector + (isDir ? `<span style="color:var(--cyan);">${entry}/</span>` : entry));
-        if (isDir) {
-            result.push(...tree(dir[entry], newPrefix));
+        const child = dir.children[entry];
+        result.push(prefix + connector + (isDir(child) ? paint(`${entry}/`, 'cyan') : entry));
+        if (isDir(child)) {
+            result.push(...tree(child, newPrefix));
         }
     });
     return result;
 };
 
+// `ls -l` style timestamp, e.g. `Jun 28 09:05`.
+const formatTime = (ms: number): string => {
+    const date = new Date(ms);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.toLocaleString('en-US', { month: 'short' })} ${String(date.getDate()).padStart(2)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// `ps` style elapsed time since `started`, e.g. `00:01:05`.
+const formatElapsed = (started: number): string => {
+    const seconds = Math.floor((Date.now() - started) / 1000);
+    return [seconds / 3600, (seconds / 60) % 60, seconds % 60].map(n => String(Math.floor(n)).padStart(2, '0')).join(':');
+};
+
+// Browser and OS from a User-Agent header, e.g. `Firefox on Linux`.
+const describeDevice = (agent: string | null): string => {
+    if (!agent) return 'unknown';
+    const browser = /Edg\//.test(agent) ? 'Edge' : /Firefox\//.test(agent) ? 'Firefox' : /Chrome\//.test(agent) ? 'Chrome' : /Safari\//.test(agent) ? 'Safari' : agent.split(/[\s/]/)[0];
+    const os = /Windows/.test(agent) ? 'Windows' : /Android/.test(agent) ? 'Android' : /iPhone|iPad/.test(agent) ? 'iOS' : /Mac OS X/.test(agent) ? 'macOS' : /Linux/.test(agent) ? 'Linux' : '';
+    return os ? `${browser} on ${os}` : browser;
+};
+
+// Audit log events that `audit` shows in red.
+const ALERTS = new Set(['login_failed', 'lockout', 'sudo_denied']);
+
+const fail = (...text: string[]) => ({ text, exitCode: 1 });
+
+// Appends one command's result to an accumulated one; `clear` wipes everything printed before it.
+const appendResult = (target: CommandResult, result: CommandResult) => {
+    target.exitCode = shellEnv.lastExitCode = result.exitCode;
+    if (result.special === 'clear') target.text = [];
+    if (result.special) { target.special = result.special; target.file = result.file; }
+    target.text.push(...result.text);
+};
+
+// Splits `-abc` style flags from operands. Returns the first unknown flag character instead on error.
+const parseFlags = (args: string[], allowed: string): { flags: Set<string>; operands: string[] } | string => {
+    const flags = new Set<string>();
+    const operands: string[] = [];
+    for (const arg of args) {
+        if (!arg.startsWith('-') || arg === '-') { operands.push(arg); continue; }
+        for (const flag of arg.substring(1)) {
+            if (!allowed.includes(flag)) return flag;
+            flags.add(flag);
+        }
+    }
+    return { flags, operands };
+};
+
+const MAX_SCRIPT_DEPTH = 16;
 
 export const processCommand = async (
     commandStr: string,
-    auth: any,
-    vfsContext: any,
-    addToast: any,
-    terminalController: any
-): Promise<{text: string[], special?: string}> => {
-    const [cmd, ...args] = commandStr.split(' ').filter(Boolean);
-    if (!cmd) return { text: [] };
-
-    // Alias resolution
-    const aliases = JSON.parse(localStorage.getItem('aliases') || '{}');
-    if (aliases[cmd]) {
-        commandStr = aliases[cmd] + ' ' + args.join(' ');
-        return processCommand(commandStr, auth, vfsContext, addToast, terminalController);
+    auth: AuthContext,
+    sharedVfsContext: VfsContext,
+    addToast: AddToast,
+    terminalController: TerminalController,
+    // The job this command line runs as. Its signal is aborted by Ctrl+C or `kill`.
+    job: Pick<Job, 'signal' | 'background'> = { signal: new AbortController().signal, background: false }
+): Promise<CommandResult> => {
+    let commandList: CommandList;
+    try { commandList = parseCommandLine(commandStr); }
+    catch (e: any) {
+        if (e instanceof ShellSyntaxError) return { text: [`zsh: ${e.message}`], exitCode: 2 };
+        throw e;
     }
-    
-    const commands: { [key: string]: (args: string[], isSudo: boolean) => Promise<any> | any } = {
+    if (commandList.length === 0) return { text: [], exitCode: 0 };
+
+    // Reads always get the latest tree: commands chained on one line see each other's changes before
+    // React re-renders, and a command that waited (`sleep 1 && echo x > f`, a background job) does not
+    // write back a tree from before other commands changed it.
+    const vfsContext: VfsContext = {
+        get vfs() { return terminalController.getVFS(); },
+        currentPath: sharedVfsContext.currentPath,
+        updateVFS: (newVfs) => sharedVfsContext.updateVFS(newVfs),
+        setCurrentPath: (path) => { vfsContext.currentPath = path; sharedVfsContext.setCurrentPath(path); },
+    };
+
+    // The shell itself plus every job, for `ps` and `top`.
+    const processes = () => [
+        { pid: SHELL_PID, user: auth.user?.username || 'guest', command: 'zsh', started: SHELL_STARTED, background: false },
+        ...jobTable.list(),
+    ];
+
+    // Requests are cancelled together with the job.
+    const request = (url: string, init: RequestInit = {}) => fetch(url, { ...init, signal: job.signal });
+
+    // Permission checks against the node's mode bits. `sudo` runs commands as root, which bypasses them.
+    const can = (permission: Permission) => !!auth.user?.permissions.includes(permission);
+    // Writing needs the `vfs.write` permission on top of the mode bits, even with sudo.
+    const allowed = (node: VfsNode, access: Access, isSudo = false) =>
+        (access !== 'w' || can('vfs.write')) && (isSudo || canAccess(node, auth.user?.username, access));
+    // Creating or removing an entry needs write access to the containing directory. A missing parent is
+    // reported by the caller as "No such file or directory" instead.
+    const parentWritable = (path: string, isSudo = false) => {
+        const parent = getObjectByPath(vfsContext.vfs, dirname(path));
+        return !parent || allowed(parent, 'w', isSudo);
+    };
+    // Who new files and directories belong to. Every write has passed `allowed`, which needs a login.
+    const owner = () => auth.user?.username ?? '';
+
+    // Reads a file operand, falling back to piped stdin when no file is given.
+    const readInput = (cmdName: string, file: string | undefined, stdin: string | undefined, usage: string, isSudo = false): string | CommandResult => {
+        if (!file) return stdin ?? fail(usage);
+        if (!auth.user) return fail('Permission denied.');
+        const node = getObjectByPath(vfsContext.vfs, resolvePath(file, vfsContext.currentPath));
+        if (node === undefined) return fail(`${cmdName}: ${file}: No such file or directory`);
+        if (!isFile(node)) return fail(`${cmdName}: ${file}: Is a directory`);
+        if (!allowed(node, 'r', isSudo)) return fail(`${cmdName}: ${file}: Permission denied`);
+        if (node.blob) return fail(`${cmdName}: ${file}: binary file stored in the cloud (use 'download ${file}')`);
+        return node.content;
+    };
+
+    // Asks for a new password twice at the terminal's masked prompt, so it never appears on screen,
+    // in the scrollback or in the history.
+    const readNewPassword = async (cmdName: string): Promise<string | CommandResult> => {
+        if (job.background) return fail(`${cmdName}: cannot read a password in a background job`);
+        const password = await terminalController.readSecret('New password: ');
+        if (password === null) return fail(`${cmdName}: cancelled`);
+        if (await terminalController.readSecret('Retype new password: ') !== password) return fail(`${cmdName}: passwords do not match`);
+        return password;
+    };
+
+    // Shared implementation of `cp` and `mv`: copies into directories, refuses to nest a directory inside itself.
+    const transfer = (cmdName: 'cp' | 'mv', source: string, target: string, recursive: boolean, isSudo: boolean): CommandResult => {
+        const sourcePath = resolvePath(source, vfsContext.currentPath);
+        const node = getObjectByPath(vfsContext.vfs, sourcePath);
+        if (node === undefined) return fail(`${cmdName}: cannot stat '${source}': No such file or directory`);
+        if (sourcePath === '~') return fail(`${cmdName}: cannot ${cmdName === 'cp' ? 'copy' : 'move'} the home directory`);
+        if (isDir(node) && !recursive) return fail(`cp: -r not specified; omitting directory '${source}'`);
+        let targetPath = resolvePath(target, vfsContext.currentPath);
+        if (isDir(getObjectByPath(vfsContext.vfs, targetPath))) targetPath = joinPath(targetPath, basename(sourcePath));
+        if (targetPath === sourcePath) return fail(`${cmdName}: '${source}' and '${target}' are the same file`);
+        if (isDir(node) && targetPath.startsWith(`${sourcePath}/`)) return fail(`${cmdName}: cannot ${cmdName === 'cp' ? 'copy' : 'move'} '${source}' to a subdirectory of itself, '${target}'`);
+        if (isDir(getObjectByPath(vfsContext.vfs, targetPath))) return fail(`${cmdName}: cannot overwrite directory '${target}'`);
+        if (cmdName === 'cp' && !allowed(node, 'r', isSudo)) return fail(`cp: cannot open '${source}' for reading: Permission denied`);
+        if (cmdName === 'mv' && !parentWritable(sourcePath, isSudo)) return fail(`mv: cannot move '${source}': Permission denied`);
+        if (!parentWritable(targetPath, isSudo)) return fail(`${cmdName}: cannot create '${target}': Permission denied`);
+        const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+        if (cmdName === 'mv') deleteObjectByPath(newVfs, sourcePath);
+        // A copy belongs to whoever made it; a move keeps the original metadata.
+        const copy: VfsNode = JSON.parse(JSON.stringify(node));
+        if (cmdName === 'cp') {
+            const now = Date.now();
+            const own = (entry: VfsNode) => { entry.owner = owner(); entry.ctime = entry.mtime = now; if (isDir(entry)) Object.values(entry.children).forEach(own); };
+            own(copy);
+        }
+        if (!setObjectByPath(newVfs, targetPath, copy)) return fail(`${cmdName}: cannot create '${target}': No such file or directory`);
+        vfsContext.updateVFS(newVfs);
+        const cwd = vfsContext.currentPath;
+        if (cmdName === 'mv' && (cwd === sourcePath || cwd.startsWith(`${sourcePath}/`))) vfsContext.setCurrentPath(targetPath + cwd.substring(sourcePath.length));
+        return { text: [], exitCode: 0 };
+    };
+
+    // Rewrites the `export NAME=...` / `alias NAME=...` lines of a dotfile in ~. Entries without a value are removed.
+    const updateDotfile = (file: string, keyword: 'export' | 'alias', entries: [string, string | undefined][]) => {
+        if (!auth.user) return;
+        const path = `/${file}`;
+        const existing = getObjectByPath(vfsContext.vfs, path);
+        const lines = (isFile(existing) && existing.content ? existing.content.split('\n') : [])
+            .filter(line => !entries.some(([name]) => line.trim().startsWith(`${keyword} ${name}=`)));
+        entries.forEach(([name, value]) => { if (value !== undefined) lines.push(`${keyword} ${name}=${quoteArg(value)}`); });
+        const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+        writeFile(newVfs, path, lines.join('\n'), auth.user.username);
+        vfsContext.updateVFS(newVfs);
+    };
+
+    const usage = (name: CommandName) => fail(usageOf(name));
+
+    // sudo runs in the browser, so its use is reported to the server's audit log. Not tied to the job:
+    // the report is sent even if the command is interrupted, and a failed report is ignored.
+    const reportSudo = (action: 'sudo' | 'sudo_denied', args: string[]) => {
+        auth.getAuthHeader()
+            .then(headers => fetch('/api/audit', { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify({ action, command: args.join(' ') }) }))
+            .catch(() => {});
+    };
+
+    // One handler per registry entry; tsc reports commands that are missing on either side.
+    const commands: { [name in CommandName]: (args: string[], isSudo: boolean, stdin: string | undefined, out: OutputStream) => CommandOutput | Promise<CommandOutput> } = {
         // --- AUTH & USER ---
         login: async (args) => {
-            const username = args[0]; if (!username) return ['Usage: login <username>'];
+            const username = args[0]; if (!username) return usage('login');
             if (auth.user) return [`You are already logged in as ${auth.user.username}. Type 'logout' first.`];
             auth.startLogin({ username, turnstileToken: null });
             return [`Initializing login for ${username}...`];
         },
-        logout: () => {
+        register: async (args) => {
+            const [invite, username] = args; if (!invite || !username || args.length > 2) return usage('register');
+            if (auth.user) return [`You are already logged in as ${auth.user.username}. Type 'logout' first.`];
+            const password = await readNewPassword('register');
+            if (typeof password !== 'string') return password;
+            try {
+                const res = await request('/api/register', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ invite, username, password }) });
+                const data = await res.json() as UserResponse;
+                return res.ok ? [data.message ?? ''] : fail(`register: ${data.error}`);
+            } catch (e) { return fail('register: Network error.'); }
+        },
+        logout: async (args) => {
             if (!auth.user) return ['You are not logged in.'];
-            auth.logout(); addToast('You have been logged out.', 'info'); return [];
+            const everywhere = args[0] === '--all';
+            if (args.length > (everywhere ? 1 : 0)) return usage('logout');
+            await auth.logout(everywhere);
+            addToast(everywhere ? 'You have been logged out on all devices.' : 'You have been logged out.', 'info'); return [];
+        },
+        sessions: async (args, isSudo) => {
+            const headers = { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' };
+            try {
+                if (args[0] === 'rm') {
+                    if (!args[1]) return usage('sessions');
+                    const res = await request(`/api/sessions/${encodeURIComponent(args[1])}`, { method: 'DELETE', headers });
+                    const data = await res.json() as SessionResponse;
+                    return res.ok ? [`Session '${args[1]}' signed out.`] : fail(`sessions: ${data.error}`);
+                }
+                if (args[0] === 'revoke') {
+                    if (!isSudo) return fail("sessions: revoke: permission denied (try 'sudo sessions revoke')");
+                    if (!args[1]) return usage('sessions');
+                    const res = await request('/api/admin/revoke', { method: 'POST', headers, body: JSON.stringify({ username: args[1] }) });
+                    const data = await res.json() as UserResponse;
+                    return res.ok ? [data.message ?? ''] : fail(`sessions: ${data.error}`);
+                }
+                if (args.length > 1 || (args[0] && args[0] !== 'ls')) return usage('sessions');
+                const res = await request('/api/sessions', { headers });
+                const data = await res.json() as SessionResponse;
+                if (!res.ok) return fail(`sessions: ${data.error}`);
+                const rows = (data.sessions ?? []).map(session => [
+                    session.current ? paint(`${session.id} *`, 'green') : session.id,
+                    formatTime(session.lastUsed), session.ip ?? '-', describeDevice(session.userAgent),
+                ]);
+                return [table(['ID', 'LAST ACTIVE', 'IP', 'DEVICE'], rows), '* this device'];
+            } catch (e) { return fail('sessions: Network error.'); }
         },
         whoami: () => [auth.user?.username || 'guest'],
+        id: async (args) => {
+            if (args.length > 0) return usage('id');
+            try {
+                const res = await request('/api/me', { headers: await auth.getAuthHeader() });
+                const data = await res.json() as IdentityResponse;
+                if (!res.ok) return fail(`id: ${data.error}`);
+                return [`uid=${data.id}(${data.username}) role=${data.role} permissions=${(data.permissions ?? []).join(',') || '(none)'}`];
+            } catch (e) { return fail('id: Network error.'); }
+        },
+        groups: async (args) => {
+            if (args.length > 0) return usage('groups');
+            try {
+                const res = await request('/api/me', { headers: await auth.getAuthHeader() });
+                const data = await res.json() as IdentityResponse;
+                if (!res.ok) return fail(`groups: ${data.error}`);
+                const granted = new Set(data.permissions ?? []);
+                // Permissions this version of the terminal does not know about are listed last.
+                const rows = (Object.keys(PERMISSIONS) as Permission[]).filter(name => granted.has(name)).map(name => [name, PERMISSIONS[name]]);
+                rows.push(...[...granted].filter(name => !isPermission(name)).map(name => [name, '']));
+                return [`${data.username} : ${data.role}`, rows.length ? table(['PERMISSION', 'ALLOWS'], rows) : 'No permissions.'];
+            } catch (e) { return fail('groups: Network error.'); }
+        },
         passwd: async (args, isSudo) => {
-            if (!auth.user && !isSudo) return ['Permission denied. Please log in.'];
+            if (!auth.user) return fail('passwd: permission denied. Please log in first.');
             const targetUser = isSudo ? args[0] : auth.user.username;
-            const newPassword = isSudo ? args[1] : args[0];
-            if(!targetUser || !newPassword) return ['Usage: passwd [new_password] (or sudo passwd <user> <new_password>)'];
-            const res = await fetch('/api/admin/passwd', { method: 'POST', headers: { ...auth.getAuthHeader(), 'Content-Type': 'application/json' }, body: JSON.stringify({ username: targetUser, newPassword }), });
+            if (!targetUser || args.length > (isSudo ? 1 : 0)) return usage('passwd');
+            const newPassword = await readNewPassword('passwd');
+            if (typeof newPassword !== 'string') return newPassword;
+            const res = await request('/api/admin/passwd', { method: 'POST', headers: { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' }, body: JSON.stringify({ username: targetUser, newPassword }), });
             const data = await res.json() as UserResponse;
             if (data.success) addToast(`Password for ${targetUser} changed.`, 'success');
             return [data.message || data.error || 'Unknown response from server.'];
         },
         useradd: async (args) => {
-            const [username, password, role] = args; if (!username || !password || !role) return ['Usage: sudo useradd <username> <password> <role (admin|guest)>'];
-            const res = await fetch('/api/admin/useradd', { method: 'POST', headers: {...auth.getAuthHeader(), 'Content-Type': 'application/json' }, body: JSON.stringify({username, password, role}), });
+            const [username, role] = args; if (!username || !role || args.length > 2) return usage('useradd');
+            const password = await readNewPassword('useradd');
+            if (typeof password !== 'string') return password;
+            const res = await request('/api/admin/useradd', { method: 'POST', headers: {...(await auth.getAuthHeader()), 'Content-Type': 'application/json' }, body: JSON.stringify({username, password, role}), });
             const data = await res.json() as UserResponse; return [data.message || data.error || 'Unknown response from server.'];
         },
         userdel: async (args) => {
-            const [username] = args; if (!username) return ['Usage: sudo userdel <username>'];
-            const res = await fetch('/api/admin/userdel', { method: 'POST', headers: {...auth.getAuthHeader(), 'Content-Type': 'application/json' }, body: JSON.stringify({username}), });
+            const [username] = args; if (!username) return usage('userdel');
+            const res = await request('/api/admin/userdel', { method: 'POST', headers: {...(await auth.getAuthHeader()), 'Content-Type': 'application/json' }, body: JSON.stringify({username}), });
             const data = await res.json() as UserResponse; return [data.message || data.error || 'Unknown response from server.'];
         },
-        sudo: async (args) => {
-            if (auth.user?.role !== 'admin') return ["sudo: user not in sudoers file. This incident will be reported."];
+        usermod: async (args) => {
+            let username: string | undefined, role: string | undefined, locked: boolean | undefined;
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '-r') role = args[++i] ?? '';
+                else if (args[i] === '-L' || args[i] === '-U') locked = args[i] === '-L';
+                else if (args[i].startsWith('-') || username) return usage('usermod');
+                else username = args[i];
+            }
+            if (!username || (role === undefined && locked === undefined)) return usage('usermod');
+            try {
+                const res = await request(`/api/admin/users/${encodeURIComponent(username)}`, {
+                    method: 'PATCH', headers: { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' }, body: JSON.stringify({ role, locked }),
+                });
+                const data = await res.json() as UserResponse;
+                return res.ok ? [data.message ?? ''] : fail(`usermod: ${data.error}`);
+            } catch (e) { return fail('usermod: Network error.'); }
+        },
+        users: async (args) => {
+            if (args.length > 0) return usage('users');
+            try {
+                const res = await request('/api/admin/users', { headers: await auth.getAuthHeader() });
+                const data = await res.json() as UsersResponse;
+                if (!res.ok) return fail(`users: ${data.error}`);
+                return [table(['USER', 'ROLE', 'STATUS', '2FA', 'LAST LOGIN'], (data.users ?? []).map(user => [
+                    user.username, user.role, user.locked ? paint('locked', 'red') : 'active', user.twoFactor ? 'on' : 'off',
+                    user.lastLogin ? `${formatTime(user.lastLogin)} from ${user.lastIp ?? 'unknown'}` : 'never',
+                ]))];
+            } catch (e) { return fail('users: Network error.'); }
+        },
+        invite: async (args) => {
+            const headers = { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' };
+            try {
+                if (args[0] === 'ls') {
+                    if (args.length > 1) return usage('invite');
+                    const res = await request('/api/admin/invites', { headers });
+                    const data = await res.json() as InviteResponse;
+                    if (!res.ok) return fail(`invite: ${data.error}`);
+                    if (!data.invites?.length) return ['No active invites.'];
+                    return [table(['CODE', 'USES LEFT', 'EXPIRES', 'CREATED BY'], data.invites.map(invite => [invite.code, String(invite.uses), formatTime(invite.expires), invite.createdBy]))];
+                }
+                if (args[0] === 'rm') {
+                    if (args.length !== 2) return usage('invite');
+                    const res = await request(`/api/admin/invites/${encodeURIComponent(args[1])}`, { method: 'DELETE', headers });
+                    const data = await res.json() as InviteResponse;
+                    return res.ok ? [`Invite '${args[1]}' revoked.`] : fail(`invite: ${data.error}`);
+                }
+
+                let uses = 1, ttl = '7d';
+                for (let i = 0; i < args.length; i++) {
+                    if (args[i] === '--uses') uses = parseInt(args[++i] ?? '', 10);
+                    else if (args[i] === '--ttl') ttl = args[++i] ?? '';
+                    else return usage('invite');
+                }
+                if (!(uses > 0)) return fail('invite: invalid number of uses');
+                const seconds = parseDuration(ttl);
+                if (!seconds) return fail(`invite: invalid ttl '${ttl}' (e.g. 12h, 7d)`);
+                const res = await request('/api/admin/invites', { method: 'POST', headers, body: JSON.stringify({ uses, ttl: seconds }) });
+                const data = await res.json() as InviteResponse;
+                if (!res.ok) return fail(`invite: ${data.error}`);
+                return [
+                    `Invite code: ${bold(data.code!)}`,
+                    `Creates ${data.uses} guest account${data.uses === 1 ? '' : 's'} until ${formatTime(data.expires!)}. Share it with: register ${data.code} <username>`,
+                ];
+            } catch (e) { return fail('invite: Network error.'); }
+        },
+        '2fa': async (args) => {
+            const headers = { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' };
+            try {
+                if (args[0] === 'enable') {
+                    if (args.length > 1) return usage('2fa');
+                    const res = await request('/api/2fa/setup', { method: 'POST', headers });
+                    const data = await res.json() as TwoFactorResponse;
+                    if (!res.ok) return fail(`2fa: ${data.error}`);
+                    return [
+                        'Scan this code with your authenticator app:', pre(renderQr(encodeQr(data.uri!)).join('\n'), true),
+                        `Or enter the key by hand: ${data.secret!.match(/.{1,4}/g)!.join(' ')}`,
+                        `Then run '2fa verify <code>' with the 6-digit code the app shows.`,
+                    ];
+                }
+                if (args[0] === 'verify' || args[0] === 'disable') {
+                    if (args.length !== 2) return usage('2fa');
+                    const res = await request(`/api/2fa/${args[0] === 'verify' ? 'enable' : 'disable'}`, { method: 'POST', headers, body: JSON.stringify({ code: args[1] }) });
+                    const data = await res.json() as TwoFactorResponse;
+                    if (!res.ok) return fail(`2fa: ${data.error}`);
+                    if (args[0] === 'disable') return ['Two-factor authentication is off.'];
+                    addToast('Two-factor authentication enabled.', 'success');
+                    return [
+                        'Two-factor authentication is on. Keep these recovery codes somewhere safe;',
+                        'each one logs you in once if you lose your authenticator:',
+                        ...data.recoveryCodes!.map(code => `    ${code}`),
+                    ];
+                }
+                if (args.length > 1 || (args[0] && args[0] !== 'status')) return usage('2fa');
+                const res = await request('/api/2fa', { headers });
+                const data = await res.json() as TwoFactorResponse;
+                if (!res.ok) return fail(`2fa: ${data.error}`);
+                return [data.enabled
+                    ? `Two-factor authentication: ${paint('on', 'green')} (${data.recoveryCodesLeft} recovery codes left)`
+                    : `Two-factor authentication: ${paint('off', 'red')}. Run '2fa enable' to set it up.`];
+            } catch (e) { return fail('2fa: Network error.'); }
+        },
+        last: async (args) => {
+            let limit = 20, username: string | undefined;
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '-n') limit = parseInt(args[++i] ?? '', 10);
+                else if (args[i].startsWith('-') || username) return usage('last');
+                else username = args[i];
+            }
+            if (!(limit > 0)) return fail('last: invalid count');
+            try {
+                const query = new URLSearchParams({ limit: String(limit), ...(username && { user: username }) });
+                const res = await request(`/api/audit/logins?${query}`, { headers: await auth.getAuthHeader() });
+                const data = await res.json() as AuditResponse;
+                if (!res.ok) return fail(`last: ${data.error}`);
+                if (!data.entries?.length) return ['No logins recorded.'];
+                return [table(['USER', 'FROM', 'DEVICE', 'WHEN'], data.entries.map(entry => [entry.actor ?? '', entry.ip ?? '-', describeDevice(entry.detail), formatTime(entry.time)]))];
+            } catch (e) { return fail('last: Network error.'); }
+        },
+        lastlog: async (args) => {
+            if (args.length > 0 && (args[0] !== '-u' || !args[1] || args.length > 2)) return usage('lastlog');
+            try {
+                const res = await request(`/api/audit/lastlog${args[1] ? `?user=${encodeURIComponent(args[1])}` : ''}`, { headers: await auth.getAuthHeader() });
+                const data = await res.json() as AuditResponse;
+                if (!res.ok) return fail(`lastlog: ${data.error}`);
+                if (!data.users?.length) return fail(`lastlog: user '${args[1]}' not found`);
+                return [table(['USERNAME', 'FROM', 'LATEST'], data.users.map(user => [user.username, user.ip ?? '', user.time ? formatTime(user.time) : '**Never logged in**']))];
+            } catch (e) { return fail('lastlog: Network error.'); }
+        },
+        audit: async (args) => {
+            const query = new URLSearchParams();
+            for (let i = 0; i < args.length; i++) {
+                const value = args[i + 1];
+                if (!value || !['--user', '--since', '-n'].includes(args[i])) return usage('audit');
+                i++;
+                if (args[i - 1] === '--user') query.set('user', value);
+                else if (args[i - 1] === '-n') query.set('limit', value);
+                else {
+                    // A duration counts back from now; anything else is read as a date.
+                    const seconds = parseDuration(value);
+                    const since = seconds !== null ? Date.now() - seconds * 1000 : Date.parse(value);
+                    if (isNaN(since)) return fail(`audit: invalid time '${value}' (e.g. 30m, 7d, 2024-06-01)`);
+                    query.set('since', String(since));
+                }
+            }
+            try {
+                const res = await request(`/api/admin/audit?${query}`, { headers: await auth.getAuthHeader() });
+                const data = await res.json() as AuditResponse;
+                if (!res.ok) return fail(`audit: ${data.error}`);
+                if (!data.entries?.length) return ['No matching events.'];
+                return [table(['TIME', 'ACTOR', 'ACTION', 'TARGET', 'IP', 'DETAIL'], data.entries.map(entry => [
+                    formatTime(entry.time), entry.actor ?? '-', ALERTS.has(entry.action) ? paint(entry.action, 'red') : entry.action,
+                    entry.target ?? '', entry.ip ?? '', entry.detail ?? '',
+                ]))];
+            } catch (e) { return fail('audit: Network error.'); }
+        },
+        sudo: async (args, _isSudo, stdin, out) => {
+            if (!can('sudo')) {
+                reportSudo('sudo_denied', args);
+                return fail("sudo: user not in sudoers file. This incident will be reported.");
+            }
+            reportSudo('sudo', args);
             const subCommand = args[0]; const subArgs = args.slice(1);
-            if (!commands[subCommand]) return [`sudo: command not found: ${subCommand}`];
-            return commands[subCommand](subArgs, true);
+            if (!subCommand) return usage('sudo');
+            if (!isCommand(subCommand)) return fail(`sudo: command not found: ${subCommand}`);
+            return runCommand(subCommand, subArgs, true, stdin, out);
         },
 
         // --- VFS ---
-        ls: (args) => {
-            if (!auth.user) return ['Permission denied. Please log in to use the file system.'];
-            const path = resolvePath(args[0] || vfsContext.currentPath, vfsContext.currentPath);
-            const content = getObjectByPath(vfsContext.vfs, path);
-            if (typeof content !== 'object' || content === null) return [`ls: cannot access '${path}': Not a directory or does not exist`];
-            return Object.keys(content).map(key => typeof content[key] === 'object' ? `<span style="color:var(--cyan);">${key}/</span>` : key);
-        },
-        cat: (args) => {
-            if (!auth.user) return ['Permission denied.']; if (!args[0]) return ['Usage: cat <file>'];
-            const path = resolvePath(args[0], vfsContext.currentPath); const content = getObjectByPath(vfsContext.vfs, path);
-            if (typeof content !== 'string') return [`cat: '${args[0]}': Not a file or does not exist`];
-            return content.split('\n');
-        },
-        cd: (args) => {
-            if (!auth.user) return ['Permission denied.']; const newPath = resolvePath(args[0] || '~', vfsContext.currentPath);
-            const content = getObjectByPath(vfsContext.vfs, newPath);
-            if (typeof content !== 'object' || content === null) return [`cd: no such file or directory: ${args[0] || '~'}`];
+        ls: (args, isSudo) => {
+            const parsed = parseFlags(args, 'la');
+            if (typeof parsed === 'string') return fail(`ls: invalid option -- '${parsed}'`);
+            const target = parsed.operands[0] || vfsContext.currentPath;
+            const path = resolvePath(target, vfsContext.currentPath);
+            const node = getObjectByPath(vfsContext.vfs, path);
+            if (!node) return fail(`ls: cannot access '${target}': No such file or directory`);
+            const long = parsed.flags.has('l');
+            const format = (name: string, entry: VfsNode) => {
+                const display = isDir(entry) ? paint(`${name}/`, 'cyan') : name;
+                if (!long) return display;
+                const links = isDir(entry) ? Object.keys(entry.children).length + 2 : 1;
+                return `${formatMode(entry)} ${String(links).padStart(3)} ${entry.owner.padEnd(8)} ${entry.owner.padEnd(8)} ${String(nodeSize(entry)).padStart(7)} ${formatTime(entry.mtime)} ${display}`;
+            };
+            if (isFile(node)) return [format(target, node)];
+            if (!allowed(node, 'r', isSudo)) return fail(`ls: cannot open directory '${target}': Permission denied`);
+            const entries = Object.entries(node.children).filter(([name]) => parsed.flags.has('a') || !name.startsWith('.'));
+            if (parsed.flags.has('a')) {
+                const parent = getObjectByPath(vfsContext.vfs, dirname(path)) ?? node;
+                entries.unshift(['.', node], ['..', parent]);
+            }
+            return entries.map(([name, entry]) => format(name, entry));
+        },
+        cat: (args, isSudo, stdin) => {
+            if (!args[0] && stdin !== undefined) return stdin.split('\n');
+            if (!auth.user) return fail('Permission denied.'); if (!args[0]) return usage('cat');
+            const input = readInput('cat', args[0], undefined, usageOf('cat'), isSudo);
+            if (typeof input !== 'string') return input;
+            return input.split('\n');
+        },
+        cd: (args, isSudo) => {
+            const newPath = resolvePath(args[0] || '~', vfsContext.currentPath);
+            const node = getObjectByPath(vfsContext.vfs, newPath);
+            if (!isDir(node)) return fail(`cd: no such file or directory: ${args[0] || '~'}`);
+            if (!allowed(node, 'x', isSudo)) return fail(`cd: permission denied: ${args[0]}`);
             vfsContext.setCurrentPath(newPath); return [];
         },
         pwd: () => [auth.user ? vfsContext.currentPath : '/'],
-        mkdir: (args) => {
-            if (!auth.user) return ['Permission denied.']; if (!args[0]) return ['Usage: mkdir <directory_name>'];
+        mkdir: (args, isSudo) => {
+            if (!args[0]) return usage('mkdir');
             const newDirPath = resolvePath(args[0], vfsContext.currentPath);
-            if (getObjectByPath(vfsContext.vfs, newDirPath)) return [`mkdir: cannot create directory '${args[0]}': File exists`];
+            if (getObjectByPath(vfsContext.vfs, newDirPath)) return fail(`mkdir: cannot create directory '${args[0]}': File exists`);
+            if (!parentWritable(newDirPath, isSudo)) return fail(`mkdir: cannot create directory '${args[0]}': Permission denied`);
             const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
-            if(setObjectByPath(newVfs, newDirPath, {})) { vfsContext.updateVFS(newVfs); }
-            else { return [`mkdir: cannot create directory '${args[0]}': Invalid path`]; }
+            if(setObjectByPath(newVfs, newDirPath, createDir(owner()))) { vfsContext.updateVFS(newVfs); }
+            else { return fail(`mkdir: cannot create directory '${args[0]}': Invalid path`); }
             return [];
         },
-        touch: (args) => {
-            if (!auth.user) return ['Permission denied.']; if (!args[0]) return ['Usage: touch <file_name>'];
-            const newFilePath = resolvePath(args[0], vfsContext.currentPath); const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
-            if(setObjectByPath(newVfs, newFilePath, "")) { vfsContext.updateVFS(newVfs); }
-            else { return [`touch: cannot create file '${args[0]}': Invalid path`]; }
+        touch: (args, isSudo) => {
+            if (!args[0]) return usage('touch');
+            const newFilePath = resolvePath(args[0], vfsContext.currentPath);
+            const existing = getObjectByPath(vfsContext.vfs, newFilePath);
+            if (existing ? !allowed(existing, 'w', isSudo) : !parentWritable(newFilePath, isSudo)) return fail(`touch: cannot touch '${args[0]}': Permission denied`);
+            const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+            if (existing) { getObjectByPath(newVfs, newFilePath)!.mtime = Date.now(); vfsContext.updateVFS(newVfs); }
+            else if(setObjectByPath(newVfs, newFilePath, createFile('', owner()))) { vfsContext.updateVFS(newVfs); }
+            else { return fail(`touch: cannot create file '${args[0]}': Invalid path`); }
             return [];
         },
-        rm: (args) => {
-            if (!auth.user) return ['Permission denied.']; if (!args[0]) return ['Usage: rm [-r] <file_or_directory>'];
+        rm: (args, isSudo) => {
+            if (!args[0]) return usage('rm');
             const recursive = args[0] === '-r';
             const target = recursive ? args[1] : args[0];
-            if (!target) return ['Usage: rm [-r] <file_or_directory>'];
+            if (!target) return usage('rm');
             const path = resolvePath(target, vfsContext.currentPath);
-            const content = getObjectByPath(vfsContext.vfs, path);
-            if (content === undefined) return [`rm: cannot remove '${target}': No such file or directory`];
-            if (typeof content === 'object' && Object.keys(content).length > 0 && !recursive) return [`rm: cannot remove '${target}': Directory not empty. Use -r to remove recursively.`];
+            const node = getObjectByPath(vfsContext.vfs, path);
+            if (node === undefined) return fail(`rm: cannot remove '${target}': No such file or directory`);
+            if (isDir(node) && Object.keys(node.children).length > 0 && !recursive) return fail(`rm: cannot remove '${target}': Directory not empty. Use -r to remove recursively.`);
+            if (!parentWritable(path, isSudo)) return fail(`rm: cannot remove '${target}': Permission denied`);
             const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
             if (deleteObjectByPath(newVfs, path)) { vfsContext.updateVFS(newVfs); }
             return [];
         },
-        grep: (args) => {
-            if (args.length < 2) return ['Usage: grep <pattern> <file>'];
-            const [pattern, filePath] = args; const fullPath = resolvePath(filePath, vfsContext.currentPath);
-            const content = getObjectByPath(vfsContext.vfs, fullPath);
-            if (typeof content !== 'string') return [`grep: ${filePath}: No such file`];
-            const regex = new RegExp(pattern, 'g');
-            return content.split('\n').filter(line => line.match(regex)).map(line => line.replace(regex, `<span style="background-color:var(--yellow);color:var(--background-color);">${pattern}</span>`));
+        chmod: (args, isSudo) => {
+            const recursive = args[0] === '-R';
+            const [spec, target] = recursive ? args.slice(1) : args;
+            if (!spec || !target) return usage('chmod');
+            const path = resolvePath(target, vfsContext.currentPath);
+            const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+            const node = getObjectByPath(newVfs, path);
+            if (!node) return fail(`chmod: cannot access '${target}': No such file or directory`);
+            if (!isSudo && node.owner !== auth.user?.username) return fail(`chmod: changing permissions of '${target}': Operation not permitted`);
+            const apply = (entry: VfsNode): boolean => {
+                const mode = parseMode(spec, entry.mode);
+                if (mode === null) return false;
+                entry.mode = mode; entry.ctime = Date.now();
+                return !recursive || !isDir(entry) || Object.values(entry.children).every(apply);
+            };
+            if (!apply(node)) return fail(`chmod: invalid mode: '${spec}'`);
+            vfsContext.updateVFS(newVfs);
+            return [];
         },
-        wc: (args) => {
-            if (!args[0]) return ['Usage: wc <file>'];
-            const path = resolvePath(args[0], vfsContext.currentPath);
-            const content = getObjectByPath(vfsContext.vfs, path);
-            if (typeof content !== 'string') return [`wc: ${args[0]}: No such file`];
+        chown: (args, isSudo) => {
+            const recursive = args[0] === '-R';
+            const [owner, target] = recursive ? args.slice(1) : args;
+            if (!owner || !target) return usage('chown');
+            const path = resolvePath(target, vfsContext.currentPath);
+            const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+            const node = getObjectByPath(newVfs, path);
+            if (!node) return fail(`chown: cannot access '${target}': No such file or directory`);
+            if (!isSudo) return fail(`chown: changing ownership of '${target}': Operation not permitted`);
+            const apply = (entry: VfsNode) => {
+                entry.owner = owner; entry.ctime = Date.now();
+                if (recursive && isDir(entry)) Object.values(entry.children).forEach(apply);
+            };
+            apply(node);
+            vfsContext.updateVFS(newVfs);
+            return [];
+        },
+        grep: (args, isSudo, stdin) => {
+            const [pattern, filePath] = args;
+            if (!pattern || (!filePath && stdin === undefined)) return usage('grep');
+            const content = readInput('grep', filePath, stdin, usageOf('grep'), isSudo);
+            if (typeof content !== 'string') return content;
+            let regex: RegExp;
+            try { regex = new RegExp(pattern, 'g'); } catch (e) { return fail(`grep: invalid pattern: ${pattern}`); }
+            const matches = content.split('\n').filter(line => line.search(regex) !== -1);
+            if (matches.length === 0) return { text: [], exitCode: 1 };
+            return matches.map(line => line.replace(regex, match => paint(match, 'black', 'yellow')));
+        },
+        wc: (args, isSudo, stdin) => {
+            const content = readInput('wc', args[0], stdin, usageOf('wc'), isSudo);
+            if (typeof content !== 'string') return content;
             const lines = content.split('\n').length;
             const words = content.trim() ? content.trim().split(/\s+/).length : 0;
             const chars = content.length;
-            return [`${lines.toString().padStart(7)} ${words.toString().padStart(7)} ${chars.toString().padStart(7)} ${args[0]}`];
+            return [`${lines.toString().padStart(7)} ${words.toString().padStart(7)} ${chars.toString().padStart(7)}${args[0] ? ` ${args[0]}` : ''}`];
+        },
+        tree: (_args, isSudo) => {
+            const node = getObjectByPath(vfsContext.vfs, vfsContext.currentPath);
+            if (!isDir(node) || !allowed(node, 'r', isSudo)) return fail(`tree: ${vfsContext.currentPath}: Permission denied`);
+            return [vfsContext.currentPath, ...tree(node)];
+        },
+        tail: async (args, isSudo, stdin, out) => {
+            let lines = 10, follow = false, file: string | undefined;
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '-n') lines = parseInt(args[++i]) || 10;
+                else if (args[i] === '-f') follow = true;
+                else file = args[i];
+            }
+            const input = readInput('tail', file, stdin, usageOf('tail'), isSudo);
+            if (typeof input !== 'string') return input;
+            if (follow && file) {
+                // Follows the file until the job is killed.
+                out.writeLines(input.split('\n').slice(-lines));
+                const path = resolvePath(file, vfsContext.currentPath);
+                let lastContent = input;
+                const intervalId = window.setInterval(() => {
+                    const node = getObjectByPath(terminalController.getVFS(), path);
+                    if (!isFile(node) || node.content === lastContent) return;
+                    const content = node.content;
+                    const appended = content.startsWith(lastContent);
+                    const newLines = (appended ? content.substring(lastContent.length).replace(/^\n/, '') : content).split('\n');
+                    lastContent = content;
+                    out.writeLines(appended ? newLines : [`tail: ${file}: file truncated`, ...newLines]);
+                }, 1000);
+                await untilAborted(job.signal);
+                clearInterval(intervalId);
+                return [];
+            }
+            return input.split('\n').slice(-lines);
+        },
+        sort: (args, isSudo, stdin) => {
+            const parsed = parseFlags(args, 'rnu');
+            if (typeof parsed === 'string') return fail(`sort: invalid option -- '${parsed}'`);
+            const input = readInput('sort', parsed.operands[0], stdin, usageOf('sort'), isSudo);
+            if (typeof input !== 'string') return input;
+            const lines = input.split('\n').sort(parsed.flags.has('n')
+                ? (a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)
+                : (a, b) => a < b ? -1 : a > b ? 1 : 0);
+            if (parsed.flags.has('r')) lines.reverse();
+            return parsed.flags.has('u') ? lines.filter((line, i) => i === 0 || line !== lines[i - 1]) : lines;
+        },
+        uniq: (args, isSudo, stdin) => {
+            const parsed = parseFlags(args, 'cdu');
+            if (typeof parsed === 'string') return fail(`uniq: invalid option -- '${parsed}'`);
+            const input = readInput('uniq', parsed.operands[0], stdin, usageOf('uniq'), isSudo);
+            if (typeof input !== 'string') return input;
+            const groups: { line: string; count: number }[] = [];
+            for (const line of input.split('\n')) {
+                const last = groups[groups.length - 1];
+                if (last && last.line === line) last.count++;
+                else groups.push({ line, count: 1 });
+            }
+            return groups
+                .filter(group => (!parsed.flags.has('d') || group.count > 1) && (!parsed.flags.has('u') || group.count === 1))
+                .map(group => parsed.flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line);
+        },
+        diff: (args, isSudo) => {
+            const [fileA, fileB] = args;
+            if (!fileA || !fileB) return usage('diff');
+            const a = readInput('diff', fileA, undefined, '', isSudo), b = readInput('diff', fileB, undefined, '', isSudo);
+            if (typeof a !== 'string') return a;
+            if (typeof b !== 'string') return b;
+            const hunks = unifiedDiff(a.split('\n'), b.split('\n'));
+            if (hunks.length === 0) return [];
+            const colors: { [prefix: string]: Color } = { '+': 'green', '-': 'red', '@': 'cyan' };
+            const colored = hunks.map(line => colors[line[0]] ? paint(line, colors[line[0]]) : line);
+            return { text: [`--- ${fileA}`, `+++ ${fileB}`, ...colored], exitCode: 1 };
+        },
+        cp: (args, isSudo) => {
+            const parsed = parseFlags(args, 'rR');
+            if (typeof parsed === 'string') return fail(`cp: invalid option -- '${parsed}'`);
+            const [source, target] = parsed.operands;
+            if (!source || !target || parsed.operands.length > 2) return usage('cp');
+            return transfer('cp', source, target, parsed.flags.size > 0, isSudo);
+        },
+        mv: (args, isSudo) => {
+            const [source, target] = args;
+            if (!source || !target || args.length > 2) return usage('mv');
+            return transfer('mv', source, target, true, isSudo);
+        },
+        find: (args, isSudo) => {
+            let start = '.', namePattern: RegExp | null = null, type: string | null = null;
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '-name') {
+                    if (!args[i + 1]) return fail('find: missing argument to `-name\'');
+                    namePattern = globToRegExp(args[++i]);
+                } else if (args[i] === '-type') {
+                    type = args[++i];
+                    if (type !== 'f' && type !== 'd') return fail(`find: Unknown argument to -type: ${type ?? ''}`);
+                } else if (args[i].startsWith('-')) {
+                    return fail(`find: unknown predicate '${args[i]}'`);
+                } else {
+                    start = args[i];
+                }
+            }
+            const startPath = resolvePath(start, vfsContext.currentPath);
+            const root = getObjectByPath(vfsContext.vfs, startPath);
+            if (root === undefined) return fail(`find: '${start}': No such file or directory`);
+            const results: string[] = [];
+            let denied = false;
+            // Like ls, a directory's entries are only listed when it is readable; the search goes on elsewhere.
+            const walk = (node: VfsNode, display: string, name: string) => {
+                if ((!namePattern || namePattern.test(name)) && (!type || (type === 'd') === isDir(node))) results.push(display);
+                if (!isDir(node)) return;
+                if (!allowed(node, 'r', isSudo)) {
+                    results.push(`find: '${display}': Permission denied`);
+                    denied = true;
+                    return;
+                }
+                Object.entries(node.children).forEach(([key, child]) => walk(child, `${display}/${key}`, key));
+            };
+            walk(root, start.replace(/(.)\/+$/, '$1'), basename(startPath));
+            return { text: results, exitCode: denied ? 1 : 0 };
+        },
+        stat: (args, isSudo) => {
+            if (!args[0]) return usage('stat');
+            const path = resolvePath(args[0], vfsContext.currentPath);
+            const node = getObjectByPath(vfsContext.vfs, path);
+            if (node === undefined) return fail(`stat: cannot stat '${args[0]}': No such file or directory`);
+            if (!allowed(node, 'r', isSudo)) return fail(`stat: cannot stat '${args[0]}': Permission denied`);
+            const octal = node.mode.toString(8).padStart(4, '0');
+            return [
+                `  File: ${args[0]}`,
+                `  Path: ${path}`,
+                `  Size: ${String(nodeSize(node)).padEnd(10)} Type: ${isDir(node) ? 'directory' : 'regular file'}`,
+                isDir(node) ? `Entries: ${Object.keys(node.children).length}` : node.blob ? `Stored: cloud object (${node.blob.type})` : ` Lines: ${node.content.split('\n').length}`,
+                `Access: (${octal}/${formatMode(node)})  Owner: ${node.owner}`,
+                `Modify: ${new Date(node.mtime).toString()}`,
+                `Change: ${new Date(node.ctime).toString()}`,
+            ];
         },
-        tree: () => {
-            if (!auth.user) return ["Permission denied."];
-            const content = getObjectByPath(vfsContext.vfs, vfsContext.currentPath);
-            return [vfsContext.currentPath, ...tree(content)];
+        du: (args, isSudo) => {
+            const parsed = parseFlags(args, 'sh');
+            if (typeof parsed === 'string') return fail(`du: invalid option -- '${parsed}'`);
+            const start = parsed.operands[0] || '.';
+            const root = getObjectByPath(vfsContext.vfs, resolvePath(start, vfsContext.currentPath));
+            if (root === undefined) return fail(`du: cannot access '${start}': No such file or directory`);
+            const output: string[] = [];
+            let denied = false;
+            // The contents of unreadable directories are not counted, like ls does not list them.
+            const walk = (node: VfsNode, display: string): number => {
+                if (isFile(node)) return nodeSize(node);
+                const readable = allowed(node, 'r', isSudo);
+                if (!readable) {
+                    output.push(`du: cannot read directory '${display}': Permission denied`);
+                    denied = true;
+                }
+                const size = readable ? Object.entries(node.children).reduce((sum, [key, child]) => sum + walk(child, `${display}/${key}`), 0) : 0;
+                if (!parsed.flags.has('s') || display === start) output.push(`${formatSize(size, parsed.flags.has('h')).padEnd(8)}${display}`);
+                return size;
+            };
+            const total = walk(root, start);
+            if (isFile(root)) output.push(`${formatSize(total, parsed.flags.has('h')).padEnd(8)}${start}`);
+            return { text: output, exitCode: denied ? 1 : 0 };
+        },
+        nano: (args, isSudo) => {
+            if (!args[0]) return usage('nano');
+            const path = resolvePath(args[0], vfsContext.currentPath);
+            const node = getObjectByPath(vfsContext.vfs, path);
+            if (isDir(node)) return fail(`nano: ${args[0]}: Is a directory`);
+            if (node && !allowed(node, 'r', isSudo)) return fail(`nano: ${args[0]}: Permission denied`);
+            if (isFile(node) && node.blob) return fail(`nano: ${args[0]}: cannot edit a binary file`);
+            if (path === '~' || !isDir(getObjectByPath(vfsContext.vfs, dirname(path)))) return fail(`nano: ${args[0]}: No such file or directory`);
+            return { special: 'editor', file: path };
         },
-        head: (args) => {
+        upload: (args) => {
+            const path = resolvePath(args[0] || '.', vfsContext.currentPath);
+            const node = getObjectByPath(vfsContext.vfs, path);
+            if (!isDir(node)) return fail(`upload: ${args[0]}: Not a directory`);
+            if (!allowed(node, 'w')) return fail(`upload: ${args[0] || '.'}: Permission denied`);
+            return { text: ['Choose files to upload, or drop them onto the terminal window.'], special: 'upload', file: path };
+        },
+        download: async (args, isSudo) => {
+            if (!args[0]) return usage('download');
+            const node = getObjectByPath(vfsContext.vfs, resolvePath(args[0], vfsContext.currentPath));
+            if (node === undefined) return fail(`download: ${args[0]}: No such file or directory`);
+            if (!isFile(node)) return fail(`download: ${args[0]}: Is a directory`);
+            if (!allowed(node, 'r', isSudo)) return fail(`download: ${args[0]}: Permission denied`);
+            try {
+                const blob = node.blob ? await fetchBlob(node.blob, await auth.getAuthHeader(), job.signal) : new Blob([node.content], { type: 'text/plain' });
+                saveToDisk(blob, basename(resolvePath(args[0], vfsContext.currentPath)));
+                return [`Downloading ${args[0]} (${formatSize(nodeSize(node), true)})...`];
+            } catch (e: any) { return fail(`download: ${args[0]}: ${e.message}`); }
+        },
+        quota: async () => {
+            try {
+                const res = await request('/api/files', { headers: await auth.getAuthHeader() });
+                const data = await res.json() as StorageUsage;
+                if (!res.ok) return fail(`quota: ${data.error}`);
+                const percent = data.quota ? Math.round(data.used / data.quota * 100) : 0;
+                return [`Cloud storage: ${formatSize(data.used, true)} of ${formatSize(data.quota, true)} used (${percent}%)`];
+            } catch (e) { return fail('quota: Network error.'); }
+        },
+        share: async (args, isSudo) => {
+            const headers = { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' };
+            try {
+                if (args[0] === 'ls') {
+                    const res = await request('/api/shares', { headers });
+                    const data = await res.json() as ShareResponse;
+                    if (!res.ok) return fail(`share: ${data.error}`);
+                    if (!data.shares?.length) return ['No active shares.'];
+                    return [table(['ID', 'EXPIRES', 'LOCK', 'NAME'], data.shares.map(share => [share.id, formatTime(share.expires), share.protected ? 'yes' : '', share.name]))];
+                }
+                if (args[0] === 'rm') {
+                    if (!args[1]) return fail('Usage: share rm <id>');
+                    const res = await request(`/api/shares/${encodeURIComponent(args[1])}`, { method: 'DELETE', headers });
+                    const data = await res.json() as ShareResponse;
+                    return res.ok ? [`Share '${args[1]}' revoked.`] : fail(`share: ${data.error}`);
+                }
+
+                let file: string | undefined, ttl = '7d', password: string | undefined;
+                for (let i = 0; i < args.length; i++) {
+                    if (args[i] === '--ttl') ttl = args[++i] ?? '';
+                    else if (args[i] === '--password') password = args[++i] ?? '';
+                    else if (args[i].startsWith('-') || file) return usage('share');
+                    else file = args[i];
+                }
+                if (!file) return usage('share');
+                const seconds = parseDuration(ttl);
+                if (!seconds) return fail(`share: invalid ttl '${ttl}' (e.g. 30m, 12h, 7d)`);
+                const path = resolvePath(file, vfsContext.currentPath);
+                const node = getObjectByPath(vfsContext.vfs, path);
+                if (node === undefined) return fail(`share: ${file}: No such file or directory`);
+                if (!isFile(node)) return fail(`share: ${file}: Is a directory`);
+                if (!allowed(node, 'r', isSudo)) return fail(`share: ${file}: Permission denied`);
+                const res = await request('/api/shares', {
+                    method: 'POST', headers,
+                    body: JSON.stringify({ name: basename(path), content: node.blob ? undefined : node.content, blob: node.blob, ttl: seconds, password }),
+                });
+                const data = await res.json() as ShareResponse;
+                if (!res.ok || !data.url) return fail(`share: ${data.error || 'Failed to create share.'}`);
+                return [
+                    [{ type: 'text', text: `Shared ${file} as ` }, link(data.url)],
+                    `Expires ${formatTime(data.expires!)}${password ? ' · password protected' : ''} · revoke with: share rm ${data.id}`,
+                ];
+            } catch (e) { return fail('share: Network error.'); }
+        },
+        vi: (args, _isSudo, stdin, out) => commands.nano(args, false, stdin, out),
+        vim: (args, _isSudo, stdin, out) => commands.nano(args, false, stdin, out),
+        head: (args, isSudo, stdin) => {
             let lines = 10, file = args[0];
             if (args[0] === '-n') { lines = parseInt(args[1]) || 10; file = args[2]; }
-            if (!file) return ['Usage: head [-n lines] <file>'];
-            const content = getObjectByPath(vfsContext.vfs, resolvePath(file, vfsContext.currentPath));
-            if (typeof content !== 'string') return [`head: ${file}: No such file`];
+            const content = readInput('head', file, stdin, usageOf('head'), isSudo);
+            if (typeof content !== 'string') return content;
             return content.split('\n').slice(0, lines);
         },
         
         // --- TEXT & ENCODING UTILITIES ---
-        base64: (args) => {
-            const [op, ...textParts] = args; const text = textParts.join(' ');
+        base64: (args, _isSudo, stdin) => {
+            const [op, ...textParts] = args; const text = textParts.length ? textParts.join(' ') : (stdin ?? '');
             if (op === 'encode') return [btoa(text)];
-            if (op === 'decode') try { return [atob(text)]; } catch (e) { return ['Invalid base64 string.']; }
-            return ['Usage: base64 <encode|decode> <text>'];
+            if (op === 'decode') try { return [atob(text.trim())]; } catch (e) { return fail('Invalid base64 string.'); }
+            return usage('base64');
         },
-        urlencode: (args) => {
-            const [op, ...textParts] = args; const text = textParts.join(' ');
+        urlencode: (args, _isSudo, stdin) => {
+            const [op, ...textParts] = args; const text = textParts.length ? textParts.join(' ') : (stdin ?? '');
             if (op === 'encode') return [encodeURIComponent(text)];
-            if (op === 'decode') return [decodeURIComponent(text)];
-            return ['Usage: urlencode <encode|decode> <text>'];
+            if (op === 'decode') try { return [decodeURIComponent(text)]; } catch (e) { return fail('Invalid URL-encoded string.'); }
+            return usage('urlencode');
         },
-        hash: (args) => {
-            const [alg, ...textParts] = args; const text = textParts.join(' ');
+        hash: (args, _isSudo, stdin) => {
+            const [alg, ...textParts] = args; const text = textParts.length ? textParts.join(' ') : (stdin ?? '');
             if (alg === 'sha256') return [sha256(text)];
-            return ['Usage: hash <sha256> <text>'];
+            return usage('hash');
         },
         
         // --- API & NETWORK ---
-        ai: async (args) => {
-            if (!auth.user) return ['Permission denied. AI features require login.'];
-            const prompt = args.join(' '); if (!prompt) return ['Usage: ai <your_question>'];
+        ai: async (args, _isSudo, _stdin, out) => {
+            const prompt = args.join(' '); if (!prompt) return usage('ai');
             addToast('Thinking...', 'info');
-            const res = await fetch('/api/ai', { method: 'POST', headers: { 'Content-Type': 'application/json', ...auth.getAuthHeader() }, body: JSON.stringify({ prompt }), });
-            const data = await res.json() as AiResponse;
-            if (data.error) return [`AI Error: ${data.error}`];
-            return data.response?.split('\n') || ['AI returned no response.'];
+            const res = await request('/api/ai', { method: 'POST', headers: { 'Content-Type': 'application/json', ...(await auth.getAuthHeader()) }, body: JSON.stringify({ prompt }), });
+            if (!res.ok || !res.body) return [`AI Error: ${await errorOf(res)}`];
+            // The answer arrives as server-sent events and is printed as it is generated.
+            let answered = false;
+            for await (const { event, data } of readEvents(res.body)) {
+                if (event === 'error') return [`AI Error: ${(JSON.parse(data) as AiResponse).error}`];
+                if (event !== 'message') continue;
+                out.write((JSON.parse(data) as AiResponse).text ?? '');
+                answered = true;
+            }
+            return answered ? [] : ['AI returned no response.'];
         },
         music: async (args) => {
             const subCommand = args[0]; const query = args.slice(1).join(' ');
-            if (!subCommand) return ['Usage: music <search|play|stop> [query|ID]'];
+            if (!subCommand) return usage('music');
             switch (subCommand) {
                 case 'search':
                     if (!query) return ['Usage: music search <keywords>'];
                     addToast(`Searching for: ${query}`, 'info');
-                    const searchRes = await fetch(`/api/music/search/${encodeURIComponent(query)}`);
+                    const searchRes = await request(`/api/music/search/${encodeURIComponent(query)}`);
                     const searchData = await searchRes.json() as MusicSearchResult;
                     if (searchData.code !== 200 || !searchData.result?.songs) return ['Search failed or no results.'];
-                    return ['Search Results:', ...searchData.result.songs.slice(0, 10).map(song => `[ID: <span style="color:var(--cyan);">${song.id}</span>]  ${song.name} - ${song.ar.map(a => a.name).join('/')}`)];
+                    return ['Search Results:', ...searchData.result.songs.slice(0, 10).map(song => `[ID: ${paint(String(song.id), 'cyan')}]  ${song.name} - ${song.ar.map(a => a.name).join('/')}`)];
                 case 'play':
                     const songId = args[1]; if (!songId) return ['Usage: music play <ID>'];
                     addToast('Fetching song...', 'info');
-                    const urlRes = await fetch(`/api/music/url/${songId}`);
+                    const urlRes = await request(`/api/music/url/${songId}`);
                     const urlData = await urlRes.json() as MusicUrlResult;
                     const songUrl = urlData.data?.[0]?.url;
                     if (!songUrl) return ['Could not get URL. Song may be VIP or unavailable.'];
-                    const detailRes = await fetch(`/api/music/detail/${songId}`);
+                    const detailRes = await request(`/api/music/detail/${songId}`);
                     const detailData = await detailRes.json() as MusicDetailResult;
                     const songInfo = detailData.songs?.[0];
                     const songDetails = { name: songInfo?.name || 'Unknown', artist: songInfo?.ar.map(a => a.name).join('/') || 'Unknown' };
@@ -290,65 +958,69 @@ export const processCommand = async (
             }
         },
         video: async (args) => {
-            if (args[0] !== 'search' || args.length < 2) return ['Usage: video search <keywords>'];
+            if (args[0] !== 'search' || args.length < 2) return usage('video');
             const query = args.slice(1).join(' '); addToast(`Searching Bilibili for: ${query}`, 'info');
-            const res = await fetch(`/api/video/search/${encodeURIComponent(query)}`);
+            const res = await request(`/api/video/search/${encodeURIComponent(query)}`);
             const data = await res.json() as BiliSearchResult;
             if (data.code !== 0 || !data.data?.result) return ['Search failed or no results.'];
             const videos = data.data.result.filter(r => r.type === 'video'); if (!videos.length) return ['No videos found.'];
-            return ['Bilibili Video Search Results:', ...videos[0].data.slice(0, 10).map(video => {
+            return ['Bilibili Video Search Results:', ...videos[0].data.slice(0, 10).map((video): OutputLine => {
                 const title = video.title.replace(/<em class="keyword">|<\/em>/g, '');
-                return `[<a href="https://www.bilibili.com/video/${video.bvid}" target="_blank">video/${video.bvid}</a>] ${title} - by ${video.author}`;
+                return [
+                    { type: 'text', text: '[' },
+                    link(`https://www.bilibili.com/video/${encodeURIComponent(video.bvid)}`, `video/${video.bvid}`),
+                    { type: 'text', text: `] ${title} - by ${video.author}` },
+                ];
             })];
         },
         curl: async (args) => {
-            const url = args[0]; if (!url) return ['Usage: curl <url>'];
-            try { const res = await fetch(`/api/curl?url=${encodeURIComponent(url)}`); return [await res.text()]; }
+            const url = args[0]; if (!url) return usage('curl');
+            try { const res = await request(`/api/curl?url=${encodeURIComponent(url)}`); return (await res.text()).split('\n'); }
             catch(e) { return ['curl: (6) Could not resolve host.']; }
         },
         dig: async (args) => {
-            const domain = args[0]; if (!domain) return ['Usage: dig <domain>'];
-            const res = await fetch(`/api/dns/${domain}`); const data = await res.json() as DnsResponse;
+            const domain = args[0]; if (!domain) return usage('dig');
+            const res = await request(`/api/dns/${domain}`); const data = await res.json() as DnsResponse;
             if (!data.Answer) return [`dig: couldn't get address for '${domain}': not found`];
             const output = [`;; QUESTION SECTION:`, `;${domain}.			IN	A`, ``, `;; ANSWER SECTION:`];
             data.Answer.forEach(r => output.push(`${r.name.padEnd(24)} ${r.TTL.toString().padEnd(8)} IN ${r.type.padEnd(8)} ${r.data}`));
             return output;
         },
         github: async(args) => {
-            const username = args[0]; if (!username) return ['Usage: github <username>'];
-            const res = await fetch(`/api/github/${username}`);
+            const username = args[0]; if (!username) return usage('github');
+            const res = await request(`/api/github/${username}`);
             if(!res.ok) return [`User '${username}' not found.`];
             const data = await res.json() as GithubUser;
             return [`User: ${data.name || username}`, `Bio: ${data.bio || 'N/A'}`, `Company: ${data.company || 'N/A'}`, `Public Repos: ${data.public_repos}`, `Followers: ${data.followers}`];
         },
         npm: async(args) => {
-            const pkg = args[0]; if (!pkg) return ['Usage: npm <package-name>'];
-            const res = await fetch(`/api/npm/${pkg}`);
+            const pkg = args[0]; if (!pkg) return usage('npm');
+            const res = await request(`/api/npm/${pkg}`);
             if(!res.ok) return [`Package '${pkg}' not found.`];
             const data = await res.json() as NpmInfo;
             return [`Package: ${data.name}`, `Latest Version: ${data['dist-tags'].latest}`, `Description: ${data.description}`];
         },
         shorten: async(args) => {
-            const url = args[0]; if (!url) return ['Usage: shorten <url>'];
-            const res = await fetch(`/api/shorten`, { method: 'POST', body: JSON.stringify({ url }), headers: {'Content-Type': 'application/json'} });
+            const url = args[0]; if (!url) return usage('shorten');
+            const res = await request(`/api/shorten`, { method: 'POST', body: JSON.stringify({ url }), headers: { ...(await auth.getAuthHeader()), 'Content-Type': 'application/json' } });
             const data = await res.json() as ShortenResponse;
             return [data.short_url || data.error || 'Failed to shorten URL.'];
         },
         unshorten: async(args) => {
-            const url = args[0]; if (!url) return ['Usage: unshorten <short-url>'];
+            const url = args[0]; if (!url) return usage('unshorten');
             const key = url.split('/').pop(); if (!key) return ["Invalid short URL."];
-            const res = await fetch(`/api/unshorten/${key}`);
+            const res = await request(`/api/unshorten/${key}`, { headers: await auth.getAuthHeader() });
             const data = await res.json() as UnshortenResponse;
             return [data.long_url || data.error || 'Failed to resolve URL.'];
         },
         weather: async(args) => {
             const city = args.join(' ') || 'beijing';
-            const res = await fetch(`/api/weather/${city}`);
-            return ['<pre>' + await res.text() + '</pre>'];
+            const res = await request(`/api/weather/${city}`);
+            return [pre(await res.text())];
         },
         isdown: async (args) => {
-            const url = args[0]; if(!url) return ['Usage: isdown <url>'];
-            const res = await fetch(`/api/isdown?url=${encodeURIComponent(url)}`);
+            const url = args[0]; if(!url) return usage('isdown');
+            const res = await request(`/api/isdown?url=${encodeURIComponent(url)}`);
             const data = await res.json() as IsDownResponse;
             if (data.status_code === 1) return [`It's just you. ${url} is up.`];
             if (data.status_code === 2) return [`It's not just you! ${url} looks down from here.`];
@@ -356,16 +1028,18 @@ export const processCommand = async (
         },
         geoip: async(args) => {
             const ip = args[0] || '';
-            const res = await fetch(`/api/geoip?ip=${ip}`);
+            const res = await request(`/api/geoip?ip=${ip}`);
             const data = await res.json() as GeoIPResponse;
             return [`City: ${data.city}`, `Country: ${data.country}`, `Continent: ${data.continent}`];
         },
         
         // --- DEVELOPER & EFFICIENCY ---
         js: () => ({ special: 'js_repl' }),
-        jsonlint: (args) => {
-            try { return ['<pre>' + JSON.stringify(JSON.parse(args.join(' ')), null, 2) + '</pre>']; }
-            catch (e: any) { return [`JSON Error: ${e.message}`]; }
+        jsonlint: (args, _isSudo, stdin) => {
+            const json = args.length ? args.join(' ') : stdin;
+            if (!json) return usage('jsonlint');
+            try { return [pre(JSON.stringify(JSON.parse(json), null, 2))]; }
+            catch (e: any) { return fail(`JSON Error: ${e.message}`); }
         },
         uuid: () => [crypto.randomUUID()],
         password: (args) => {
@@ -375,7 +1049,7 @@ export const processCommand = async (
             return [retVal];
         },
         calc: (args) => {
-            const expr = args.join(''); if (!expr) return ["Usage: calc <expression>"];
+            const expr = args.join(''); if (!expr) return usage('calc');
             try {
                 const sanitizedExpr = expr.replace(/[^-()\d/*+.]/g, '');
                 if (sanitizedExpr !== expr) return ["Invalid characters in expression."];
@@ -383,62 +1057,143 @@ export const processCommand = async (
                 return [result.toString()];
             } catch (e) { return ["Invalid expression."]; }
         },
-        env: () => [`THEME=${localStorage.getItem('terminal-theme') || 'dracula'}`, `USER=${auth.user?.username || 'guest'}`, `ROLE=${auth.user?.role || 'guest'}`],
+        env: () => [
+            `HOME=~`, `PWD=${vfsContext.currentPath}`, `THEME=${localStorage.getItem('terminal-theme') || 'dracula'}`,
+            `USER=${auth.user?.username || 'guest'}`, `ROLE=${auth.user?.role || 'guest'}`,
+            ...shellEnv.list(true).map(([name, value]) => `${name}=${value}`),
+        ],
+        export: (args) => {
+            const save = args[0] === '-s';
+            const assignments = save ? args.slice(1) : args;
+            if (assignments.length === 0 || args[0] === '-p') return shellEnv.list(true).map(([name, value]) => `export ${name}=${quoteArg(value)}`);
+            if (save && !auth.user) return fail('export: permission denied. Log in to save variables to ~/.profile.');
+            const names: string[] = [];
+            for (const assignment of assignments) {
+                const eq = assignment.indexOf('=');
+                const name = eq === -1 ? assignment : assignment.substring(0, eq);
+                if (!shellEnv.isValidName(name)) return fail(`export: not an identifier: ${name}`);
+                shellEnv.set(name, eq === -1 ? (shellEnv.get(name) ?? '') : assignment.substring(eq + 1), true);
+                names.push(name);
+            }
+            if (save) updateDotfile(PROFILE_FILE, 'export', names.map(name => [name, shellEnv.get(name)]));
+            return [];
+        },
+        unset: (args) => {
+            const save = args[0] === '-s';
+            const names = save ? args.slice(1) : args;
+            if (names.length === 0) return usage('unset');
+            if (save && !auth.user) return fail('unset: permission denied. Log in to edit ~/.profile.');
+            names.forEach(name => shellEnv.unset(name));
+            if (save) updateDotfile(PROFILE_FILE, 'export', names.map(name => [name, undefined]));
+            return [];
+        },
+        set: (args) => {
+            if (args.length === 0) return shellEnv.list().map(([name, value]) => `${name}=${quoteArg(value)}`);
+            for (let i = 0; i < args.length; i++) {
+                const enable = args[i][0] === '-';
+                if (args[i] === '-e' || args[i] === '+e') shellEnv.options.errexit = enable;
+                else if ((args[i] === '-o' || args[i] === '+o') && args[i + 1] === 'errexit') { shellEnv.options.errexit = enable; i++; }
+                else return usage('set');
+            }
+            return [];
+        },
         which: (args) => {
-            const cmd = args[0]; if (!cmd) return ['Usage: which <command>'];
-            if (commands[cmd]) return [`${cmd}: shell built-in command`];
-            const aliases = JSON.parse(localStorage.getItem('aliases') || '{}');
-            if (aliases[cmd]) return [`${cmd}: aliased to '${aliases[cmd]}'`];
-            return [`${cmd} not found`];
+            const cmd = args[0]; if (!cmd) return usage('which');
+            if (shellEnv.aliases.has(cmd)) return [`${cmd}: aliased to '${shellEnv.aliases.get(cmd)}'`];
+            if (isBuiltinCommand(cmd)) return [`${cmd}: shell built-in command (${REGISTRY[cmd].category})`];
+            if (isCommand(cmd)) return [`${cmd}: provided by plugin '${pluginOf(cmd)}'`];
+            return fail(`${cmd} not found`);
         },
         alias: (args) => {
-            const aliases = JSON.parse(localStorage.getItem('aliases') || '{}');
-            const arg = args.join(' ');
-            if (!arg) return Object.entries(aliases).map(([key, value]) => `alias ${key}='${value}'`);
-            if (args[0] === '-c') { localStorage.setItem('aliases', '{}'); return ['All aliases cleared.']; }
-            const match = arg.match(/^([^=]+)='([^']*)'$/);
-            if (!match) return ["Usage: alias <name='command'> or alias -c to clear"];
-            const [, name, command] = match; aliases[name] = command;
-            localStorage.setItem('aliases', JSON.stringify(aliases)); return [];
+            const save = args[0] === '-s';
+            const arg = (save ? args.slice(1) : args).join(' ');
+            if (!arg) return [...shellEnv.aliases.entries()].map(([key, value]) => `alias ${key}=${quoteArg(value)}`);
+            if (args[0] === '-c') { shellEnv.aliases.clear(); return ['All aliases cleared.']; }
+            const match = arg.match(/^([^=\s]+)=(.+)$/);
+            if (!match) return usage('alias');
+            if (save && !auth.user) return fail('alias: permission denied. Log in to save aliases to ~/.zshrc.');
+            const [, name, command] = match; shellEnv.aliases.set(name, command);
+            if (save) updateDotfile(RC_FILE, 'alias', [[name, command]]);
+            return [];
+        },
+        unalias: (args) => {
+            if (!args[0]) return usage('unalias');
+            if (!shellEnv.aliases.delete(args[0])) return fail(`unalias: no such hash table element: ${args[0]}`);
+            return [];
         },
+        source: (args, _isSudo, _stdin, out) => sourceFile('source', args, false, out),
+        '.': (args, _isSudo, _stdin, out) => sourceFile('.', args, false, out),
+        sh: (args, _isSudo, _stdin, out) => sourceFile('sh', args, true, out),
+        test: (args) => testExpression(args),
+        '[': (args) => args[args.length - 1] === ']' ? testExpression(args.slice(0, -1)) : { text: ["[: missing `]'"], exitCode: 2 },
+        true: () => [],
+        false: () => ({ text: [], exitCode: 1 }),
         
         // --- SYSTEM SIM & UTILITY ---
-        ping: async (args) => {
+        ping: async (args, _isSudo, _stdin, out) => {
             const host = args[0] || '1.1.1.1';
-            const output = [`PING ${host} (${host}): 56 data bytes`];
+            out.writeLines([`PING ${host} (${host}): 56 data bytes`]);
             let received = 0;
             for (let i = 1; i <= 4; i++) {
-                await new Promise(resolve => setTimeout(resolve, 800));
+                await sleep(800, job.signal);
                 if (Math.random() > 0.1) {
                     received++;
                     const latency = (Math.random() * 40 + 10).toFixed(3);
-                    output.push(`64 bytes from ${host}: icmp_seq=${i} ttl=55 time=${latency} ms`);
+                    out.writeLines([`64 bytes from ${host}: icmp_seq=${i} ttl=55 time=${latency} ms`]);
                 }
             }
-            output.push('',`--- ${host} ping statistics ---`, `4 packets transmitted, ${received} packets received, ${((4 - received) / 4) * 100}% packet loss`);
-            return output;
+            return ['', `--- ${host} ping statistics ---`, `4 packets transmitted, ${received} packets received, ${((4 - received) / 4) * 100}% packet loss`];
+        },
+        ps: () => [
+            paint('  PID TTY          TIME CMD', 'cyan'),
+            ...processes().map(p => `${String(p.pid).padStart(5)} pts/0    ${formatElapsed(p.started)} ${p.command}`),
+        ],
+        top: () => {
+            const list = processes();
+            const background = list.filter(p => p.background).length;
+            return [
+                `top - ${new Date().toTimeString().substring(0, 8)}  Tasks: ${list.length} total, ${list.length - background} foreground, ${background} background`,
+                '',
+                paint('  PID USER      S     TIME+ COMMAND', 'cyan'),
+                ...list.map(p => `${String(p.pid).padStart(5)} ${p.user.padEnd(9)} ${p.background ? 'S' : 'R'} ${formatElapsed(p.started).padStart(9)} ${p.command}`),
+            ];
         },
-        top: async () => {
-            const processes = [
-                { pid: 1, user: 'root', cmd: 'systemd' }, { pid: 432, user: auth.user?.username || 'guest', cmd: 'zsh' },
-                { pid: 1024, user: auth.user?.username || 'guest', cmd: 'chrome --type=renderer' }, { pid: 1130, user: 'root', cmd: 'sshd' },
-                { pid: 9876, user: auth.user?.username || 'guest', cmd: 'top'},
-            ].map(p => ({
-                ...p, cpu: (Math.random() * (p.cmd === 'top' ? 5 : 2)).toFixed(1),
-                mem: (Math.random() * 2).toFixed(1), time: `${Math.floor(Math.random()*2)}:${(Math.random()*60).toFixed(2).padStart(5,'0')}`
-            })).sort((a,b) => Number(b.cpu) - Number(a.cpu));
-            const header = '<span style="color:var(--cyan);">  PID USER      %CPU %MEM     TIME+ COMMAND</span>';
-            const body = processes.map(p => `${String(p.pid).padStart(5)} ${p.user.padEnd(9)} ${p.cpu.padStart(4)} ${p.mem.padStart(4)} ${p.time.padStart(9)} ${p.cmd}`);
-            return [header, ...body];
+        jobs: (args) => {
+            if (args.some(arg => arg !== '-l')) return usage('jobs');
+            return jobTable.background().map(bg => formatJob(bg, 'running', args[0] === '-l'));
+        },
+        fg: async (args, _isSudo, _stdin, out) => {
+            const target = args[0] ? jobTable.find(args[0]) : jobTable.current();
+            if (!target?.background) return fail(args[0] ? `fg: ${args[0]}: no such job` : 'fg: no current job');
+            out.writeLines([formatJob(target, 'running')]);
+            // Ctrl+C now kills the job too; its output is printed as fg's own.
+            target.background = false;
+            return target.result;
+        },
+        kill: (args) => {
+            if (args.length === 0) return usage('kill');
+            const errors = args.flatMap(spec => {
+                if (spec === String(SHELL_PID)) return [`kill: kill ${spec} failed: operation not permitted`];
+                const target = jobTable.find(spec);
+                if (target && jobTable.kill(target)) return [];
+                return [spec.startsWith('%') ? `kill: ${spec}: no such job` : `kill: kill ${spec} failed: no such process`];
+            });
+            return errors.length ? fail(...errors) : [];
+        },
+        sleep: async (args) => {
+            const seconds = /^\d*\.?\d+$/.test(args[0] ?? '') ? parseFloat(args[0]) : parseDuration(args[0] ?? '');
+            if (seconds === null) return usage('sleep');
+            await sleep(seconds * 1000, job.signal);
+            return [];
         },
         netstat: async () => [
             'Active Internet connections (w/o servers)',
-            '<span style="color:var(--cyan);">Proto Recv-Q Send-Q Local Address           Foreign Address         State</span>',
+            paint('Proto Recv-Q Send-Q Local Address           Foreign Address         State', 'cyan'),
             `tcp        0      0 ${window.location.hostname}:https     worker.cloudflare.com:https ESTABLISHED`,
             `tcp        0      0 ${window.location.hostname}:https     api.bilibili.com:https      ESTABLISHED`,
             `tcp        0      0 ${window.location.hostname}:https     music.api.provider:https  TIME_WAIT`,
         ],
-        watch: async (args) => {
+        watch: async (args, _isSudo, _stdin, out) => {
             let intervalSeconds = 2; let count = Infinity; const commandToRunArgs: string[] = [];
             for (let i = 0; i < args.length; i++) {
                 if (args[i] === '-n') { intervalSeconds = parseFloat(args[++i]) || 2; }
@@ -446,45 +1201,54 @@ export const processCommand = async (
                 else { commandToRunArgs.push(args[i]); }
             }
             const commandToRun = commandToRunArgs.join(' ');
-            if (!commandToRun) return ['Usage: watch [-n seconds] [-c count] <command>'];
+            if (!commandToRun) return usage('watch');
             if (commandToRun.split(' ')[0] === 'watch') return ['watch: cannot watch "watch".'];
             
-            let executions = 0; let intervalId: number;
-            const execute = async () => {
-                terminalController.clearScreen();
+            // Runs until the count is reached or the job is killed. Background watchers don't clear the screen.
+            for (let executions = 0; executions < count; executions++) {
+                if (executions > 0) await sleep(intervalSeconds * 1000, job.signal);
+                if (out.tty && !job.background) terminalController.clearScreen();
                 const header = `Every ${intervalSeconds.toFixed(1)}s: ${commandToRun}     Count: ${executions+1}/${count === Infinity ? '∞' : count}     [${new Date().toLocaleString()}]`;
-                terminalController.pushToHistory([header, '']);
-                const fakeController = { clearScreen: () => {}, pushToHistory: () => {}, setActiveInterval: () => {}, setAudioSrc: () => {}, changeTheme: () => {} };
-                const result = await processCommand(commandToRun, auth, vfsContext, addToast, fakeController);
-                terminalController.pushToHistory(result.text.length > 0 ? result.text : ['(Command produced no output)']);
-            };
-            const runInterval = async () => {
-                executions++;
-                if (executions >= count) {
-                    clearInterval(intervalId);
-                    terminalController.setActiveInterval(null);
-                }
-                await execute();
-            };
-            await execute();
-            if (executions < count) {
-                intervalId = setInterval(runInterval, intervalSeconds * 1000);
-                terminalController.setActiveInterval(intervalId);
+                out.writeLines([header, '']);
+                const screen = createHeadlessController(terminalController.getVFS);
+                const result = await processCommand(commandToRun, auth, { ...vfsContext, vfs: terminalController.getVFS() }, addToast, screen, job);
+                const lines = [...screen.output, ...result.text];
+                out.writeLines(lines.length > 0 ? lines : ['(Command produced no output)']);
             }
             return [];
         },
         date: () => [new Date().toString()],
         clear: () => ({ special: 'clear' }),
-        history: () => ["Use up/down arrow keys to navigate command history. Use `alias` to create shortcuts."],
+        history: (args) => {
+            if (args[0] === '-c') {
+                shellHistory.clear();
+                if (auth.user) {
+                    const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+                    if (writeHistoryFile(newVfs, auth.user.username)) vfsContext.updateVFS(newVfs);
+                }
+                return [];
+            }
+            if (args[0] !== undefined && !/^\d+$/.test(args[0])) return usage('history');
+            const entries = shellHistory.entries();
+            const first = args[0] !== undefined ? Math.max(0, entries.length - parseInt(args[0], 10)) : 0;
+            return entries.slice(first).map((entry, i) => `${String(first + i + 1).padStart(5)}  ${entry}`);
+        },
         echo: (args) => [args.join(' ')],
         uname: () => ['WebApp 1.0.0 CloudflareOS x86_64 JavaScript/WASM'],
         reboot: () => window.location.reload(),
         theme: (args) => {
-            const theme = args[0]; if (!theme) return ['Usage: theme <dracula|gruvbox|solarized>'];
+            const theme = args[0]; if (!theme) return usage('theme');
             const validThemes = ['dracula', 'gruvbox', 'solarized'];
             if (validThemes.includes(theme)) { terminalController.changeTheme(theme); return [`Theme changed to ${theme}.`]; }
             return [`Theme '${theme}' not found.`];
         },
+        scrollback: (args) => {
+            if (args[0] === undefined) return [`scrollback: ${loadScrollbackLimit()} lines`];
+            const limit = /^\d+$/.test(args[0]) ? parseInt(args[0], 10) : NaN;
+            if (!(limit >= MIN_SCROLLBACK && limit <= MAX_SCROLLBACK)) return fail(`scrollback: ${args[0]}: must be between ${MIN_SCROLLBACK} and ${MAX_SCROLLBACK} lines`);
+            terminalController.setScrollback(limit);
+            return [`Keeping the last ${limit} lines of output.`];
+        },
 
         // --- FUN & PERSONAL ---
             about: () => [
@@ -499,75 +1263,410 @@ export const processCommand = async (
         ],
             contact: () => [
             'You can reach me via:',
-            '  Email:    <a href="mailto:chengze2012@gmail.com">chengze2012@gmail.com</a>',
-            '  GitHub:   <a href="https://github.com/wcz1459/" target="_blank">github.com/wcz1459/</a>',
+            [{ type: 'text', text: '  Email:    ' }, link('mailto:chengze2012@gmail.com', 'chengze2012@gmail.com')],
+            [{ type: 'text', text: '  GitHub:   ' }, link('https://github.com/wcz1459/', 'github.com/wcz1459/')],
         ],
         socials: () => [
             'Here are my social links:',
-            '  Wechat: <a href="https://u.wechat.com/EHDNXmesHNn7kNBPKzsGlMo?s=2" target="_blank">https://u.wechat.com/EHDNXmesHNn7kNBPKzsGlMo</a>',
-            '  Bilibili: <a href="https://space.bilibili.com/504202744" target="_blank">space.bilibili.com/504202744</a>',
-        ],
-        repo: () => [`window.open("https://github.com/wcz1459/personal-terminal-website", "_blank");`],
-        neofetch: () => [
-            '<pre style="color:var(--cyan);">',
-            '      .--.         ',
-            '     |o_o |        <span style="color:var(--text-color);"><b>' + (auth.user?.username || 'guest') + '@codex.me</b></span>',
-            '     |:_/ |        ',
-            '    //   \\ \\       <span style="color:var(--text-color);">OS: LinkiumOS For Web x86_64</span>',
-            '   (|     | )      <span style="color:var(--text-color);">Host: Linkium Workspace</span>',
-            '  /`\\_   _/`\\      <span style="color:var(--text-color);">Kernel: D1/KV/R2</span>',
-            '  \\___)=(___/      <span style="color:var(--text-color);">Shell: web-zsh 1.0</span>',
-            '                   <span style="color:var(--text-color);">Theme: ' + (localStorage.getItem('terminal-theme') || 'dracula') + '</span>',
-            '</pre>',
+            [{ type: 'text', text: '  Wechat: ' }, link('https://u.wechat.com/EHDNXmesHNn7kNBPKzsGlMo?s=2', 'https://u.wechat.com/EHDNXmesHNn7kNBPKzsGlMo')],
+            [{ type: 'text', text: '  Bilibili: ' }, link('https://space.bilibili.com/504202744', 'space.bilibili.com/504202744')],
         ],
+        repo: () => [openUrl('https://github.com/wcz1459/personal-terminal-website')],
+        neofetch: () => [pre([
+            ['      .--.         ', ''],
+            ['     |o_o |        ', bold(`${auth.user?.username || 'guest'}@codex.me`)],
+            ['     |:_/ |        ', ''],
+            ['    //   \\ \\       ', 'OS: LinkiumOS For Web x86_64'],
+            ['   (|     | )      ', 'Host: Linkium Workspace'],
+            ['  /`\\_   _/`\\      ', 'Kernel: D1/KV/R2'],
+            ['  \\___)=(___/      ', 'Shell: web-zsh 1.0'],
+            ['                   ', `Theme: ${localStorage.getItem('terminal-theme') || 'dracula'}`],
+        ].map(([art, info]) => paint(art, 'cyan') + info).join('\n'))],
         cowsay: (args) => {
             const text = args.join(' ') || "Moo!";
-            return ['<pre>' + ` ${'_'.repeat(text.length + 2)} `, `&lt; ${text} &gt;`, ` ${'-'.repeat(text.length + 2)} `, `        \\   ^__^`, `         \\  (oo)\\_______`, `            (__)\\       )\\/\\`, `                ||----w |`, `                ||     ||` + '</pre>'];
+            return [pre([` ${'_'.repeat(text.length + 2)} `, `< ${text} >`, ` ${'-'.repeat(text.length + 2)} `, `        \\   ^__^`, `         \\  (oo)\\_______`, `            (__)\\       )\\/\\`, `                ||----w |`, `                ||     ||`].join('\n'))];
         },
-        sl: () => { return commands.cowsay(['All aboard the typo train! Choo choo!'], false); },
-        hitokoto: async () => { const res = await fetch('/api/hitokoto'); const data = await res.json() as HitokotoResponse; return [`${data.hitokoto}  -- ${data.from}`]; },
-        rickroll: () => [`window.open("https://www.bilibili.com/video/BV1GJ411x7h7", "_blank");`],
+        sl: (_args, _isSudo, stdin, out) => { return commands.cowsay(['All aboard the typo train! Choo choo!'], false, stdin, out); },
+        hitokoto: async () => { const res = await request('/api/hitokoto'); const data = await res.json() as HitokotoResponse; return [`${data.hitokoto}  -- ${data.from}`]; },
+        rickroll: () => [openUrl('https://www.bilibili.com/video/BV1GJ411x7h7')],
         figlet: async (args) => {
-            const text = args.join(' '); if (!text) return ['Usage: figlet <text>'];
+            const text = args.join(' '); if (!text) return usage('figlet');
             return new Promise(resolve => {
                 figlet(text, (err, data) => {
                     if (err || !data) resolve(['Figlet error.']);
-                    else resolve(['<pre>' + data + '</pre>']);
+                    else resolve([pre(data)]);
                 });
             });
         },
         fortune: () => { const fortunes = ["Your lucky number is 7.", "You will meet a tall, dark stranger.", "Error 404: Fortune not found."]; return [fortunes[Math.floor(Math.random() * fortunes.length)]]; },
         hollywood: () => ({ special: 'hollywood' }),
         devjoke: async() => {
-            const res = await fetch('/api/devjoke'); const data = await res.json() as DevJoke;
+            const res = await request('/api/devjoke'); const data = await res.json() as DevJoke;
             return [data.setup, `=> ${data.punchline}`];
         },
-        banner: () => { terminalController.pushToHistory(bootSequence.map(l => l.text)); return []; },
-        help: () => [
-            '<span style="color:var(--yellow);">Available Command Categories:</span>',
-            '  `user`      - User and authentication commands (login, logout, whoami...)',
-            '  `fs`        - File system operations (ls, cat, cd, mkdir...)',
-            '  `text`      - Text processing and encoding (grep, wc, base64, hash...)',
-            '  `net`       - Network and API tools (ping, curl, dig, github...)',
-            '  `dev`       - Developer and efficiency tools (js, jsonlint, uuid, alias...)',
-            '  `fun`       - Fun and entertainment (music, video, cowsay, figlet...)',
-            '  `sys`       - System info and utilities (theme, date, reboot, help...)',
-            'Type `help <category>` for more details. Example: `help fs`'
-        ],
+        banner: (_args, _isSudo, _stdin, out) => { out.writeLines(bootSequence.map(l => l.text)); return []; },
+        help: (args) => {
+            const topic = args[0];
+            if (!topic) return helpOverview();
+            if (Object.prototype.hasOwnProperty.call(CATEGORIES, topic)) return helpCategory(topic as CommandCategory);
+            const meta = commandMeta(topic);
+            if (meta) return [`Usage: ${meta.usage}`, `  ${meta.description}`];
+            return fail(`help: no help topics match '${topic}'. Try \`help\` or \`apropos ${topic}\`.`);
+        },
+        man: (args) => {
+            if (!args[0]) return usage('man');
+            if (!isCommand(args[0])) return fail(`No manual entry for ${args[0]}`);
+            return manPage(args[0]);
+        },
+        plugin: async (args) => {
+            const [sub, target] = args;
+            if (!sub || sub === 'ls') {
+                const plugins = listPlugins();
+                if (plugins.length === 0) return ['No plugins installed.'];
+                return [table(['NAME', 'VERSION', 'STATUS', 'SOURCE', 'COMMANDS'], plugins.map(plugin => [
+                    plugin.name, plugin.version, plugin.error ? paint('failed', 'red') : plugin.enabled ? 'enabled' : 'disabled', plugin.source,
+                    plugin.commands.join(', ') + (plugin.error ? `  ${paint(`(${plugin.error})`, 'red')}` : ''),
+                ]))];
+            }
+            if (sub === 'enable' || sub === 'disable') {
+                if (!target) return usage('plugin');
+                const error = await setPluginEnabled(target, sub === 'enable');
+                return error ? fail(`plugin: ${error}`) : [`Plugin '${target}' ${sub}d.`];
+            }
+            if (sub === 'load') {
+                if (!target) return usage('plugin');
+                const code = readInput('plugin', target, undefined, usageOf('plugin'));
+                if (typeof code !== 'string') return code;
+                try { return [`Plugin '${await loadPluginModule(code, resolvePath(target, vfsContext.currentPath))}' loaded.`]; }
+                catch (e: any) { return fail(`plugin: ${target}: ${e.message}`); }
+            }
+            return usage('plugin');
+        },
+        apropos: (args) => {
+            if (!args[0]) return usage('apropos');
+            const matches = apropos(args.join(' '));
+            return matches.length ? matches : fail(`${args.join(' ')}: nothing appropriate.`);
+        },
     };
     
-    // Command execution logic
-    const commandFunc = commands[cmd.toLowerCase()];
-    if (commandFunc) {
+    // Built-ins and the commands of enabled plugins.
+    const isCommand = (name: string) => commandMeta(name) !== undefined;
+
+    // The registry's role and permission requirements are checked here for every command, including
+    // those run through sudo.
+    const runCommand = (name: string, args: string[], isSudo: boolean, stdin: string | undefined, out: OutputStream) => {
+        const meta = commandMeta(name)!;
+        if (meta.role === 'admin' && !isSudo) return fail(`${name}: permission denied (try 'sudo ${name}')`);
+        if (meta.role === 'user' && !auth.user) return fail(`${name}: permission denied. Please log in first.`);
+        if (meta.permission && !can(meta.permission)) return fail(`${name}: permission denied (requires the '${meta.permission}' permission)`);
+        if (isBuiltinCommand(name)) return commands[name](args, isSudo, stdin, out);
+        return runPluginCommand(name, args, pluginContext(isSudo, stdin, out));
+    };
+
+    // The narrow API plugin commands get instead of the shell's internals. File access is checked
+    // against the mode bits like any other command.
+    const pluginContext = (isSudo: boolean, stdin: string | undefined, out: OutputStream): PluginContext => ({
+        user: auth.user ? { username: auth.user.username, role: auth.user.role, permissions: [...auth.user.permissions] } : null,
+        isSudo, stdin,
+        signal: job.signal,
+        cwd: vfsContext.currentPath,
+        authHeader: () => auth.getAuthHeader(),
+        vfs: {
+            read: (path) => {
+                const node = getObjectByPath(vfsContext.vfs, resolvePath(path, vfsContext.currentPath));
+                return auth.user && isFile(node) && !node.blob && allowed(node, 'r', isSudo) ? node.content : null;
+            },
+            write: (path, content) => {
+                if (!auth.user) return false;
+                const fullPath = resolvePath(path, vfsContext.currentPath);
+                const node = getObjectByPath(vfsContext.vfs, fullPath);
+                if (isDir(node) || (node ? !allowed(node, 'w', isSudo) : !parentWritable(fullPath, isSudo))) return false;
+                const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+                if (!writeFile(newVfs, fullPath, String(content), auth.user.username)) return false;
+                vfsContext.updateVFS(newVfs);
+                return true;
+            },
+            list: (path) => {
+                const node = getObjectByPath(vfsContext.vfs, resolvePath(path, vfsContext.currentPath));
+                if (!auth.user || !isDir(node) || !allowed(node, 'r', isSudo)) return null;
+                return Object.entries(node.children).map(([name, child]) => isDir(child) ? `${name}/` : name);
+            },
+        },
+        terminal: {
+            print: (lines) => out.writeLines(lines.map(String)),
+            clear: () => terminalController.clearScreen(),
+        },
+        toast: addToast,
+    });
+
+    // --- Output Streams ---
+    // Results of terminal-bound command lists that haven't been printed yet, outermost first. They are
+    // printed before anything streams to the terminal, so output keeps the order of the command line.
+    const pendingResults: CommandResult[] = [];
+    const printLive = (lines: OutputLine[]) => {
+        pendingResults.forEach(pending => { if (pending.text.length > 0) terminalController.pushToHistory(pending.text.splice(0)); });
+        terminalController.pushToHistory(lines);
+    };
+
+    // The stream a command writes to. Output that doesn't go to the terminal is collected into `collected`.
+    const createOutput = (tty: boolean, collected: OutputLine[]): OutputStream & { close: () => void } => {
+        let partial = '';     // The unfinished last line
+        let shown = false;    // Whether `partial` is on screen as the last line
+        const stream = {
+            tty,
+            write: (text: string) => {
+                const lines = (partial + text).split('\n');
+                partial = lines.pop()!;
+                if (!tty) { collected.push(...lines); return; }
+                if (shown) {
+                    if (lines.length === 0) { terminalController.updateLastLine(partial); return; }
+                    terminalController.updateLastLine(lines.shift()!);
+                }
+                shown = partial !== '';
+                const print = shown ? [...lines, partial] : lines;
+                if (print.length > 0) printLive(print);
+            },
+            // Segment lines end an unfinished line and are passed on as they are.
+            writeLines: (lines: OutputLine[]) => lines.forEach(line => {
+                if (typeof line === 'string') { stream.write(`${line}\n`); return; }
+                if (partial) stream.write('\n');
+                if (tty) printLive([line]); else collected.push(line);
+            }),
+            // Ends an unfinished line once the command returns.
+            close: () => {
+                if (!tty && partial) collected.push(partial);
+                partial = '';
+                shown = false;
+            },
+        };
+        return stream;
+    };
+
+    const normalize = (result: CommandOutput): CommandResult => {
+        if (!result) return { text: [], exitCode: 0 };
+        if (Array.isArray(result)) return { text: result, exitCode: 0 };
+        return { text: result.text ?? [], exitCode: result.exitCode ?? 0, special: result.special, file: result.file };
+    };
+
+    const expansions: Expansions = {
+        substitute: async (command) => toText((await runList(parseCommandLine(command))).text),
+        lookup: (name) => {
+            switch (name) {
+                case '?': return String(shellEnv.lastExitCode);
+                case '#': return String(Math.max(shellEnv.positional.length - 1, 0));
+                case '@': return shellEnv.positional.slice(1).join(' ');
+                case 'PWD': return vfsContext.currentPath;
+                case 'HOME': return '~';
+                case 'USER': return auth.user?.username || 'guest';
+                case 'ROLE': return auth.user?.role || 'guest';
+                case 'THEME': return localStorage.getItem('terminal-theme') || 'dracula';
+                default: return /^\d$/.test(name) ? shellEnv.positional[Number(name)] : shellEnv.get(name);
+            }
+        },
+    };
+    const isAssignment = (word: Word) => word[0]?.type === 'text' && !word[0].quoted && /^[A-Za-z_][A-Za-z0-9_]*=/.test(word[0].value);
+
+    const runSimple = async (command: SimpleCommand, stdin: string | undefined, expandedAliases: string[], tty: boolean): Promise<CommandResult> => {
+        // A killed job runs nothing more: not the rest of the line, a pipeline or a script.
+        if (job.signal.aborted) throw job.signal.reason;
+        // `NAME=value` on its own sets a shell variable; the value is never split into fields.
+        if (command.words.length > 0 && command.words.every(isAssignment)) {
+            for (const word of command.words) {
+                const assignment = (await expandWord(word, expansions)).join(' ');
+                const eq = assignment.indexOf('=');
+                shellEnv.set(assignment.substring(0, eq), assignment.substring(eq + 1));
+            }
+            return { text: [], exitCode: 0 };
+        }
+
+        const argv: string[] = [];
+        for (const word of command.words) argv.push(...await expandWord(word, expansions));
+
+        let output: { op: '>' | '>>'; path: string; name: string } | null = null;
+        for (const redirect of command.redirects) {
+            const [target] = await expandWord(redirect.target, expansions);
+            if (!target) return fail('zsh: ambiguous redirect');
+            const path = resolvePath(target, vfsContext.currentPath);
+            if (redirect.op === '<') {
+                const node = getObjectByPath(vfsContext.vfs, path);
+                if (!isFile(node)) return fail(`zsh: no such file or directory: ${target}`);
+                if (!allowed(node, 'r')) return fail(`zsh: permission denied: ${target}`);
+                if (node.blob) return fail(`zsh: cannot redirect from a binary file: ${target}`);
+                stdin = node.content;
+            } else {
+                if (!auth.user) return fail('zsh: permission denied. Please log in to write files.');
+                const node = getObjectByPath(vfsContext.vfs, path);
+                if (isDir(node)) return fail(`zsh: is a directory: ${target}`);
+                // Redirections are performed by the shell itself, so `sudo` does not apply to them.
+                if (node ? !allowed(node, 'w') : !parentWritable(path)) return fail(`zsh: permission denied: ${target}`);
+                output = { op: redirect.op, path, name: target };
+            }
+        }
+
+        let result: CommandResult;
+        const [cmd, ...args] = argv;
+        if (!cmd) {
+            result = { text: [], exitCode: 0 };
+        } else if (shellEnv.aliases.has(cmd) && !expandedAliases.includes(cmd)) {
+            const aliasLine = [shellEnv.aliases.get(cmd), ...args.map(quoteArg)].join(' ');
+            const aliasList = parseCommandLine(aliasLine);
+            result = await runList(aliasList, stdin, [...expandedAliases, cmd], tty && !output);
+        } else if (isCommand(cmd.toLowerCase())) {
+            try {
+                const collected: OutputLine[] = [];
+                const out = createOutput(tty && !output, collected);
+                result = normalize(await runCommand(cmd.toLowerCase(), args, false, stdin, out));
+                out.close();
+                result.text = [...collected, ...result.text];
+            } catch (e: any) {
+                if (job.signal.aborted) throw e;
+                result = fail(`Error: ${e.message}`);
+            }
+        } else {
+            result = { text: [`zsh: command not found: ${cmd}`], exitCode: 127 };
+        }
+
+        if (output) {
+            const text = toText(result.text);
+            const existing = getObjectByPath(vfsContext.vfs, output.path);
+            const content = output.op === '>>' && isFile(existing) && existing.content ? `${existing.content}\n${text}` : text;
+            const newVfs = JSON.parse(JSON.stringify(vfsContext.vfs));
+            if (!writeFile(newVfs, output.path, content, owner())) return fail(`zsh: no such file or directory: ${output.name}`);
+            vfsContext.updateVFS(newVfs);
+            return { ...result, text: [] };
+        }
+        return result;
+    };
+
+    // Only the last command of a pipeline can write to the terminal.
+    const runPipeline = async (pipeline: Pipeline, stdin: string | undefined, expandedAliases: string[], tty: boolean): Promise<CommandResult> => {
+        let result: CommandResult = { text: [], exitCode: 0 };
+        for (let i = 0; i < pipeline.commands.length; i++) {
+            const input = i === 0 ? stdin : toText(result.text);
+            result = await runSimple(pipeline.commands[i], input, expandedAliases, tty && i === pipeline.commands.length - 1);
+        }
+        return result;
+    };
+
+    async function runList(list: CommandList, stdin?: string, expandedAliases: string[] = [], tty = false): Promise<CommandResult> {
+        const output: CommandResult = { text: [], exitCode: 0 };
+        if (tty) pendingResults.push(output);
+        try {
+            for (const andOr of list) {
+                if (andOr.background) { appendResult(output, startBackgroundJob(andOr.source)); continue; }
+                appendResult(output, await runPipeline(andOr.first, stdin, expandedAliases, tty));
+                for (const { op, pipeline } of andOr.rest) {
+                    if ((op === '&&') === (output.exitCode === 0)) appendResult(output, await runPipeline(pipeline, stdin, expandedAliases, tty));
+                }
+            }
+        } finally {
+            if (tty) pendingResults.pop();
+        }
+        return output;
+    }
+
+    // `cmd &` runs as a job of its own and reports how it ended once it finishes, unless `fg` took it over.
+    // The job gets its own working directory, so a `cd` in it leaves the prompt alone.
+    function startBackgroundJob(source: string): CommandResult {
+        const jobContext: VfsContext = { ...vfsContext, setCurrentPath: () => {} };
+        const background = jobTable.spawn(source, auth.user?.username || 'guest', true, backgroundJob =>
+            processCommand(source, auth, jobContext, addToast, terminalController, backgroundJob));
+        background.result.then(result => {
+            if (background.background) terminalController.pushToHistory([...result.text, formatJob(background, exitStatus(background, result))]);
+        });
+        return { text: [`[${background.id}] ${background.pid}`], exitCode: 0 };
+    }
+
+    // `source` runs a script in the current shell; `sh` restores variables, aliases and cwd afterwards.
+    let scriptDepth = 0;
+    async function sourceFile(name: 'source' | '.' | 'sh', args: string[], isolated: boolean, out: OutputStream): Promise<CommandResult> {
+        if (!args[0]) return usage(name);
+        const node = getObjectByPath(vfsContext.vfs, resolvePath(args[0], vfsContext.currentPath));
+        if (!isFile(node)) return fail(`${name}: no such file or directory: ${args[0]}`);
+        if (!allowed(node, 'r')) return fail(`${name}: permission denied: ${args[0]}`);
+        if (node.blob) return fail(`${name}: cannot execute binary file: ${args[0]}`);
+        const content = node.content;
+        if (scriptDepth >= MAX_SCRIPT_DEPTH) return fail(`${name}: maximum nesting depth exceeded`);
+
+        const output: CommandResult = { text: [], exitCode: 0 };
+        const snapshot = isolated ? shellEnv.snapshot() : null;
+        const savedPath = vfsContext.currentPath;
+        const savedPositional = shellEnv.positional;
+        shellEnv.positional = args;
+        scriptDepth++;
         try {
-            const result = await commandFunc(args, false); 
-            if (result && result.special) return { text: [], special: result.special };
-            if (result === undefined || result === null) return { text: [] };
-            return { text: Array.isArray(result) ? result : [String(result)] };
-        } catch (e: any) {
-            console.error(e); return { text: [`Error: ${e.message}`] };
+            output.exitCode = await runScript(content, {
+                execute: async (line) => {
+                    const result = await runList(parseCommandLine(line), undefined, [], out.tty);
+                    appendResult(output, result);
+                    return result.exitCode;
+                },
+                expand: async (words) => {
+                    const fields: string[] = [];
+                    for (const token of tokenize(words)) {
+                        if (token.type === 'word') fields.push(...await expandWord(token.word, expansions));
+                    }
+                    return fields;
+                },
+                setVariable: (variable, value) => shellEnv.set(variable, value),
+                errexit: () => shellEnv.options.errexit,
+            });
+        } catch (e) {
+            if (!(e instanceof ShellSyntaxError)) throw e;
+            output.text.push(`${name}: ${args[0]}: ${e.message}`);
+            output.exitCode = 2;
+        } finally {
+            scriptDepth--;
+            shellEnv.positional = savedPositional;
+            if (snapshot) {
+                shellEnv.restore(snapshot);
+                if (vfsContext.currentPath !== savedPath) vfsContext.setCurrentPath(savedPath);
+            }
+        }
+        return output;
+    }
+
+    // Evaluates `test` / `[ ... ]` expressions: file checks, string checks and integer comparisons.
+    function testExpression(args: string[]): CommandResult {
+        const result = (ok: boolean) => ({ text: [], exitCode: ok ? 0 : 1 });
+        if (args[0] === '!') { const inner = testExpression(args.slice(1)); return inner.exitCode > 1 ? inner : result(inner.exitCode === 1); }
+        if (args.length === 0) return result(false);
+        if (args.length === 1) return result(args[0] !== '');
+        if (args.length === 2) {
+            const [op, operand] = args;
+            const node = getObjectByPath(vfsContext.vfs, resolvePath(operand, vfsContext.currentPath));
+            switch (op) {
+                case '-e': return result(node !== undefined);
+                case '-f': return result(isFile(node));
+                case '-d': return result(isDir(node));
+                case '-r': case '-w': case '-x': return result(node !== undefined && allowed(node, op[1] as Access));
+                case '-z': return result(operand === '');
+                case '-n': return result(operand !== '');
+            }
+        }
+        if (args.length === 3) {
+            const [left, op, right] = args;
+            const a = Number(left), b = Number(right);
+            switch (op) {
+                case '=': case '==': return result(left === right);
+                case '!=': return result(left !== right);
+                case '-eq': return result(a === b);
+                case '-ne': return result(a !== b);
+                case '-lt': return result(a < b);
+                case '-le': return result(a <= b);
+                case '-gt': return result(a > b);
+                case '-ge': return result(a >= b);
+            }
         }
-    } else {
-        return { text: [`zsh: command not found: ${cmd}`] };
+        return { text: [`test: unknown condition: ${args.join(' ')}`], exitCode: 2 };
+    }
+
+    try {
+        return await runList(commandList, undefined, [], true);
+    } catch (e: any) {
+        if (job.signal.aborted) return { text: [], exitCode: INTERRUPTED_EXIT_CODE };
+        if (e instanceof ShellSyntaxError) return { text: [`zsh: ${e.message}`], exitCode: 2 };
+        return { text: [`Error: ${e.message}`], exitCode: 1 };
     }
 };
+
@@ -0,0 +1,240 @@
+import { paint } from './output';
+import { PERMISSIONS, Permission } from './permissions';
+
+// --- Command Registry ---
+// Every built-in command declares its metadata here and plugins add theirs through registerCommand.
+// `help`, `man`, `apropos`, `which`, tab completion and the permission check before a command runs
+// are all generated from this table, so a command's usage string and its access rules are written
+// down exactly once.
+export type CommandCategory = 'user' | 'fs' | 'text' | 'net' | 'dev' | 'fun' | 'sys';
+
+// What the operands of a command are, for tab completion. Paths are the default.
+export type ArgKind = 'path' | 'dir' | 'user' | 'command' | 'none';
+
+// `user`: needs a logged-in account. `admin`: must be run through `sudo` (which needs the `sudo` permission).
+export type CommandRole = 'user' | 'admin';
+
+export interface CommandMeta {
+    category: CommandCategory;
+    usage: string;                        // Synopsis without the leading `Usage: `
+    description: string;
+    flags?: { [flag: string]: string };   // Flag -> what it does
+    subcommands?: string[];
+    args?: ArgKind;
+    role?: CommandRole;
+    permission?: Permission;              // Checked against the user's permissions before the command runs
+}
+
+export const CATEGORIES: { [category in CommandCategory]: string } = {
+    user: 'User and authentication commands',
+    fs: 'File system operations',
+    text: 'Text processing and encoding',
+    net: 'Network and API tools',
+    dev: 'Developer and efficiency tools',
+    fun: 'Fun and entertainment',
+    sys: 'System info and utilities',
+};
+
+export const REGISTRY = {
+    // --- AUTH & USER ---
+    login: { category: 'user', usage: 'login <username>', description: 'Log in to your account.', args: 'user' },
+    register: { category: 'user', usage: 'register <invite-code> <username>', description: 'Create a guest account with an invite code. Asks for the password.', args: 'none' },
+    logout: { category: 'user', usage: 'logout [--all]', description: 'Log out of the current session.', flags: { '--all': 'also end your sessions on every other device' }, args: 'none' },
+    sessions: { category: 'user', usage: 'sessions [ls] | sessions rm <id> | sudo sessions revoke <user>', description: 'List the devices you are signed in on, or sign one out.', subcommands: ['ls', 'rm', 'revoke'], args: 'user', role: 'user' },
+    whoami: { category: 'user', usage: 'whoami', description: 'Print the current user name.', args: 'none' },
+    id: { category: 'user', usage: 'id', description: 'Print your user id, role and permissions.', args: 'none', role: 'user' },
+    groups: { category: 'user', usage: 'groups', description: 'Show your role and what each of its permissions allows.', args: 'none', role: 'user' },
+    passwd: { category: 'user', usage: 'passwd (or sudo passwd <user>)', description: 'Change your password, or another user\'s with sudo. Asks for the new password.', args: 'user', role: 'user' },
+    useradd: { category: 'user', usage: 'sudo useradd <username> <role>', description: 'Create a user account. Asks for its password.', args: 'none', role: 'admin', permission: 'users.manage' },
+    userdel: { category: 'user', usage: 'sudo userdel <username>', description: 'Delete a user account with its files and links.', args: 'user', role: 'admin', permission: 'users.manage' },
+    usermod: { category: 'user', usage: 'sudo usermod [-r role] [-L|-U] <username>', description: 'Change the role of an account, or lock and unlock it.', flags: { '-r': 'set the role, e.g. admin or guest', '-L': 'lock the account and sign it out everywhere', '-U': 'unlock the account' }, args: 'user', role: 'admin', permission: 'users.manage' },
+    users: { category: 'user', usage: 'sudo users', description: 'List user accounts with their role, status and last login.', args: 'none', role: 'admin', permission: 'users.manage' },
+    invite: { category: 'user', usage: 'sudo invite [--uses n] [--ttl 7d] | sudo invite ls | sudo invite rm <code>', description: 'Create, list or revoke invite codes for `register`.', subcommands: ['ls', 'rm'], flags: { '--uses': 'how many accounts the code can create', '--ttl': 'code lifetime, e.g. 12h, 7d' }, args: 'none', role: 'admin', permission: 'users.manage' },
+    '2fa': { category: 'user', usage: '2fa [status] | 2fa enable | 2fa verify <code> | 2fa disable <code>', description: 'Set up two-factor authentication with an authenticator app.', subcommands: ['status', 'enable', 'verify', 'disable'], args: 'none', role: 'user' },
+    last: { category: 'user', usage: 'last [-n count] [user]', description: 'Show recent logins (all users\' for admins).', flags: { '-n': 'show at most this many logins' }, args: 'user', role: 'user' },
+    lastlog: { category: 'user', usage: 'lastlog [-u user]', description: 'Show the most recent login of each user.', flags: { '-u': 'only show this user' }, args: 'user', role: 'user' },
+    audit: { category: 'user', usage: 'sudo audit [--user name] [--since 7d|date] [-n count]', description: 'Browse the security audit log.', flags: { '--user': 'events done by or to this user', '--since': 'events after a time ago (30m, 7d) or a date', '-n': 'show at most this many events' }, args: 'none', role: 'admin', permission: 'audit.read' },
+    sudo: { category: 'user', usage: 'sudo <command> [args...]', description: 'Run a command as root (needs the sudo permission).', args: 'command', role: 'user' },
+
+    // --- VFS ---
+    ls: { category: 'fs', usage: 'ls [-l] [-a] [path]', description: 'List directory contents.', flags: { '-l': 'use a long listing format', '-a': 'include entries starting with .' }, role: 'user' },
+    cat: { category: 'fs', usage: 'cat <file>', description: 'Print a file, or standard input.' },
+    cd: { category: 'fs', usage: 'cd [directory]', description: 'Change the working directory.', args: 'dir', role: 'user' },
+    pwd: { category: 'fs', usage: 'pwd', description: 'Print the working directory.', args: 'none' },
+    mkdir: { category: 'fs', usage: 'mkdir <directory_name>', description: 'Create a directory.', args: 'dir', role: 'user', permission: 'vfs.write' },
+    touch: { category: 'fs', usage: 'touch <file_name>', description: 'Create an empty file or update its modification time.', role: 'user', permission: 'vfs.write' },
+    rm: { category: 'fs', usage: 'rm [-r] <file_or_directory>', description: 'Remove files or directories.', flags: { '-r': 'remove directories and their contents' }, role: 'user', permission: 'vfs.write' },
+    chmod: { category: 'fs', usage: 'chmod [-R] <mode> <file>', description: 'Change file mode bits (octal or symbolic).', flags: { '-R': 'change files and directories recursively' }, role: 'user', permission: 'vfs.write' },
+    chown: { category: 'fs', usage: 'sudo chown [-R] <user> <file>', description: 'Change the owner of a file.', flags: { '-R': 'change files and directories recursively' }, args: 'user', role: 'user', permission: 'vfs.write' },
+    tree: { category: 'fs', usage: 'tree', description: 'Show the working directory as a tree.', args: 'none', role: 'user' },
+    cp: { category: 'fs', usage: 'cp [-r] <source> <destination>', description: 'Copy files and directories.', flags: { '-r': 'copy directories recursively' }, role: 'user', permission: 'vfs.write' },
+    mv: { category: 'fs', usage: 'mv <source> <destination>', description: 'Move or rename files.', role: 'user', permission: 'vfs.write' },
+    find: { category: 'fs', usage: 'find [path] [-name pattern] [-type f|d]', description: 'Search for files in a directory hierarchy.', flags: { '-name': 'match the base name against a glob', '-type': 'only files (f) or directories (d)' }, role: 'user' },
+    stat: { category: 'fs', usage: 'stat <file>', description: 'Display file status.', role: 'user' },
+    du: { category: 'fs', usage: 'du [-s] [-h] [path]', description: 'Estimate file space usage.', flags: { '-s': 'display only a total for each argument', '-h': 'print sizes in human readable format' }, role: 'user' },
+    nano: { category: 'fs', usage: 'nano <file>', description: 'Edit a file.', role: 'user' },
+    vi: { category: 'fs', usage: 'vi <file>', description: 'Edit a file (same as nano).', role: 'user' },
+    vim: { category: 'fs', usage: 'vim <file>', description: 'Edit a file (same as nano).', role: 'user' },
+    upload: { category: 'fs', usage: 'upload [directory]', description: 'Upload files from your computer.', args: 'dir', role: 'user', permission: 'files.upload' },
+    download: { category: 'fs', usage: 'download <file>', description: 'Save a file to your computer.', role: 'user' },
+    quota: { category: 'fs', usage: 'quota', description: 'Show cloud storage usage.', args: 'none', role: 'user' },
+    share: { category: 'fs', usage: 'share <path> [--ttl 7d] [--password secret] | share ls | share rm <id>', description: 'Create, list or revoke public links to files.', subcommands: ['ls', 'rm'], flags: { '--ttl': 'link lifetime, e.g. 30m, 12h, 7d', '--password': 'require a password to open the link' }, role: 'user', permission: 'share.create' },
+
+    // --- TEXT & ENCODING UTILITIES ---
+    grep: { category: 'text', usage: 'grep <pattern> [file]', description: 'Print lines matching a regular expression.' },
+    wc: { category: 'text', usage: 'wc [file]', description: 'Count lines, words and characters.' },
+    tail: { category: 'text', usage: 'tail [-n lines] [-f] [file]', description: 'Print the last lines of a file.', flags: { '-n': 'number of lines to print', '-f': 'keep printing lines as the file grows' } },
+    head: { category: 'text', usage: 'head [-n lines] [file]', description: 'Print the first lines of a file.', flags: { '-n': 'number of lines to print' } },
+    sort: { category: 'text', usage: 'sort [-r] [-n] [-u] [file]', description: 'Sort lines of text.', flags: { '-r': 'reverse the result', '-n': 'compare numerically', '-u': 'drop duplicate lines' } },
+    uniq: { category: 'text', usage: 'uniq [-c] [-d] [-u] [file]', description: 'Collapse repeated adjacent lines.', flags: { '-c': 'prefix lines with their count', '-d': 'only print duplicated lines', '-u': 'only print unique lines' } },
+    diff: { category: 'text', usage: 'diff <file1> <file2>', description: 'Compare two files line by line.' },
+    base64: { category: 'text', usage: 'base64 <encode|decode> [text]', description: 'Base64 encode or decode text.', subcommands: ['encode', 'decode'], args: 'none' },
+    urlencode: { category: 'text', usage: 'urlencode <encode|decode> [text]', description: 'Percent-encode or decode text.', subcommands: ['encode', 'decode'], args: 'none' },
+    hash: { category: 'text', usage: 'hash <sha256> [text]', description: 'Print the hash of text.', subcommands: ['sha256'], args: 'none' },
+
+    // --- API & NETWORK ---
+    ai: { category: 'net', usage: 'ai <your_question>', description: 'Ask the AI assistant a question.', args: 'none', role: 'user', permission: 'ai.use' },
+    curl: { category: 'net', usage: 'curl <url>', description: 'Fetch a URL.', args: 'none', role: 'user', permission: 'net.curl' },
+    dig: { category: 'net', usage: 'dig <domain>', description: 'Look up DNS records.', args: 'none' },
+    github: { category: 'net', usage: 'github <username>', description: 'Show a GitHub user profile.', args: 'none' },
+    npm: { category: 'net', usage: 'npm <package-name>', description: 'Show the latest version of an npm package.', args: 'none' },
+    shorten: { category: 'net', usage: 'shorten <url>', description: 'Create a short URL.', args: 'none', role: 'user', permission: 'share.create' },
+    unshorten: { category: 'net', usage: 'unshorten <short-url>', description: 'Resolve a short URL.', args: 'none', role: 'user' },
+    weather: { category: 'net', usage: 'weather [city]', description: 'Show the weather forecast.', args: 'none' },
+    isdown: { category: 'net', usage: 'isdown <url>', description: 'Check whether a website is down.', args: 'none' },
+    geoip: { category: 'net', usage: 'geoip [ip]', description: 'Locate an IP address.', args: 'none' },
+    ping: { category: 'net', usage: 'ping [host]', description: 'Send ICMP echo requests to a host.', args: 'none' },
+    netstat: { category: 'net', usage: 'netstat', description: 'Show network connections.', args: 'none' },
+
+    // --- DEVELOPER & EFFICIENCY ---
+    js: { category: 'dev', usage: 'js', description: 'Start a JavaScript REPL.', args: 'none' },
+    jsonlint: { category: 'dev', usage: "jsonlint '<json>' (or pipe JSON into it)", description: 'Validate and pretty-print JSON.', args: 'none' },
+    uuid: { category: 'dev', usage: 'uuid', description: 'Generate a random UUID.', args: 'none' },
+    password: { category: 'dev', usage: 'password [length]', description: 'Generate a random password.', args: 'none' },
+    calc: { category: 'dev', usage: 'calc <expression>', description: 'Evaluate an arithmetic expression.', args: 'none' },
+    env: { category: 'dev', usage: 'env', description: 'Print exported environment variables.', args: 'none' },
+    export: { category: 'dev', usage: 'export [-s] [-p] [name[=value]...]', description: 'Export shell variables; -s also saves them to ~/.profile.', flags: { '-s': 'save to ~/.profile', '-p': 'list exported variables' }, args: 'none' },
+    unset: { category: 'dev', usage: 'unset [-s] <name...>', description: 'Remove shell variables; -s also removes them from ~/.profile.', flags: { '-s': 'remove from ~/.profile' }, args: 'none' },
+    set: { category: 'dev', usage: 'set [-e|+e] [-o errexit|+o errexit]', description: 'List shell variables or set shell options.', flags: { '-e': 'exit scripts on the first failing command', '+e': 'keep running scripts after failures', '-o': 'set an option by name', '+o': 'unset an option by name' }, args: 'none' },
+    which: { category: 'dev', usage: 'which <command>', description: 'Show how a command name would be interpreted.', args: 'command' },
+    alias: { category: 'dev', usage: "alias [-s] <name='command'> or alias -c to clear", description: 'Define or list aliases; -s also saves them to ~/.zshrc.', flags: { '-s': 'save to ~/.zshrc', '-c': 'remove all aliases' }, args: 'none' },
+    unalias: { category: 'dev', usage: 'unalias <name>', description: 'Remove an alias.', args: 'none' },
+    source: { category: 'dev', usage: 'source <file> [args...]', description: 'Run a script in the current shell.' },
+    '.': { category: 'dev', usage: '. <file> [args...]', description: 'Run a script in the current shell (same as source).' },
+    sh: { category: 'dev', usage: 'sh <file> [args...]', description: 'Run a script without changing the current shell.' },
+    test: { category: 'dev', usage: 'test <expression>', description: 'Evaluate a file, string or integer condition.' },
+    '[': { category: 'dev', usage: '[ <expression> ]', description: 'Evaluate a condition (same as test).' },
+    true: { category: 'dev', usage: 'true', description: 'Do nothing, successfully.', args: 'none' },
+    false: { category: 'dev', usage: 'false', description: 'Do nothing, unsuccessfully.', args: 'none' },
+    watch: { category: 'dev', usage: 'watch [-n seconds] [-c count] <command>', description: 'Run a command periodically.', flags: { '-n': 'seconds between runs', '-c': 'stop after this many runs' }, args: 'command' },
+    history: { category: 'dev', usage: 'history [-c] [N]', description: 'Show the command history.', flags: { '-c': 'clear the history' }, args: 'none' },
+
+    // --- SYSTEM SIM & UTILITY ---
+    top: { category: 'sys', usage: 'top', description: 'Show running processes and how long they have been running.', args: 'none' },
+    ps: { category: 'sys', usage: 'ps', description: 'List running processes.', args: 'none' },
+    jobs: { category: 'sys', usage: 'jobs [-l]', description: 'List background jobs.', flags: { '-l': 'also print process IDs' }, args: 'none' },
+    fg: { category: 'sys', usage: 'fg [%job]', description: 'Bring a background job to the foreground.', args: 'none' },
+    kill: { category: 'sys', usage: 'kill <%job|pid>...', description: 'Terminate jobs or processes.', args: 'none' },
+    sleep: { category: 'sys', usage: 'sleep <seconds>', description: 'Wait for a number of seconds or a duration such as 1m.', args: 'none' },
+    date: { category: 'sys', usage: 'date', description: 'Print the current date and time.', args: 'none' },
+    clear: { category: 'sys', usage: 'clear', description: 'Clear the screen.', args: 'none' },
+    echo: { category: 'sys', usage: 'echo [text...]', description: 'Print the arguments.', args: 'none' },
+    uname: { category: 'sys', usage: 'uname', description: 'Print system information.', args: 'none' },
+    reboot: { category: 'sys', usage: 'reboot', description: 'Reload the terminal.', args: 'none' },
+    theme: { category: 'sys', usage: 'theme <dracula|gruvbox|solarized>', description: 'Change the color theme.', subcommands: ['dracula', 'gruvbox', 'solarized'], args: 'none' },
+    scrollback: { category: 'sys', usage: 'scrollback [lines]', description: 'Show or set how many lines of output the terminal keeps.', args: 'none' },
+    banner: { category: 'sys', usage: 'banner', description: 'Show the boot banner.', args: 'none' },
+    help: { category: 'sys', usage: 'help [category|command]', description: 'List commands by category.', subcommands: Object.keys(CATEGORIES), args: 'command' },
+    man: { category: 'sys', usage: 'man <command>', description: 'Show the manual page of a command.', args: 'command' },
+    apropos: { category: 'sys', usage: 'apropos <keyword>', description: 'Search command names and descriptions.', args: 'none' },
+    plugin: { category: 'sys', usage: 'plugin <ls|enable|disable|load> [name|file]', description: 'List, enable, disable or load terminal plugins.', subcommands: ['ls', 'enable', 'disable', 'load'] },
+
+    // --- FUN & PERSONAL ---
+    about: { category: 'fun', usage: 'about', description: 'About the author of this site.', args: 'none' },
+    contact: { category: 'fun', usage: 'contact', description: 'Show contact details.', args: 'none' },
+    socials: { category: 'fun', usage: 'socials', description: 'Show social media links.', args: 'none' },
+    repo: { category: 'fun', usage: 'repo', description: 'Open the source repository.', args: 'none' },
+    music: { category: 'fun', usage: 'music <search|play|stop> [query|ID]', description: 'Search and play music.', subcommands: ['search', 'play', 'stop'], args: 'none' },
+    video: { category: 'fun', usage: 'video search <keywords>', description: 'Search Bilibili videos.', subcommands: ['search'], args: 'none' },
+    neofetch: { category: 'fun', usage: 'neofetch', description: 'Show system information with a logo.', args: 'none' },
+    cowsay: { category: 'fun', usage: 'cowsay [text]', description: 'Let a cow say something.', args: 'none' },
+    sl: { category: 'fun', usage: 'sl', description: 'Correct a typo of ls the hard way.', args: 'none' },
+    hitokoto: { category: 'fun', usage: 'hitokoto', description: 'Print a random quote.', args: 'none' },
+    rickroll: { category: 'fun', usage: 'rickroll', description: 'Never gonna give you up.', args: 'none' },
+    figlet: { category: 'fun', usage: 'figlet <text>', description: 'Print text in large ASCII letters.', args: 'none' },
+    fortune: { category: 'fun', usage: 'fortune', description: 'Print a random fortune.', args: 'none' },
+    hollywood: { category: 'fun', usage: 'hollywood', description: 'Look busy.', args: 'none' },
+    devjoke: { category: 'fun', usage: 'devjoke', description: 'Print a programming joke.', args: 'none' },
+} satisfies { [name: string]: CommandMeta };
+
+export type CommandName = keyof typeof REGISTRY;
+
+export const COMMAND_NAMES = Object.keys(REGISTRY) as CommandName[];
+
+export const isBuiltinCommand = (name: string): name is CommandName => Object.prototype.hasOwnProperty.call(REGISTRY, name);
+
+// Commands contributed by plugins. They are listed, documented and completed like built-ins,
+// but can never take over a built-in name.
+const extensions = new Map<string, CommandMeta>();
+
+// What a command name may look like: a single shell word that needs no quoting.
+export const COMMAND_NAME = /^[A-Za-z0-9_][\w.-]*$/;
+
+export const registerCommand = (name: string, meta: CommandMeta): boolean => {
+    if (!COMMAND_NAME.test(name) || isBuiltinCommand(name) || extensions.has(name)) return false;
+    extensions.set(name, meta);
+    return true;
+};
+
+export const unregisterCommand = (name: string) => extensions.delete(name);
+
+export const commandNames = (): string[] => [...COMMAND_NAMES, ...extensions.keys()];
+
+export const commandMeta = (name: string): CommandMeta | undefined =>
+    isBuiltinCommand(name) ? REGISTRY[name] : extensions.get(name);
+
+export const usageOf = (name: CommandName): string => `Usage: ${REGISTRY[name].usage}`;
+
+// --- Generated Help ---
+const commandsIn = (category: CommandCategory) => commandNames().filter(name => commandMeta(name)!.category === category);
+
+const roleNote = (meta: CommandMeta) => meta.role === 'admin' ? ' (sudo)' : meta.role === 'user' ? ' (login)' : '';
+
+export const helpOverview = (): string[] => [
+    paint('Available Command Categories:', 'yellow'),
+    ...(Object.keys(CATEGORIES) as CommandCategory[]).map(category =>
+        `  \`${category}\`${' '.repeat(Math.max(1, 8 - category.length))}- ${CATEGORIES[category]} (${commandsIn(category).slice(0, 4).join(', ')}...)`),
+    'Type `help <category>` for more details, or `man <command>` for a single command. Example: `help fs`',
+];
+
+export const helpCategory = (category: CommandCategory): string[] => [
+    paint(`${CATEGORIES[category]}:`, 'yellow'),
+    ...commandsIn(category).map(name => `  ${name.padEnd(12)}${commandMeta(name)!.description}${roleNote(commandMeta(name)!)}`),
+];
+
+export const manPage = (name: string): string[] => {
+    const meta = commandMeta(name);
+    if (!meta) return [];
+    const section = (title: string) => paint(title, 'yellow');
+    const lines = [
+        section('NAME'), `       ${name} - ${meta.description}`, '',
+        section('SYNOPSIS'), `       ${meta.usage}`, '',
+    ];
+    if (meta.flags) {
+        lines.push(section('OPTIONS'), ...Object.entries(meta.flags).map(([flag, text]) => `       ${flag.padEnd(12)}${text}`), '');
+    }
+    if (meta.subcommands) lines.push(section('SUBCOMMANDS'), `       ${meta.subcommands.join(', ')}`, '');
+    lines.push(section('CATEGORY'), `       ${meta.category} - ${CATEGORIES[meta.category]}`);
+    if (meta.role) lines.push('', section('REQUIRES'), meta.role === 'admin' ? '       root privileges (run with sudo)' : '       a logged-in account');
+    if (meta.permission) lines.push(`       the ${meta.permission} permission (${PERMISSIONS[meta.permission]})`);
+    return lines;
+};
+
+// Names whose name or description contains `keyword`, case-insensitively.
+export const apropos = (keyword: string): string[] => {
+    const needle = keyword.toLowerCase();
+    return commandNames()
+        .map(name => [name, commandMeta(name)!] as const)
+        .filter(([name, meta]) => name.toLowerCase().includes(needle) || meta.description.toLowerCase().includes(needle))
+        .map(([name, meta]) => `${name} (${meta.category}) - ${meta.description}`);
+};
@@ -0,0 +1,115 @@
+import { VfsTree, getObjectByPath, isDir, resolvePath } from './vfs';
+import { commandMeta } from './commandRegistry';
+
+// --- Tab Completion ---
+// Completes the word before the cursor: command names and aliases in command position,
+// otherwise subcommands, flags, usernames or VFS paths as declared in the command registry.
+const DEFAULT_USERS = ['guest', 'admin'];
+
+export interface CompletionContext {
+    commands: string[];
+    aliases: string[];
+    vfs: VfsTree;
+    currentPath: string;
+    username?: string;
+}
+
+export interface CompletionResult {
+    text: string;          // The input with the completed word
+    candidates: string[];  // All matches when the completion is ambiguous
+}
+
+const commonPrefix = (words: string[]) => words.reduce((prefix, word) => {
+    let i = 0;
+    while (i < prefix.length && i < word.length && prefix[i] === word[i]) i++;
+    return prefix.substring(0, i);
+});
+
+const escapeWord = (word: string) => word.replace(/([\s'"\\|&;<>$`])/g, '\\$1');
+
+// Splits off the current command segment after the last `|`, `;`, `&`, `&&` or `||` into words.
+// `start` is the offset in `input` where the last (partial) word begins.
+const currentWords = (input: string): { words: string[]; start: number } => {
+    const separator = [...input.matchAll(/\|\||&&|[|;&]/g)].pop();
+    const offset = separator ? separator.index! + separator[0].length : 0;
+    const words: string[] = [];
+    let current = '', quote: string | null = null, start = offset;
+    for (let i = offset; i < input.length; i++) {
+        const ch = input[i];
+        if (quote) { if (ch === quote) quote = null; else current += ch; }
+        else if (ch === '\\' && i + 1 < input.length) current += input[++i];
+        else if (ch === '"' || ch === "'") quote = ch;
+        else if (/\s/.test(ch)) { if (current) words.push(current); current = ''; start = i + 1; }
+        else current += ch;
+    }
+    words.push(current); // The word being completed, possibly empty
+    return { words, start };
+};
+
+// Entries of the directory part of `word`. Directories end with `/` so completion can continue into them.
+const completePath = (word: string, context: CompletionContext, dirsOnly: boolean): string[] => {
+    const slash = word.lastIndexOf('/');
+    const dirPart = slash === -1 ? '' : word.substring(0, slash + 1);
+    const prefix = word.substring(slash + 1);
+    const dir = getObjectByPath(context.vfs, dirPart ? resolvePath(dirPart, context.currentPath) : context.currentPath);
+    if (!isDir(dir)) return [];
+    return Object.entries(dir.children)
+        .filter(([name, node]) => name.startsWith(prefix) && (prefix.startsWith('.') || !name.startsWith('.')) && (!dirsOnly || isDir(node)))
+        .map(([name, node]) => dirPart + name + (isDir(node) ? '/' : ''))
+        .sort();
+};
+
+export const complete = (input: string, context: CompletionContext): CompletionResult => {
+    const { words, start } = currentWords(input);
+    const word = words[words.length - 1];
+    let position = words.length - 1;
+    let command = words[0];
+    if (command === 'sudo' && position > 1) { command = words[1]; position--; }
+    const meta = commandMeta(command);
+    const spec = { subcommands: meta?.subcommands, flags: meta?.flags && Object.keys(meta.flags), args: meta?.args };
+
+    let matches: string[];
+    if (position === 0) {
+        matches = [...new Set([...context.commands, ...context.aliases])].filter(name => name.startsWith(word)).sort();
+    } else if (word.startsWith('-') && spec.flags) {
+        matches = spec.flags.filter(flag => flag.startsWith(word));
+    } else if (position === 1 && spec.subcommands && (spec.args === 'none' || spec.subcommands.some(sub => sub.startsWith(word)))) {
+        matches = spec.subcommands.filter(sub => sub.startsWith(word));
+    } else if (spec.args === 'user') {
+        matches = [...new Set([...DEFAULT_USERS, ...(context.username ? [context.username] : [])])].filter(name => name.startsWith(word));
+    } else if (spec.args === 'command' && position === 1) {
+        matches = context.commands.filter(name => name.startsWith(word)).sort();
+    } else if (spec.args === 'none') {
+        matches = [];
+    } else {
+        matches = completePath(word, context, spec.args === 'dir');
+    }
+
+    if (matches.length === 0) return { text: input, candidates: [] };
+    const base = input.substring(0, start);
+    if (matches.length === 1) {
+        const match = matches[0];
+        return { text: base + escapeWord(match) + (match.endsWith('/') ? '' : ' '), candidates: [] };
+    }
+    const prefix = commonPrefix(matches);
+    if (prefix.length > word.length) return { text: base + escapeWord(prefix), candidates: [] };
+    // Nothing more to complete: list the candidates by their last path component, like zsh.
+    return { text: input, candidates: matches.map(match => match.endsWith('/') ? match.substring(match.lastIndexOf('/', match.length - 2) + 1) : match.substring(match.lastIndexOf('/') + 1)) };
+};
+
+// Lays candidates out column-major in as many columns as fit into `width` characters.
+export const formatColumns = (items: string[], width: number): string[] => {
+    const columnWidth = Math.max(...items.map(item => item.length)) + 2;
+    const columns = Math.max(1, Math.floor(width / columnWidth));
+    const rows = Math.ceil(items.length / columns);
+    const lines: string[] = [];
+    for (let row = 0; row < rows; row++) {
+        let line = '';
+        for (let column = 0; column < columns; column++) {
+            const item = items[column * rows + row];
+            if (item !== undefined) line += item.padEnd(columnWidth);
+        }
+        lines.push(line.trimEnd());
+    }
+    return lines;
+};
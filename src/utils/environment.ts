@@ -0,0 +1,85 @@
+import { quoteArg, tokenize, VARIABLE_NAME } from './shellParser';
+import { VfsTree, getObjectByPath, isFile, writeFile } from './vfs';
+
+// --- Shell Environment ---
+// Variables live for the lifetime of the page (one terminal session).
+// Exported variables show up in `env`; plain assignments only in `set`.
+// Aliases and shell options are session state too; ~/.zshrc restores them after login.
+interface ShellVariable { value: string; exported: boolean; }
+interface ShellSnapshot { variables: [string, ShellVariable][]; aliases: [string, string][]; errexit: boolean; }
+
+const variables = new Map<string, ShellVariable>();
+
+export const PROFILE_FILE = '.profile';
+export const RC_FILE = '.zshrc';
+const LEGACY_ALIASES_KEY = 'aliases';   // Where aliases were kept before ~/.zshrc, as a JSON object
+
+export const shellEnv = {
+    lastExitCode: 0,
+    options: { errexit: false },
+    positional: [] as string[],
+    aliases: new Map<string, string>(),
+    get: (name: string): string | undefined => variables.get(name)?.value,
+    set: (name: string, value: string, exported?: boolean) => {
+        variables.set(name, { value, exported: exported ?? variables.get(name)?.exported ?? false });
+    },
+    unset: (name: string): boolean => variables.delete(name),
+    isValidName: (name: string): boolean => VARIABLE_NAME.test(name),
+    list: (exportedOnly = false): [string, string][] => [...variables.entries()]
+        .filter(([, variable]) => !exportedOnly || variable.exported)
+        .map(([name, variable]): [string, string] => [name, variable.value])
+        .sort(([a], [b]) => a.localeCompare(b)),
+    snapshot: (): ShellSnapshot => ({
+        variables: [...variables.entries()].map(([name, variable]): [string, ShellVariable] => [name, { ...variable }]),
+        aliases: [...shellEnv.aliases.entries()],
+        errexit: shellEnv.options.errexit,
+    }),
+    restore: (snapshot: ShellSnapshot) => {
+        variables.clear();
+        snapshot.variables.forEach(([name, variable]) => variables.set(name, variable));
+        shellEnv.aliases = new Map(snapshot.aliases);
+        shellEnv.options.errexit = snapshot.errexit;
+    },
+    reset: () => {
+        variables.clear();
+        shellEnv.aliases.clear();
+        shellEnv.options.errexit = false;
+        shellEnv.positional = [];
+        shellEnv.lastExitCode = 0;
+    },
+};
+
+// Applies the `export NAME=value` lines of a ~/.profile file to the environment.
+export const loadProfile = (content: string) => {
+    for (const line of content.split('\n')) {
+        let tokens;
+        try { tokens = tokenize(line); } catch (e) { continue; }
+        const words = tokens.map(token => token.type === 'word' && token.word.every(part => part.type === 'text')
+            ? token.word.map(part => part.type === 'text' ? part.value : '').join('')
+            : null);
+        if (words[0] !== 'export') continue;
+        for (const word of words.slice(1)) {
+            const eq = word?.indexOf('=') ?? -1;
+            if (word && eq > 0 && VARIABLE_NAME.test(word.substring(0, eq))) shellEnv.set(word.substring(0, eq), word.substring(eq + 1), true);
+        }
+    }
+};
+
+// Appends the aliases that older versions kept in localStorage to ~/.zshrc, then removes the key so
+// this happens once. Returns whether the tree was changed; the key stays if ~/.zshrc cannot be written.
+export const importLegacyAliases = (tree: VfsTree, owner: string): boolean => {
+    let legacy: unknown;
+    try { legacy = JSON.parse(localStorage.getItem(LEGACY_ALIASES_KEY) ?? 'null'); } catch (e) { legacy = null; }
+    if (legacy === null || typeof legacy !== 'object') {
+        localStorage.removeItem(LEGACY_ALIASES_KEY);
+        return false;
+    }
+    const lines = Object.entries(legacy)
+        .filter((entry): entry is [string, string] => /^[^=\s]+$/.test(entry[0]) && typeof entry[1] === 'string')
+        .map(([name, command]) => `alias ${name}=${quoteArg(command)}`);
+    const rc = getObjectByPath(tree, `/${RC_FILE}`);
+    const existing = isFile(rc) && rc.content ? rc.content.split('\n') : [];
+    if (lines.length > 0 && !writeFile(tree, `/${RC_FILE}`, [...existing, ...lines].join('\n'), owner)) return false;
+    localStorage.removeItem(LEGACY_ALIASES_KEY);
+    return lines.length > 0;
+};
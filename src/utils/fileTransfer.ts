@@ -0,0 +1,50 @@
+import { BlobRef } from './vfs';
+
+// --- Upload / Download ---
+// Small text files are stored inline in the VFS tree like any other file. Everything else is
+// streamed to R2 through /api/files and the tree only keeps the returned BlobRef.
+export const INLINE_TEXT_LIMIT = 64 * 1024;
+
+// Returns the file's text when it is small enough and decodes as UTF-8 without binary bytes.
+export const readInlineText = async (file: File): Promise<string | null> => {
+    if (file.size > INLINE_TEXT_LIMIT) return null;
+    try {
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(await file.arrayBuffer());
+        return text.includes('\0') ? null : text;
+    } catch (e) {
+        return null;
+    }
+};
+
+// The `error` of a JSON error body, or the status text when the body is not JSON (e.g. a proxy's HTML page).
+export const errorOf = async (response: Response) => {
+    try { return (await response.json() as { error?: string }).error || response.statusText; }
+    catch (e) { return response.statusText; }
+};
+
+export const uploadBlob = async (file: File, authHeader: { Authorization: string }): Promise<BlobRef> => {
+    const response = await fetch(`/api/files?name=${encodeURIComponent(file.name)}`, {
+        method: 'PUT',
+        headers: { ...authHeader, 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+    });
+    if (!response.ok) throw new Error(await errorOf(response));
+    return await response.json() as BlobRef;
+};
+
+export const fetchBlob = async (ref: BlobRef, authHeader: { Authorization: string }, signal?: AbortSignal): Promise<Blob> => {
+    const response = await fetch(`/api/files/${ref.key}`, { headers: authHeader, signal });
+    if (!response.ok) throw new Error(await errorOf(response));
+    return await response.blob();
+};
+
+export const saveToDisk = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
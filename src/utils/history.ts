@@ -0,0 +1,73 @@
+import { VfsTree, getObjectByPath, isFile, writeFile } from './vfs';
+
+// --- Command History ---
+// Interactive commands for the session, oldest first. Logged-in users keep them in
+// ~/.zsh_history, which is loaded with the rest of the VFS and rewritten after each command.
+export const HISTORY_FILE = '.zsh_history';
+export const HISTORY_SIZE = 1000;
+
+// Lines that carry a password are never recorded: `share <path> --password <pw>`, and the forms that
+// took the password as an argument before passwd, useradd and register asked for it
+// (`passwd <pw>`, `sudo passwd <user> <pw>`, `sudo useradd <user> <pw> <role>`, `register <code> <user> <pw>`).
+const SECRET_LINE = /(^|[;&|(])\s*passwd\s+\S|\bsudo\s+passwd(\s+\S+){2}|\b(useradd|register)(\s+\S+){3}|--password\b/;
+const hasSecret = (line: string): boolean => SECRET_LINE.test(line);
+
+let entries: string[] = [];
+
+export const shellHistory = {
+    entries: (): readonly string[] => entries,
+    add: (command: string) => {
+        if (!command.trim() || command === entries[entries.length - 1] || hasSecret(command)) return;
+        entries = [...entries, command].slice(-HISTORY_SIZE);
+    },
+    clear: () => { entries = []; },
+    // Secrets recorded by older versions are dropped here and disappear with the next save.
+    load: (content: string) => { entries = content.split('\n').filter(line => line.trim() && !hasSecret(line)).slice(-HISTORY_SIZE); },
+    serialize: (): string => entries.join('\n'),
+    // Index of the newest entry before `before` that contains `query`, or -1.
+    search: (query: string, before = entries.length): number => {
+        for (let i = Math.min(before, entries.length) - 1; i >= 0; i--) {
+            if (entries[i].includes(query)) return i;
+        }
+        return -1;
+    },
+};
+
+// Writes the session history into ~/.zsh_history. A new history file is private to its owner.
+export const writeHistoryFile = (tree: VfsTree, owner: string): boolean => {
+    const path = `/${HISTORY_FILE}`;
+    const isNew = !isFile(getObjectByPath(tree, path));
+    if (!writeFile(tree, path, shellHistory.serialize(), owner)) return false;
+    if (isNew) getObjectByPath(tree, path)!.mode = 0o600;
+    return true;
+};
+
+export class HistoryExpansionError extends Error {}
+
+// Expands `!!`, `!n`, `!-n` and `!prefix` outside single quotes, like zsh's interactive shell.
+// A `!` followed by whitespace, `=` or the end of the line is left alone (`[ ! -f x ]`, `a != b`).
+export const expandHistory = (line: string): string => {
+    let result = '';
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '\\' && line[i + 1] === '!') { result += '!'; i++; continue; }
+        if (quote === "'") { if (ch === "'") quote = null; result += ch; continue; }
+        if (ch === "'" && !quote) quote = "'";
+        else if (ch === '"') quote = quote === '"' ? null : '"';
+        if (ch !== '!' || i + 1 >= line.length || /[\s=(]/.test(line[i + 1])) { result += ch; continue; }
+
+        const designator = line.substring(i + 1).match(/^(!|-?\d+|[^\s;|&'"]+)/);
+        if (!designator) { result += ch; continue; }
+        const event = designator[1];
+        let index: number;
+        if (event === '!') index = entries.length - 1;
+        else if (/^-\d+$/.test(event)) index = entries.length + parseInt(event, 10);
+        else if (/^\d+$/.test(event)) index = parseInt(event, 10) - 1;
+        else index = entries.map(entry => entry.startsWith(event)).lastIndexOf(true);
+        if (index < 0 || index >= entries.length) throw new HistoryExpansionError(`event not found: ${event === '!' ? '!!' : `!${event}`}`);
+        result += entries[index];
+        i += event.length;
+    }
+    return result;
+};
@@ -0,0 +1,98 @@
+import { CommandResult } from './commandContext';
+
+// --- Job Table ---
+// Every command line runs as a job: the terminal spawns one for each foreground line and `cmd &`
+// spawns background ones. Killing a job (Ctrl+C for the foreground, `kill` for any job) aborts its
+// signal, which cancels its timers and in-flight requests so that its command returns early.
+// Jobs leave the table once their command has returned.
+export interface Job {
+    id: number;                       // Job number, `%n`
+    pid: number;
+    command: string;
+    user: string;
+    started: number;
+    background: boolean;              // Cleared by `fg`
+    signal: AbortSignal;
+    result: Promise<CommandResult>;
+}
+
+export const SHELL_PID = 432;
+export const SHELL_STARTED = Date.now();
+export const INTERRUPTED_EXIT_CODE = 130;
+
+const jobs = new Map<number, Job>();   // By pid, in start order
+const controllers = new Map<number, AbortController>();
+let lastPid = 1000;
+
+// Job numbers are reused like in zsh: a new job takes the lowest free one.
+const nextJobId = () => {
+    let id = 1;
+    while ([...jobs.values()].some(job => job.id === id)) id++;
+    return id;
+};
+
+const backgroundJobs = () => [...jobs.values()].filter(job => job.background);
+
+export const jobTable = {
+    spawn: (command: string, user: string, background: boolean, run: (job: Job) => Promise<CommandResult>): Job => {
+        const controller = new AbortController();
+        // `run` needs the finished job, so its result is adopted by a promise the job already holds.
+        let settle: (result: Promise<CommandResult>) => void = () => {};
+        const result = new Promise<CommandResult>(resolve => { settle = resolve; });
+        const job: Job = {
+            id: nextJobId(), pid: ++lastPid, command, user, started: Date.now(), background, signal: controller.signal,
+            result: result.finally(() => { jobs.delete(job.pid); controllers.delete(job.pid); }),
+        };
+        jobs.set(job.pid, job);
+        controllers.set(job.pid, controller);
+        settle(run(job));
+        return job;
+    },
+    list: (): Job[] => [...jobs.values()],
+    background: backgroundJobs,
+    // The current job (`%+`, what `fg` picks by default) is the newest background job; `%-` the one before it.
+    current: (): Job | undefined => backgroundJobs()[backgroundJobs().length - 1],
+    previous: (): Job | undefined => backgroundJobs()[backgroundJobs().length - 2],
+    // Accepts `%n`, `%+`, `%%`, `%-` or a pid.
+    find: (spec: string): Job | undefined => {
+        if (spec === '%+' || spec === '%%') return jobTable.current();
+        if (spec === '%-') return jobTable.previous();
+        if (/^%\d+$/.test(spec)) return [...jobs.values()].find(job => job.id === parseInt(spec.substring(1), 10));
+        return /^\d+$/.test(spec) ? jobs.get(parseInt(spec, 10)) : undefined;
+    },
+    kill: (job: Job): boolean => {
+        const controller = controllers.get(job.pid);
+        controller?.abort();
+        return controller !== undefined;
+    },
+    // Ctrl+C: kills the foreground jobs (the command line, and the job `fg` is waiting for).
+    interrupt: (): boolean => {
+        const foreground = [...jobs.values()].filter(job => !job.background);
+        foreground.forEach(jobTable.kill);
+        return foreground.length > 0;
+    },
+};
+
+// zsh-style job line, e.g. `[1]  + running    sleep 10`.
+export const formatJob = (job: Job, status: string, withPid = false) => {
+    const mark = job === jobTable.current() ? '+' : job === jobTable.previous() ? '-' : ' ';
+    return `[${job.id}]  ${mark} ${withPid ? `${job.pid} ` : ''}${status.padEnd(10)} ${job.command}`;
+};
+
+// How a finished job is reported: `done`, `exit 1` or `terminated`.
+export const exitStatus = (job: Job, result: CommandResult) =>
+    job.signal.aborted ? 'terminated' : result.exitCode === 0 ? 'done' : `exit ${result.exitCode}`;
+
+// Resolves after `ms`, or rejects with the abort reason as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const abort = () => { clearTimeout(timer); reject(signal!.reason); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', abort); resolve(); }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+});
+
+// Resolves once the signal is aborted, for commands that run until they are killed like `tail -f`.
+export const untilAborted = (signal: AbortSignal) => new Promise<void>(resolve => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+});
@@ -0,0 +1,61 @@
+import { escapeHtml } from './textUtils';
+
+// --- Markdown Renderer ---
+// A small CommonMark subset for shared files: headings, paragraphs, emphasis, inline code,
+// fenced code blocks, links, images, lists, blockquotes and rules. All text is escaped
+// first, so the output is safe to embed in a page.
+
+const SAFE_URL = /^(https?:|mailto:|\/|#)/i;
+
+const renderInline = (text: string): string => escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (whole, alt, url) => SAFE_URL.test(url) ? `<img src="${url}" alt="${alt}">` : whole)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (whole, label, url) => SAFE_URL.test(url) ? `<a href="${url}" rel="noopener noreferrer">${label}</a>` : whole)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_([^_]+)_(?=\W|$)/g, '$1<em>$2</em>');
+
+export const renderMarkdown = (source: string): string => {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    type List = { tag: 'ul' | 'ol'; items: string[] };
+    let list = null as List | null;
+
+    const flushParagraph = () => {
+        if (paragraph.length) html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+        paragraph = [];
+    };
+    const flushList = () => {
+        if (list) html.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+        list = null;
+    };
+    const flush = () => { flushParagraph(); flushList(); };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const fence = line.match(/^```\s*([\w-]*)/);
+        if (fence) {
+            flush();
+            const code: string[] = [];
+            while (++i < lines.length && !lines[i].startsWith('```')) code.push(lines[i]);
+            html.push(`<pre><code${fence[1] ? ` class="language-${fence[1]}"` : ''}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        const item = line.match(/^\s*([-*+]|\d+\.)\s+(.*)$/);
+        if (!line.trim()) flush();
+        else if (heading) { flush(); html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`); }
+        else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) { flush(); html.push('<hr>'); }
+        else if (line.startsWith('>')) { flush(); html.push(`<blockquote>${renderInline(line.replace(/^>\s?/, ''))}</blockquote>`); }
+        else if (item) {
+            flushParagraph();
+            const tag = /\d/.test(item[1]) ? 'ol' : 'ul';
+            if (list?.tag !== tag) flushList();
+            (list ??= { tag, items: [] }).items.push(item[2]);
+        }
+        else { flushList(); paragraph.push(line.trim()); }
+    }
+    flush();
+    return html.join('\n');
+};
@@ -0,0 +1,111 @@
+// --- Output Lines ---
+// What commands print. A line is either a string of plain text, which may carry ANSI colour escapes,
+// or a list of typed segments. Neither is HTML: the terminal turns them into React elements, so file
+// contents, remote responses and user input can never inject markup.
+export type Color = 'black' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white' | 'gray';
+
+export interface Style {
+    color?: Color;
+    background?: Color;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+export type Segment =
+    | { type: 'text'; text: string }
+    | { type: 'span'; text: string; style: Style }
+    | { type: 'link'; text: string; href: string }
+    | { type: 'pre'; text: string; tight?: boolean }             // A block kept as laid out, e.g. ASCII art; ANSI colours apply.
+                                                                 // `tight` drops the line spacing, for block graphics like QR codes
+    | { type: 'table'; header: string[]; rows: string[][] }      // Cells are plain text; ANSI colours apply
+    | { type: 'action'; action: 'open'; url: string; text: string } // Performed once when printed, then shown as a link
+    | { type: 'prompt'; user: string; host: string; path: string };
+
+export type OutputLine = string | Segment[];
+
+// Only these schemes become clickable; anything else (`javascript:`, `data:`) is shown as text.
+export const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+export const link = (href: string, text = href): Segment => ({ type: 'link', text, href });
+export const pre = (text: string, tight = false): OutputLine => [{ type: 'pre', text, ...(tight && { tight }) }];
+export const table = (header: string[], rows: string[][]): OutputLine => [{ type: 'table', header, rows }];
+export const openUrl = (url: string): OutputLine => [{ type: 'action', action: 'open', url, text: `Opening ${url} ...` }];
+
+// --- ANSI Escapes ---
+// SGR sequences (`ESC[...m`) set colours and attributes; other CSI sequences such as cursor movement
+// are dropped. 256-colour and RGB colours are skipped since output uses the theme's palette.
+const CSI = /\x1b\[([\d;]*)([A-Za-z])/g;
+const PALETTE: Color[] = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+const FOREGROUND: { [color in Color]: number } = { black: 30, red: 31, green: 32, yellow: 33, blue: 34, magenta: 35, cyan: 36, white: 37, gray: 90 };
+
+const paletteColor = (code: number, base: number): Color | undefined =>
+    code === base + 60 ? 'gray' : code >= base && code <= base + 7 ? PALETTE[code - base] : code >= base + 60 && code <= base + 67 ? PALETTE[code - base - 60] : undefined;
+
+const applySgr = (current: Style, params: string): Style => {
+    const codes = params.split(';').map(code => parseInt(code, 10) || 0);
+    let style = { ...current };
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+        const color = paletteColor(code, 30), background = paletteColor(code, 40);
+        if (code === 0) style = {};
+        else if (code === 1) style.bold = true;
+        else if (code === 2) style.dim = true;
+        else if (code === 3) style.italic = true;
+        else if (code === 4) style.underline = true;
+        else if (code === 22) { delete style.bold; delete style.dim; }
+        else if (code === 23) delete style.italic;
+        else if (code === 24) delete style.underline;
+        else if (code === 39) delete style.color;
+        else if (code === 49) delete style.background;
+        else if (code === 38 || code === 48) i += codes[i + 1] === 5 ? 2 : codes[i + 1] === 2 ? 4 : 0;
+        else if (color) style.color = color;
+        else if (background) style.background = background;
+    }
+    return style;
+};
+
+export const parseAnsi = (text: string): Segment[] => {
+    const segments: Segment[] = [];
+    let style: Style = {};
+    let last = 0;
+    const push = (chunk: string) => {
+        if (chunk) segments.push(Object.keys(style).length > 0 ? { type: 'span', text: chunk, style } : { type: 'text', text: chunk });
+    };
+    for (const match of text.matchAll(CSI)) {
+        push(text.substring(last, match.index));
+        last = match.index! + match[0].length;
+        if (match[2] === 'm') style = applySgr(style, match[1]);
+    }
+    push(text.substring(last));
+    return segments;
+};
+
+export const stripAnsi = (text: string) => text.replace(CSI, '');
+
+// Colours text for output, e.g. `paint('OK', 'green')` or `paint(match, 'black', 'yellow')`.
+export const paint = (text: string, color: Color, background?: Color) =>
+    `\x1b[${FOREGROUND[color]}${background ? `;${FOREGROUND[background] + 10}` : ''}m${text}\x1b[0m`;
+export const bold = (text: string) => `\x1b[1m${text}\x1b[22m`;
+
+// --- Plain Text ---
+// How output reads in a pipe, a redirect, `$(...)` or a search: escapes removed, tables padded.
+const tableText = (header: string[], rows: string[][]) => {
+    const cells = [header, ...rows].map(row => row.map(stripAnsi));
+    const widths = header.map((_, i) => Math.max(...cells.map(row => (row[i] ?? '').length)));
+    return cells.map(row => row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join('  ')).join('\n');
+};
+
+const segmentText = (segment: Segment): string => {
+    switch (segment.type) {
+        case 'pre': return stripAnsi(segment.text);
+        case 'table': return tableText(segment.header, segment.rows);
+        case 'prompt': return `${segment.user}@${segment.host}:${segment.path}$ `;
+        default: return segment.text;
+    }
+};
+
+export const lineText = (line: OutputLine): string => typeof line === 'string' ? stripAnsi(line) : line.map(segmentText).join('');
+
+export const toText = (lines: OutputLine[]): string => lines.map(lineText).join('\n');
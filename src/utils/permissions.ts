@@ -0,0 +1,19 @@
+// --- Permissions ---
+// An account can do what its role grants. Roles and their permissions are rows in D1 (`roles` and
+// `role_permissions`), so new roles need no code change. The worker checks permissions on each
+// request and the command registry checks them before a command runs, so the terminal refuses
+// early with a clear message and the server still has the final word.
+export const PERMISSIONS = {
+    'vfs.write': 'change files in your home directory',
+    'files.upload': 'upload files to cloud storage',
+    'share.create': 'create public share links and short links',
+    'ai.use': 'ask the AI assistant',
+    'net.curl': 'fetch any URL through the server with curl',
+    'sudo': 'run commands with sudo',
+    'users.manage': 'create, edit and delete accounts and invites',
+    'audit.read': 'read the audit log and everyone\'s login history',
+};
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const isPermission = (name: string): name is Permission => Object.prototype.hasOwnProperty.call(PERMISSIONS, name);
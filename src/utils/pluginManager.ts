@@ -0,0 +1,229 @@
+import { CATEGORIES, COMMAND_NAME, CommandMeta, registerCommand, unregisterCommand } from './commandRegistry';
+import { Permission } from './permissions';
+
+// --- Plugins ---
+// A plugin bundles terminal commands with lifecycle hooks. Plugins in src/plugins are bundled at
+// build time; `plugin load <file>` imports a JS module from the VFS for the current session.
+// Each command still goes through the command registry, so help, man, completion and permission
+// checks treat plugin commands like built-ins.
+export interface PluginUser { username: string; role: string; permissions: Permission[]; }
+
+// What a plugin command is given. These calls apply the same permission checks as the built-in
+// commands, but they are no sandbox: a plugin runs in the page and can reach everything the page
+// can, including the tokens in localStorage. Only load plugins you trust.
+export interface PluginContext {
+    user: PluginUser | null;
+    isSudo: boolean;
+    stdin?: string;
+    signal: AbortSignal;   // Aborted when the job is killed (Ctrl+C or `kill`) or the command times out; pass it to fetch
+    cwd: string;
+    authHeader: () => Promise<{ Authorization: string }>;
+    vfs: {
+        read: (path: string) => string | null;               // null if missing, a directory, binary or unreadable
+        write: (path: string, content: string) => boolean;   // false if the file cannot be written
+        list: (path: string) => string[] | null;             // Entry names, directories with a trailing `/`
+    };
+    terminal: { print: (lines: string[]) => void; clear: () => void; };   // Lines are plain text; ANSI colour escapes apply
+    toast: (message: string, type?: 'info' | 'success' | 'error') => void;
+}
+
+export type PluginResult = string[] | { text: string[]; exitCode: number } | void;
+
+export interface PluginCommand extends CommandMeta {
+    name: string;
+    run: (args: string[], context: PluginContext) => PluginResult | Promise<PluginResult>;
+}
+
+export interface Plugin {
+    name: string;
+    version: string;
+    description?: string;
+    commands: PluginCommand[];
+    activate?: () => void | Promise<void>;     // Called when the plugin is loaded or enabled
+    deactivate?: () => void | Promise<void>;   // Called when the plugin is disabled
+}
+
+export interface PluginInfo {
+    name: string;
+    version: string;
+    description: string;
+    source: string;      // `builtin` or the VFS path of the module
+    enabled: boolean;
+    commands: string[];
+    error?: string;      // Why the plugin is not active, if it failed
+}
+
+// Typed identity helper for plugin modules: `export default definePlugin({ ... })`.
+export const definePlugin = (plugin: Plugin): Plugin => plugin;
+
+interface PluginEntry { plugin: Plugin; source: string; enabled: boolean; error?: string; }
+
+const DISABLED_KEY = 'terminal-disabled-plugins';
+
+const plugins = new Map<string, PluginEntry>();
+const owners = new Map<string, PluginEntry>(); // Command name -> plugin that registered it
+
+const disabledNames = (): string[] => {
+    try { return JSON.parse(localStorage.getItem(DISABLED_KEY) || '[]'); }
+    catch (e) { return []; }
+};
+
+const saveDisabled = () => localStorage.setItem(DISABLED_KEY, JSON.stringify(
+    [...plugins.values()].filter(entry => !entry.enabled).map(entry => entry.plugin.name)));
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Runtime modules are untrusted input, so their shape is checked before anything is registered.
+const validate = (value: unknown): Plugin | string => {
+    if (!isRecord(value)) return 'module has no default export';
+    if (typeof value.name !== 'string' || !/^[\w-]+$/.test(value.name)) return 'plugin name must be a word';
+    if (typeof value.version !== 'string') return 'plugin version is missing';
+    if (!Array.isArray(value.commands)) return 'plugin has no commands';
+    for (const command of value.commands as unknown[]) {
+        if (!isRecord(command) || typeof command.name !== 'string' || typeof command.run !== 'function') return 'every command needs a name and a run function';
+        if (!COMMAND_NAME.test(command.name)) return `'${command.name}' is not a valid command name`;
+        if (typeof command.usage !== 'string' || typeof command.description !== 'string') return `command '${command.name}' needs a usage and a description`;
+    }
+    return value as unknown as Plugin;
+};
+
+const deactivate = async (entry: PluginEntry) => {
+    entry.plugin.commands.forEach(command => {
+        if (owners.get(command.name) !== entry) return;
+        owners.delete(command.name);
+        unregisterCommand(command.name);
+    });
+    try { await entry.plugin.deactivate?.(); }
+    catch (e) { console.error(`Plugin ${entry.plugin.name} failed to deactivate:`, e); }
+};
+
+// Registers the plugin's commands and runs its activate hook. Any failure leaves the plugin inactive
+// with the error recorded, without affecting other plugins or the shell.
+const activate = async (entry: PluginEntry): Promise<string | null> => {
+    entry.error = undefined;
+    const registered: string[] = [];
+    for (const { name, run, ...meta } of entry.plugin.commands) {
+        // Runtime modules may leave out the category; they are listed under `dev` then.
+        if (!registerCommand(name, { ...meta, category: meta.category in CATEGORIES ? meta.category : 'dev' })) {
+            registered.forEach(unregisterCommand);
+            entry.error = `command '${name}' already exists`;
+            return entry.error;
+        }
+        registered.push(name);
+    }
+    entry.plugin.commands.forEach(command => owners.set(command.name, entry));
+    try {
+        await entry.plugin.activate?.();
+        return null;
+    } catch (e) {
+        await deactivate(entry);
+        entry.error = `activation failed: ${errorMessage(e)}`;
+        return entry.error;
+    }
+};
+
+const addPlugin = async (plugin: Plugin, source: string): Promise<string | null> => {
+    const existing = plugins.get(plugin.name);
+    if (existing) {
+        if (existing.source !== source) return `a plugin named '${plugin.name}' is already loaded from ${existing.source}`;
+        if (existing.enabled) await deactivate(existing); // Reloading the same module replaces it
+    }
+    const entry: PluginEntry = { plugin, source, enabled: !disabledNames().includes(plugin.name) };
+    plugins.set(plugin.name, entry);
+    return entry.enabled ? activate(entry) : null;
+};
+
+let initialized: Promise<void> | null = null;
+
+// Loads the plugins bundled from src/plugins once per page. A module that fails to import is skipped.
+export const initPlugins = (): Promise<void> => {
+    if (!initialized) {
+        initialized = (async () => {
+            const modules = import.meta.glob<{ default: unknown }>('../plugins/*.ts');
+            for (const [path, load] of Object.entries(modules)) {
+                try {
+                    const plugin = validate((await load()).default);
+                    if (typeof plugin === 'string') throw new Error(plugin);
+                    const error = await addPlugin(plugin, 'builtin');
+                    if (error) console.error(`Plugin ${plugin.name}: ${error}`);
+                } catch (e) {
+                    console.error(`Failed to load plugin ${path}:`, e);
+                }
+            }
+        })();
+    }
+    return initialized;
+};
+
+// Imports a JS module from the VFS. Returns the plugin name, or throws with the reason it was rejected.
+export const loadPluginModule = async (code: string, source: string): Promise<string> => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+    let module: { default?: unknown };
+    try { module = await import(/* @vite-ignore */ url); }
+    catch (e) { throw new Error(`cannot import module: ${errorMessage(e)}`); }
+    finally { URL.revokeObjectURL(url); }
+    const plugin = validate(module.default);
+    if (typeof plugin === 'string') throw new Error(plugin);
+    const error = await addPlugin(plugin, source);
+    if (error) throw new Error(error);
+    return plugin.name;
+};
+
+export const setPluginEnabled = async (name: string, enabled: boolean): Promise<string | null> => {
+    const entry = plugins.get(name);
+    if (!entry) return `no such plugin: ${name}`;
+    if (entry.enabled === enabled && !entry.error) return null;
+    entry.enabled = enabled;
+    saveDisabled();
+    if (enabled) return activate(entry);
+    await deactivate(entry);
+    entry.error = undefined;
+    return null;
+};
+
+export const listPlugins = (): PluginInfo[] => [...plugins.values()].map(entry => ({
+    name: entry.plugin.name,
+    version: entry.plugin.version,
+    description: entry.plugin.description ?? '',
+    source: entry.source,
+    enabled: entry.enabled,
+    commands: entry.plugin.commands.map(command => command.name),
+    error: entry.error,
+}));
+
+// The plugin providing an active command, if any.
+export const pluginOf = (command: string): string | undefined => owners.get(command)?.plugin.name;
+
+// A plugin command gets its own signal, aborted when the job is killed or once it has run this long.
+// The shell stops waiting for it then, even if the plugin ignores the signal.
+const PLUGIN_TIMEOUT_MS = 60 * 1000;
+const TIMEOUT_EXIT_CODE = 124;
+
+// Runs a plugin command. Whatever the plugin throws or returns, the shell gets a well-formed result.
+export const runPluginCommand = async (name: string, args: string[], context: PluginContext): Promise<{ text: string[]; exitCode: number }> => {
+    const entry = owners.get(name);
+    const command = entry?.plugin.commands.find(candidate => candidate.name === name);
+    if (!entry || !command) return { text: [`zsh: command not found: ${name}`], exitCode: 127 };
+    const controller = new AbortController();
+    const kill = () => controller.abort(context.signal.reason);
+    if (context.signal.aborted) kill();
+    context.signal.addEventListener('abort', kill, { once: true });
+    const timer = setTimeout(() => controller.abort(new Error('timed out')), PLUGIN_TIMEOUT_MS);
+    const stopped = new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true }));
+    try {
+        const result = await Promise.race([command.run(args, { ...context, signal: controller.signal }), stopped]);
+        if (result === undefined || result === null) return { text: [], exitCode: 0 };
+        if (Array.isArray(result)) return { text: result.map(String), exitCode: 0 };
+        if (Array.isArray(result.text)) return { text: result.text.map(String), exitCode: Number(result.exitCode) || 0 };
+        return { text: [String(result)], exitCode: 0 };
+    } catch (e) {
+        if (context.signal.aborted) throw e; // Killed: the job reports it
+        if (controller.signal.aborted) return { text: [`${name}: plugin '${entry.plugin.name}' did not finish within ${PLUGIN_TIMEOUT_MS / 1000} seconds`], exitCode: TIMEOUT_EXIT_CODE };
+        console.error(`Plugin ${entry.plugin.name} crashed in '${name}':`, e);
+        return { text: [`${name}: plugin '${entry.plugin.name}' crashed: ${errorMessage(e)}`], exitCode: 1 };
+    } finally {
+        clearTimeout(timer);
+        context.signal.removeEventListener('abort', kill);
+    }
+};
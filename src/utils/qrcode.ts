@@ -0,0 +1,246 @@
+// --- QR Codes ---
+// A small QR code encoder for short texts such as otpauth:// URIs: byte mode, error correction level
+// M and versions 1 to 10, which holds up to 213 bytes. The steps follow ISO/IEC 18004: encode the
+// data, add Reed-Solomon codewords, draw the function patterns, place the codewords in a zigzag and
+// apply the mask pattern that scores the lowest penalty.
+const MAX_VERSION = 10;
+const ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];   // Level M, by version
+const BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+export type QrMatrix = boolean[][];   // [y][x], true for dark modules
+
+// Modules left for data and error correction once the function patterns are drawn.
+const rawDataModules = (version: number) => {
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const aligns = Math.floor(version / 7) + 2;
+        modules -= (25 * aligns - 10) * aligns - 55;
+        if (version >= 7) modules -= 36;
+    }
+    return modules;
+};
+
+const dataCodewords = (version: number) => Math.floor(rawDataModules(version) / 8) - ECC_PER_BLOCK[version] * BLOCKS[version];
+
+const alignmentPositions = (version: number): number[] => {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = version * 4 + 10; positions.length < count; position -= step) positions.splice(1, 0, position);
+    return positions;
+};
+
+// --- Reed-Solomon over GF(256), polynomial 0x11D ---
+const gfMultiply = (x: number, y: number) => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const rsDivisor = (degree: number) => {
+    const divisor = new Array<number>(degree).fill(0);
+    divisor[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            divisor[j] = gfMultiply(divisor[j], root);
+            if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+        }
+        root = gfMultiply(root, 2);
+    }
+    return divisor;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+    const remainder = divisor.map(() => 0);
+    for (const byte of data) {
+        const factor = byte ^ remainder.shift()!;
+        remainder.push(0);
+        divisor.forEach((coefficient, i) => { remainder[i] ^= gfMultiply(coefficient, factor); });
+    }
+    return remainder;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves the result.
+const addErrorCorrection = (version: number, data: number[]) => {
+    const blocks = BLOCKS[version], eccLength = ECC_PER_BLOCK[version];
+    const total = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blocks - total % blocks;
+    const shortLength = Math.floor(total / blocks);
+    const divisor = rsDivisor(eccLength);
+    const padded: number[][] = [];
+    for (let i = 0, offset = 0; i < blocks; i++) {
+        const block = data.slice(offset, offset + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+        offset += block.length;
+        const ecc = rsRemainder(block, divisor);
+        if (i < shortBlocks) block.push(0);   // Placeholder so all blocks line up; skipped below
+        padded.push([...block, ...ecc]);
+    }
+    const result: number[] = [];
+    for (let i = 0; i < padded[0].length; i++) {
+        padded.forEach((block, j) => { if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]); });
+    }
+    return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+// Long runs, 2x2 blocks, finder-like patterns and an uneven dark/light balance all make a code
+// harder to scan; each mask is scored on them.
+const penalty = (modules: QrMatrix) => {
+    const size = modules.length;
+    let score = 0;
+    const lines = [...modules, ...modules.map((_, x) => modules.map(row => row[x]))];
+    for (const line of lines) {
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) { run++; continue; }
+            if (run >= 5) score += run - 2;
+            run = 1;
+        }
+        const bits = line.map(dark => dark ? '1' : '0').join('');
+        score += 40 * (bits.match(/(?=10111010000|00001011101)/g)?.length ?? 0);
+    }
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const dark = modules[y][x];
+            if (modules[y][x + 1] === dark && modules[y + 1][x] === dark && modules[y + 1][x + 1] === dark) score += 3;
+        }
+    }
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += (Math.ceil(Math.abs(dark * 20 - size * size * 10) / (size * size)) - 1) * 10;
+    return score;
+};
+
+export const encodeQr = (text: string): QrMatrix => {
+    const bytes = new TextEncoder().encode(text);
+    let version = 1;
+    const headerBits = (v: number) => 4 + (v < 10 ? 8 : 16);
+    while (version <= MAX_VERSION && headerBits(version) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+    if (version > MAX_VERSION) throw new Error('Text is too long for a QR code');
+
+    // Mode indicator (byte), length, data, terminator and padding to the version's capacity.
+    const bits: number[] = [];
+    const append = (value: number, length: number) => { for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+    const capacity = dataCodewords(version) * 8;
+    append(0b0100, 4);
+    append(bytes.length, headerBits(version) - 4);
+    bytes.forEach(byte => append(byte, 8));
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - bits.length % 8) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    const codewords = addErrorCorrection(version, data);
+
+    const size = version * 4 + 17;
+    const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const reserved: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const set = (x: number, y: number, dark: boolean) => { modules[y][x] = dark; reserved[y][x] = true; };
+
+    for (let i = 0; i < size; i++) { set(6, i, i % 2 === 0); set(i, 6, i % 2 === 0); }   // Timing patterns
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {                      // Finder patterns and separators
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                if (cx + dx >= 0 && cx + dx < size && cy + dy >= 0 && cy + dy < size) set(cx + dx, cy + dy, distance !== 2 && distance !== 4);
+            }
+        }
+    }
+    const aligns = alignmentPositions(version);
+    aligns.forEach((ax, i) => aligns.forEach((ay, j) => {
+        // Alignment patterns, except where they would overlap a finder pattern.
+        if ((i === 0 && j === 0) || (i === 0 && j === aligns.length - 1) || (i === aligns.length - 1 && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) set(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    // Error correction level and mask, BCH-encoded, next to the finder patterns. Level M is 0b00.
+    const drawFormat = (mask: number) => {
+        let remainder = mask;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const format = ((mask << 10) | remainder) ^ 0x5412;
+        const bit = (i: number) => ((format >>> i) & 1) === 1;
+        for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+        set(8, 7, bit(6)); set(8, 8, bit(7)); set(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+        for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+        for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+        set(8, size - 8, true);
+    };
+    drawFormat(0);
+    if (version >= 7) {
+        let remainder = version;
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        const info = (version << 12) | remainder;
+        for (let i = 0; i < 18; i++) {
+            const dark = ((info >>> i) & 1) === 1;
+            const a = size - 11 + i % 3, b = Math.floor(i / 3);
+            set(a, b, dark); set(b, a, dark);
+        }
+    }
+
+    // Codewords go up and down two-module columns from the bottom right, skipping the vertical timing pattern.
+    let index = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical;
+                if (!reserved[y][x] && index < codewords.length * 8) {
+                    modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+                    index++;
+                }
+            }
+        }
+    }
+
+    const applyMask = (mask: number) => {
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+        }
+    };
+    let best = 0, bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        applyMask(mask);
+        drawFormat(mask);
+        const score = penalty(modules);
+        if (score < bestScore) { best = mask; bestScore = score; }
+        applyMask(mask);   // XOR again to undo
+    }
+    applyMask(best);
+    drawFormat(best);
+    return modules;
+};
+
+// Draws a QR code with half-block characters, two rows of modules per line. The light modules and
+// the quiet zone around the code are the ones drawn, so it reads dark-on-light on a dark terminal.
+export const renderQr = (modules: QrMatrix, quietZone = 2): string[] => {
+    const size = modules.length + quietZone * 2;
+    const light = (x: number, y: number) => y < size && !modules[y - quietZone]?.[x - quietZone];
+    const lines: string[] = [];
+    for (let y = 0; y < size; y += 2) {
+        let line = '';
+        for (let x = 0; x < size; x++) {
+            const top = light(x, y), bottom = light(x, y + 1);
+            line += top && bottom ? '█' : top ? '▀' : bottom ? '▄' : ' ';
+        }
+        lines.push(line);
+    }
+    return lines;
+};
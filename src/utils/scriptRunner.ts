@@ -0,0 +1,188 @@
+import { ShellSyntaxError } from './shellParser';
+
+// --- Shell Script Runner ---
+// Scripts are split into statements (newlines and top-level `;`) and grouped into
+// `if/elif/else/fi` and `for NAME in ...; do/done` blocks. Every other statement is a
+// regular command line that the caller executes through the normal command pipeline.
+
+interface Statement { text: string; line: number; }
+
+type ScriptNode =
+    | { type: 'command'; text: string; line: number }
+    | { type: 'if'; branches: { condition: Statement; body: ScriptNode[] }[]; elseBody: ScriptNode[] | null }
+    | { type: 'for'; variable: string; items: string; line: number; body: ScriptNode[] }
+    | { type: 'exit'; code: string; line: number };
+
+export interface ScriptHooks {
+    execute: (commandLine: string) => Promise<number>;
+    expand: (words: string) => Promise<string[]>;
+    setVariable: (name: string, value: string) => void;
+    errexit: () => boolean;
+}
+
+class ScriptExit {
+    constructor(public code: number) {}
+}
+
+const splitStatements = (source: string): Statement[] => {
+    const statements: Statement[] = [];
+    let current = '';
+    let line = 1;
+    let startLine = 1;
+    let quote: string | null = null;
+    let depth = 0;
+    const flush = () => {
+        if (current.trim()) statements.push({ text: current.trim(), line: startLine });
+        current = '';
+        startLine = line;
+    };
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (ch === '\n') line++;
+        if (quote) {
+            if (ch === '\\' && quote === '"' && i + 1 < source.length) { current += ch + source[++i]; continue; }
+            if (ch === quote) quote = null;
+            current += ch;
+            continue;
+        }
+        if (ch === '\\' && source[i + 1] === '\n') { i++; line++; current += ' '; continue; }
+        if (ch === '\\' && i + 1 < source.length) { current += ch + source[++i]; continue; }
+        if (ch === "'" || ch === '"') quote = ch;
+        if (ch === '$' && source[i + 1] === '(') { depth++; current += '$('; i++; continue; }
+        if (ch === ')' && depth > 0) depth--;
+        if (ch === '#' && depth === 0 && (current === '' || /\s/.test(current[current.length - 1]))) {
+            while (i + 1 < source.length && source[i + 1] !== '\n') i++;
+            continue;
+        }
+        if (depth === 0 && (ch === '\n' || (ch === ';' && source[i + 1] !== ';'))) {
+            flush();
+            continue;
+        }
+        current += ch;
+    }
+    if (quote) throw new ShellSyntaxError(`line ${startLine}: unmatched quote`);
+    flush();
+    return statements;
+};
+
+const keywordOf = (statement: Statement | undefined) => statement?.text.split(/\s+/)[0];
+
+const parseStatements = (statements: Statement[]): ScriptNode[] => {
+    let pos = 0;
+    const syntaxError = (statement: Statement | undefined, message: string) =>
+        new ShellSyntaxError(statement ? `line ${statement.line}: ${message}` : `unexpected end of file: ${message}`);
+
+    // Consumes a statement that must start with `keyword`. Anything after the keyword
+    // (e.g. `then echo hi`) is put back as the next statement.
+    const expectKeyword = (keyword: string) => {
+        const statement = statements[pos];
+        if (keywordOf(statement) !== keyword) throw syntaxError(statement, `expected '${keyword}'`);
+        const rest = statement.text.substring(keyword.length).trim();
+        if (rest) statements[pos] = { text: rest, line: statement.line };
+        else pos++;
+    };
+
+    const parseBlock = (terminators: string[]): ScriptNode[] => {
+        const nodes: ScriptNode[] = [];
+        while (pos < statements.length && !terminators.includes(keywordOf(statements[pos])!)) {
+            const statement = statements[pos];
+            const keyword = keywordOf(statement);
+            const rest = statement.text.substring(keyword!.length).trim();
+            if (keyword === 'if') {
+                pos++;
+                const branches = [{ condition: { text: rest, line: statement.line }, body: [] as ScriptNode[] }];
+                if (!rest) throw syntaxError(statement, "expected a condition after 'if'");
+                expectKeyword('then');
+                branches[0].body = parseBlock(['elif', 'else', 'fi']);
+                let elseBody: ScriptNode[] | null = null;
+                while (keywordOf(statements[pos]) === 'elif') {
+                    const elif = statements[pos++];
+                    const condition = { text: elif.text.substring(4).trim(), line: elif.line };
+                    expectKeyword('then');
+                    branches.push({ condition, body: parseBlock(['elif', 'else', 'fi']) });
+                }
+                if (keywordOf(statements[pos]) === 'else') {
+                    expectKeyword('else');
+                    elseBody = parseBlock(['fi']);
+                }
+                expectKeyword('fi');
+                nodes.push({ type: 'if', branches, elseBody });
+            } else if (keyword === 'for') {
+                const match = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s+in\b\s*(.*)$/);
+                if (!match) throw syntaxError(statement, 'usage: for NAME in WORDS...; do ...; done');
+                pos++;
+                expectKeyword('do');
+                const body = parseBlock(['done']);
+                expectKeyword('done');
+                nodes.push({ type: 'for', variable: match[1], items: match[2], line: statement.line, body });
+            } else if (keyword === 'exit') {
+                pos++;
+                nodes.push({ type: 'exit', code: rest, line: statement.line });
+            } else if (['then', 'elif', 'else', 'fi', 'do', 'done'].includes(keyword!)) {
+                throw syntaxError(statement, `parse error near '${keyword}'`);
+            } else {
+                pos++;
+                nodes.push({ type: 'command', text: statement.text, line: statement.line });
+            }
+        }
+        return nodes;
+    };
+
+    const nodes = parseBlock([]);
+    if (pos < statements.length) throw syntaxError(statements[pos], `parse error near '${keywordOf(statements[pos])}'`);
+    return nodes;
+};
+
+export const runScript = async (source: string, hooks: ScriptHooks): Promise<number> => {
+    const nodes = parseStatements(splitStatements(source));
+    let status = 0;
+
+    const execute = async (commandLine: string, line: number) => {
+        try { return await hooks.execute(commandLine); }
+        catch (e) {
+            if (e instanceof ShellSyntaxError) throw new ShellSyntaxError(`line ${line}: ${e.message}`);
+            throw e;
+        }
+    };
+
+    const run = async (block: ScriptNode[]): Promise<void> => {
+        for (const node of block) {
+            if (node.type === 'command') {
+                status = await execute(node.text, node.line);
+                if (status !== 0 && hooks.errexit()) throw new ScriptExit(status);
+            } else if (node.type === 'if') {
+                let matched = false;
+                for (const branch of node.branches) {
+                    // Conditions never trigger `set -e`, just like in a real shell.
+                    if (await execute(branch.condition.text, branch.condition.line) === 0) {
+                        matched = true;
+                        status = 0;
+                        await run(branch.body);
+                        break;
+                    }
+                }
+                if (!matched) {
+                    status = 0;
+                    if (node.elseBody) await run(node.elseBody);
+                }
+            } else if (node.type === 'for') {
+                status = 0;
+                for (const item of await hooks.expand(node.items)) {
+                    hooks.setVariable(node.variable, item);
+                    await run(node.body);
+                }
+            } else {
+                const [code] = node.code ? await hooks.expand(node.code) : [];
+                throw new ScriptExit(code === undefined ? status : (parseInt(code, 10) || 0));
+            }
+        }
+    };
+
+    try {
+        await run(nodes);
+        return status;
+    } catch (e) {
+        if (e instanceof ScriptExit) return e.code;
+        throw e;
+    }
+};
@@ -0,0 +1,31 @@
+import { OutputLine, lineText } from './output';
+
+// --- Scrollback ---
+// The terminal's output is a list of lines with ids that only ever grow, so rows can be keyed and
+// memoized while the oldest lines are dropped once the list is longer than the limit.
+export interface ScrollbackLine { id: number; line: OutputLine; }
+
+export const DEFAULT_SCROLLBACK = 5000;
+export const MIN_SCROLLBACK = 100;
+export const MAX_SCROLLBACK = 100000;
+const SCROLLBACK_KEY = 'terminal-scrollback';
+
+export const loadScrollbackLimit = (): number => {
+    const saved = parseInt(localStorage.getItem(SCROLLBACK_KEY) ?? '', 10);
+    return saved >= MIN_SCROLLBACK && saved <= MAX_SCROLLBACK ? saved : DEFAULT_SCROLLBACK;
+};
+
+export const saveScrollbackLimit = (limit: number) => localStorage.setItem(SCROLLBACK_KEY, String(limit));
+
+// Keeps the newest `limit` lines.
+export const trimScrollback = (lines: ScrollbackLine[], limit: number): ScrollbackLine[] =>
+    lines.length > limit ? lines.slice(lines.length - limit) : lines;
+
+// --- Search ---
+// A case-insensitive matcher for a search query, or null for an empty query. The capture group lets
+// the renderer split text around the matches.
+export const searchPattern = (query: string): RegExp | null =>
+    query ? new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'i') : null;
+
+// Matches against the text as shown, not the escapes or segment structure behind it.
+export const lineMatches = (line: OutputLine, pattern: RegExp): boolean => pattern.test(lineText(line));
@@ -0,0 +1,245 @@
+// --- Shell Tokenizer & Parser ---
+// Turns a raw command line into a small AST:
+//   list      := and_or ((';' | '&') and_or)* ['&']
+//   and_or    := pipeline (('&&' | '||') pipeline)*
+//   pipeline  := command ('|' command)*
+//   command   := (word | redirect)+
+// Words keep track of which parts were quoted so expansion can decide what gets split. An and_or
+// list ended by `&` runs in the background; it keeps its source text to show up in the job table.
+// `$NAME`, `${NAME}`, `$?`, `$#`, `$@` and `$0`-`$9` become variable parts, `$(...)` becomes a substitution part.
+
+export type Operator = '|' | '||' | '&&' | ';' | '&' | '>' | '>>' | '<';
+export type RedirectOperator = '>' | '>>' | '<';
+
+export type WordPart =
+    | { type: 'text'; value: string; quoted: boolean }
+    | { type: 'var'; name: string; quoted: boolean }
+    | { type: 'subst'; command: string; quoted: boolean };
+export type Word = WordPart[];
+
+export interface Redirect { op: RedirectOperator; target: Word; }
+export interface SimpleCommand { words: Word[]; redirects: Redirect[]; }
+export interface Pipeline { commands: SimpleCommand[]; }
+export interface AndOrList { first: Pipeline; rest: { op: '&&' | '||'; pipeline: Pipeline }[]; background: boolean; source: string; }
+export type CommandList = AndOrList[];
+
+// `start`/`end` are offsets into the input line.
+type Token = ({ type: 'word'; word: Word } | { type: 'op'; op: Operator }) & { start: number; end: number };
+
+export class ShellSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShellSyntaxError';
+    }
+}
+
+const REDIRECT_OPS: Operator[] = ['>', '>>', '<'];
+export const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Reads a variable reference starting at the `$`. Returns the name and the index after it, or null for a literal `$`.
+const readVariable = (input: string, start: number): [string, number] | null => {
+    const next = input[start + 1];
+    if (next !== undefined && /^[?#@0-9]$/.test(next)) return [next, start + 2];
+    if (next === '{') {
+        const close = input.indexOf('}', start + 2);
+        const name = close === -1 ? '' : input.substring(start + 2, close);
+        if (!/^[?#@0-9]$/.test(name) && !VARIABLE_NAME.test(name)) throw new ShellSyntaxError(`bad substitution: ${input.substring(start, close === -1 ? undefined : close + 1)}`);
+        return [name, close + 1];
+    }
+    const match = input.substring(start + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    return match ? [match[0], start + 1 + match[0].length] : null;
+};
+
+// Reads the body of a `$(...)` starting right after the opening paren. Returns the body and the index after `)`.
+const readSubstitution = (input: string, start: number): [string, number] => {
+    let depth = 1;
+    let i = start;
+    while (i < input.length) {
+        const ch = input[i];
+        if (ch === '\\') { i += 2; continue; }
+        if (ch === "'" || ch === '"') {
+            const close = input.indexOf(ch, i + 1);
+            if (close === -1) throw new ShellSyntaxError('unmatched quote');
+            i = close + 1;
+            continue;
+        }
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth === 0) return [input.substring(start, i), i + 1];
+        i++;
+    }
+    throw new ShellSyntaxError("parse error: missing ')'");
+};
+
+export const tokenize = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    let current: Word | null = null;
+    let wordStart = 0;
+    let i = 0;
+
+    const pushPart = (part: WordPart) => {
+        if (!current) { current = []; wordStart = i; }
+        const last = current[current.length - 1];
+        if (part.type === 'text' && last?.type === 'text' && last.quoted === part.quoted) last.value += part.value;
+        else current.push(part);
+    };
+    const pushText = (value: string, quoted: boolean) => pushPart({ type: 'text', value, quoted });
+    const endWord = () => {
+        if (current) tokens.push({ type: 'word', word: current, start: wordStart, end: i });
+        current = null;
+    };
+
+    while (i < input.length) {
+        const ch = input[i];
+        const next = input[i + 1];
+
+        if (/\s/.test(ch)) { endWord(); i++; continue; }
+        if (ch === '#' && current === null) break; // Comment until end of line
+        if (ch === '\\') {
+            if (next !== undefined) pushText(next, true);
+            i += 2;
+            continue;
+        }
+        if (ch === "'") {
+            const close = input.indexOf("'", i + 1);
+            if (close === -1) throw new ShellSyntaxError('unmatched quote');
+            pushText(input.substring(i + 1, close), true);
+            i = close + 1;
+            continue;
+        }
+        if (ch === '"') {
+            pushText('', true); // `""` still produces an (empty) word
+            i++;
+            while (i < input.length && input[i] !== '"') {
+                if (input[i] === '\\' && ['"', '\\', '$', '`'].includes(input[i + 1])) {
+                    pushText(input[i + 1], true); i += 2;
+                } else if (input[i] === '$' && input[i + 1] === '(') {
+                    const [command, end] = readSubstitution(input, i + 2);
+                    pushPart({ type: 'subst', command, quoted: true }); i = end;
+                } else if (input[i] === '$' && readVariable(input, i)) {
+                    const [name, end] = readVariable(input, i)!;
+                    pushPart({ type: 'var', name, quoted: true }); i = end;
+                } else {
+                    pushText(input[i], true); i++;
+                }
+            }
+            if (i >= input.length) throw new ShellSyntaxError('unmatched quote');
+            i++;
+            continue;
+        }
+        if (ch === '$' && next === '(') {
+            const [command, end] = readSubstitution(input, i + 2);
+            pushPart({ type: 'subst', command, quoted: false });
+            i = end;
+            continue;
+        }
+        if (ch === '$') {
+            const variable = readVariable(input, i);
+            if (variable) {
+                pushPart({ type: 'var', name: variable[0], quoted: false });
+                i = variable[1];
+                continue;
+            }
+        }
+        if (ch === '|' || ch === '&' || ch === ';' || ch === '>' || ch === '<') {
+            endWord();
+            const pair = ch + (next ?? '');
+            if (pair === '||' || pair === '&&' || pair === '>>') {
+                tokens.push({ type: 'op', op: pair, start: i, end: i + 2 });
+                i += 2;
+            } else {
+                tokens.push({ type: 'op', op: ch as Operator, start: i, end: i + 1 });
+                i++;
+            }
+            continue;
+        }
+        pushText(ch, false);
+        i++;
+    }
+    endWord();
+    return tokens;
+};
+
+export const parse = (tokens: Token[], input: string): CommandList => {
+    let pos = 0;
+    const peekOp = (): Operator | undefined => {
+        const token = tokens[pos];
+        return token?.type === 'op' ? token.op : undefined;
+    };
+
+    const parseSimple = (): SimpleCommand => {
+        const command: SimpleCommand = { words: [], redirects: [] };
+        while (pos < tokens.length) {
+            const token = tokens[pos];
+            if (token.type === 'word') { command.words.push(token.word); pos++; continue; }
+            if (!REDIRECT_OPS.includes(token.op)) break;
+            const target = tokens[pos + 1];
+            if (target?.type !== 'word') throw new ShellSyntaxError(`parse error near '${token.op}'`);
+            command.redirects.push({ op: token.op as RedirectOperator, target: target.word });
+            pos += 2;
+        }
+        if (command.words.length === 0 && command.redirects.length === 0) {
+            throw new ShellSyntaxError(`parse error near '${peekOp() ?? '\\n'}'`);
+        }
+        return command;
+    };
+
+    const parsePipeline = (): Pipeline => {
+        const commands = [parseSimple()];
+        while (peekOp() === '|') { pos++; commands.push(parseSimple()); }
+        return { commands };
+    };
+
+    const parseAndOr = (): AndOrList => {
+        const start = tokens[pos].start;
+        const list: AndOrList = { first: parsePipeline(), rest: [], background: false, source: '' };
+        let op = peekOp();
+        while (op === '&&' || op === '||') {
+            pos++;
+            list.rest.push({ op, pipeline: parsePipeline() });
+            op = peekOp();
+        }
+        list.source = input.substring(start, tokens[pos - 1].end);
+        return list;
+    };
+
+    const lists: CommandList = [];
+    while (pos < tokens.length) {
+        if (peekOp() === ';') { pos++; continue; }
+        const list = parseAndOr();
+        lists.push(list);
+        if (peekOp() === '&') { list.background = true; pos++; continue; }
+        if (pos < tokens.length && peekOp() !== ';') throw new ShellSyntaxError(`parse error near '${peekOp()}'`);
+    }
+    return lists;
+};
+
+export const parseCommandLine = (input: string): CommandList => parse(tokenize(input), input);
+
+export interface Expansions {
+    substitute: (command: string) => Promise<string>;
+    lookup: (name: string) => string | undefined;
+}
+
+// Expands a word into zero or more fields. Unquoted variables and command substitutions are split on whitespace.
+export const expandWord = async (word: Word, expansions: Expansions): Promise<string[]> => {
+    const fields: string[] = [];
+    let current = '';
+    let hasField = false;
+    for (const part of word) {
+        if (part.type === 'text') { current += part.value; hasField = true; continue; }
+        const output = part.type === 'var'
+            ? expansions.lookup(part.name) ?? ''
+            : (await expansions.substitute(part.command)).replace(/\n+$/, '');
+        if (part.quoted) { current += output; hasField = true; continue; }
+        if (!output.trim()) continue;
+        output.split(/\s+/).forEach((piece, index) => {
+            if (index > 0 && hasField) { fields.push(current); current = ''; hasField = false; }
+            if (piece) { current += piece; hasField = true; }
+        });
+    }
+    if (hasField) fields.push(current);
+    return fields;
+};
+
+// Quotes a single argument so it survives being re-tokenized (used for alias expansion).
+export const quoteArg = (arg: string): string => /^[\w@%+=:,./~-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
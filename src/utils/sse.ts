@@ -0,0 +1,41 @@
+// --- Server-Sent Events ---
+// A small `text/event-stream` reader. The worker uses it to read Gemini's stream and the terminal
+// to read the worker's. Comment lines and the `id`/`retry` fields are ignored.
+export interface SseEvent { event: string; data: string; }
+
+const parseEvent = (block: string): SseEvent | null => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+        if (line.startsWith(':')) continue;
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.substring(0, colon);
+        const value = colon === -1 ? '' : line.substring(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+export async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+            buffer = blocks.pop()!;
+            for (const block of blocks) {
+                const event = parseEvent(block);
+                if (event) yield event;
+            }
+        }
+        const last = parseEvent(buffer.replace(/\r\n/g, '\n'));
+        if (last) yield last;
+    } finally {
+        reader.releaseLock();
+    }
+}
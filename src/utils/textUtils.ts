@@ -0,0 +1,87 @@
+// --- Text Utilities ---
+// Pure helpers behind the text-processing commands (find, diff, du...).
+
+// Converts a shell glob (`*`, `?`, `[abc]`) into an anchored regular expression.
+export const globToRegExp = (glob: string): RegExp => {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') source += '.*';
+        else if (ch === '?') source += '.';
+        else if (ch === '[' && glob.indexOf(']', i + 1) !== -1) {
+            const close = glob.indexOf(']', i + 1);
+            source += `[${glob.substring(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+            i = close;
+        }
+        else source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`);
+};
+
+export const formatSize = (bytes: number, human: boolean): string => {
+    if (!human) return String(Math.ceil(bytes / 1024));
+    const units = ['B', 'K', 'M', 'G'];
+    let size = bytes, unit = 0;
+    while (size >= 1024 && unit < units.length - 1) { size /= 1024; unit++; }
+    return `${unit === 0 ? size : size.toFixed(1)}${units[unit]}`;
+};
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+// Line diff based on the longest common subsequence. Files in the VFS are small, so O(n*m) is fine.
+const diffOps = (a: string[], b: string[]): DiffOp[] => {
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const ops: DiffOp[] = [];
+    let i = 0, j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) { ops.push({ type: ' ', line: a[i] }); i++; j++; }
+        else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) { ops.push({ type: '-', line: a[i] }); i++; }
+        else { ops.push({ type: '+', line: b[j] }); j++; }
+    }
+    return ops;
+};
+
+// Produces unified diff hunks (without the `---`/`+++` header). Returns [] when the inputs are identical.
+export const unifiedDiff = (a: string[], b: string[], context = 3): string[] => {
+    const ops = diffOps(a, b);
+    const changed = ops.map((op, index) => op.type !== ' ' ? index : -1).filter(index => index !== -1);
+    if (changed.length === 0) return [];
+
+    // Group changes whose context windows overlap into the same hunk.
+    const ranges: [number, number][] = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - context), end = Math.min(ops.length, index + context + 1);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1]) last[1] = end;
+        else ranges.push([start, end]);
+    }
+
+    const output: string[] = [];
+    for (const [start, end] of ranges) {
+        const before = ops.slice(0, start);
+        const hunk = ops.slice(start, end);
+        const oldStart = before.filter(op => op.type !== '+').length + 1;
+        const newStart = before.filter(op => op.type !== '-').length + 1;
+        const oldCount = hunk.filter(op => op.type !== '+').length;
+        const newCount = hunk.filter(op => op.type !== '-').length;
+        output.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+        output.push(...hunk.map(op => op.type + op.line));
+    }
+    return output;
+};
+
+// Parses durations like `90`, `30m`, `12h`, `7d` or `2w` into seconds. Returns null when invalid.
+export const parseDuration = (spec: string): number | null => {
+    const match = spec.trim().match(/^(\d+)([smhdw]?)$/);
+    if (!match) return null;
+    const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400, w: 604800 }[match[2] as '' | 's' | 'm' | 'h' | 'd' | 'w'];
+    return parseInt(match[1], 10) * unit;
+};
+
+export const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
@@ -0,0 +1,67 @@
+// --- TOTP ---
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps: HMAC-SHA1 over the number
+// of 30-second steps since the epoch, truncated to 6 digits. Secrets are exchanged in base32.
+export const TOTP_STEP = 30;
+const DIGITS = 6;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0, value = 0, output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32[(value << (5 - bits)) & 31];
+    return output;
+};
+
+// Spaces, dashes, padding and lower case are accepted, as apps display secrets in groups.
+export const base32Decode = (text: string) => {
+    const bytes: number[] = [];
+    let bits = 0, value = 0;
+    for (const char of text.toUpperCase().replace(/[\s=-]/g, '')) {
+        const index = BASE32.indexOf(char);
+        if (index < 0) throw new Error(`Invalid base32 character '${char}'`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+export const createTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const totpStep = (time = Date.now()) => Math.floor(time / 1000 / TOTP_STEP);
+
+export const totpCode = async (secret: string, step: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const counter = new DataView(new ArrayBuffer(8));
+    counter.setUint32(0, Math.floor(step / 2 ** 32));
+    counter.setUint32(4, step >>> 0);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+// The step the code belongs to, or null. One step of clock drift is tolerated either way; codes from
+// `after` or earlier are rejected so an intercepted code cannot be replayed.
+export const verifyTotp = async (secret: string, code: string, after = 0, time = Date.now()): Promise<number | null> => {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+    const now = totpStep(time);
+    for (const step of [now, now - 1, now + 1]) {
+        if (step > after && await totpCode(secret, step) === normalized) return step;
+    }
+    return null;
+};
+
+export const otpauthUri = (secret: string, account: string, issuer: string) =>
+    `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&digits=${DIGITS}&period=${TOTP_STEP}`;
@@ -0,0 +1,218 @@
+// --- VFS Data Model ---
+// Version 2 nodes carry metadata; version 1 (legacy) trees stored files as raw strings and
+// directories as plain objects. `migrateVfs` upgrades legacy trees on load, both in the
+// browser and in the worker, so every consumer can assume the current shape.
+export const VFS_VERSION = 2;
+export const DEFAULT_FILE_MODE = 0o644;
+export const DEFAULT_DIR_MODE = 0o755;
+
+export interface NodeMeta { mode: number; owner: string; ctime: number; mtime: number; }
+// Large or binary files keep their bytes in R2 (see /api/files); `content` is empty for them.
+export interface BlobRef { key: string; size: number; type: string; }
+export interface FileNode extends NodeMeta { type: 'file'; content: string; blob?: BlobRef; }
+export interface DirNode extends NodeMeta { type: 'dir'; children: { [name: string]: VfsNode }; }
+export type VfsNode = FileNode | DirNode;
+export interface VfsTree { version: number; '~': DirNode; }
+
+export const createFile = (content: string, owner: string, now = Date.now()): FileNode =>
+    ({ type: 'file', content, mode: DEFAULT_FILE_MODE, owner, ctime: now, mtime: now });
+export const createDir = (owner: string, children: DirNode['children'] = {}, now = Date.now()): DirNode =>
+    ({ type: 'dir', children, mode: DEFAULT_DIR_MODE, owner, ctime: now, mtime: now });
+export const createBlobFile = (blob: BlobRef, owner: string, now = Date.now()): FileNode => ({ ...createFile('', owner, now), blob });
+export const createVfs = (owner: string, home: DirNode['children'] = {}): VfsTree => ({ version: VFS_VERSION, '~': createDir(owner, home) });
+
+export const isFile = (node: VfsNode | undefined): node is FileNode => node?.type === 'file';
+export const isDir = (node: VfsNode | undefined): node is DirNode => node?.type === 'dir';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+export const migrateVfs = (data: unknown, owner: string): VfsTree => {
+    if (isRecord(data) && data.version === VFS_VERSION && isRecord(data['~']) && data['~'].type === 'dir') return data as unknown as VfsTree;
+    const now = Date.now();
+    // Anything that is neither a string nor an object becomes an empty directory.
+    const convert = (legacy: unknown): VfsNode => typeof legacy === 'string'
+        ? createFile(legacy, owner, now)
+        : createDir(owner, Object.fromEntries(Object.entries(isRecord(legacy) ? legacy : {}).map(([name, child]) => [name, convert(child)])), now);
+    return { version: VFS_VERSION, '~': convert(isRecord(data) ? data['~'] : undefined) as DirNode };
+};
+
+// --- VFS Helper Functions ---
+export const resolvePath = (path: string, currentPath: string): string => {
+    if (!path) return currentPath;
+    if (path.startsWith('~/')) path = path.substring(1);
+    if (path === '~') return '~';
+    // Absolute paths are normalized too; `..` never climbs above the home directory.
+    const base = path.startsWith('/') || currentPath === '~' ? [] : currentPath.substring(1).split('/');
+    const parts = base.concat(path.split('/'));
+    const newPathParts: string[] = [];
+    for (const part of parts) {
+        if (part === '..') { newPathParts.pop(); }
+        else if (part !== '.' && part !== '') { newPathParts.push(part); }
+    }
+    return newPathParts.length > 0 ? `/${newPathParts.join('/')}` : '~';
+};
+export const getObjectByPath = (obj: VfsTree, path: string): VfsNode | undefined => {
+    if (path === '~') return obj['~'];
+    if (!path.startsWith('/')) return undefined;
+    const parts = path.substring(1).split('/');
+    let current: VfsNode | undefined = obj['~'];
+    for (const part of parts) {
+        if (!isDir(current) || !Object.prototype.hasOwnProperty.call(current.children, part)) { return undefined; }
+        current = current.children[part];
+    }
+    return current;
+};
+const getParent = (obj: VfsTree, path: string): [DirNode, string] | null => {
+    if (path === '~' || !path.startsWith('/')) return null;
+    const parent = getObjectByPath(obj, dirname(path));
+    const fileName = basename(path);
+    return isDir(parent) && fileName ? [parent, fileName] : null;
+};
+export const setObjectByPath = (obj: VfsTree, path: string, value: VfsNode): boolean => {
+    const parent = getParent(obj, path);
+    if (!parent) return false;
+    parent[0].children[parent[1]] = value;
+    parent[0].mtime = Date.now();
+    return true;
+};
+export const deleteObjectByPath = (obj: VfsTree, path: string): boolean => {
+    const parent = getParent(obj, path);
+    if (!parent || !Object.prototype.hasOwnProperty.call(parent[0].children, parent[1])) return false;
+    delete parent[0].children[parent[1]];
+    parent[0].mtime = Date.now();
+    return true;
+};
+// Creates the file or replaces its content, keeping mode and owner of an existing file.
+export const writeFile = (obj: VfsTree, path: string, content: string, owner: string): boolean => {
+    const existing = getObjectByPath(obj, path);
+    if (isDir(existing)) return false;
+    if (isFile(existing)) {
+        existing.content = content;
+        delete existing.blob;
+        existing.mtime = Date.now();
+        return true;
+    }
+    return setObjectByPath(obj, path, createFile(content, owner));
+};
+
+export const dirname = (path: string): string => path === '~' ? '~' : path.substring(0, path.lastIndexOf('/')) || '~';
+export const basename = (path: string): string => path === '~' ? '~' : path.substring(path.lastIndexOf('/') + 1);
+export const byteSize = (content: string): number => new TextEncoder().encode(content).length;
+export const joinPath = (dir: string, name: string): string => dir === '~' ? `/${name}` : `${dir}/${name}`;
+export const nodeSize = (node: VfsNode): number => isFile(node)
+    ? node.blob?.size ?? byteSize(node.content)
+    : Object.values(node.children).reduce((sum, child) => sum + nodeSize(child), 0);
+// Object keys of every R2-backed file in the tree.
+export const blobKeys = (obj: VfsTree): Set<string> => {
+    const keys = new Set<string>();
+    const walk = (node: VfsNode) => {
+        if (isDir(node)) Object.values(node.children).forEach(walk);
+        else if (node.blob) keys.add(node.blob.key);
+    };
+    walk(obj['~']);
+    return keys;
+};
+
+// --- Incremental Sync ---
+// The client sends the server a list of per-path operations instead of the whole tree.
+// `update` on a directory only carries its metadata; its children are synced by their own ops.
+export type VfsPatchOp =
+    | { op: 'create'; path: string; node: VfsNode }
+    | { op: 'update'; path: string; node: VfsNode }
+    | { op: 'delete'; path: string };
+
+const sameMeta = (a: VfsNode, b: VfsNode) => a.mode === b.mode && a.owner === b.owner && a.ctime === b.ctime && a.mtime === b.mtime;
+const metaOnly = (node: DirNode): DirNode => ({ ...node, children: {} });
+
+// Patches and whole trees come from the network, so their shape is checked before they are stored.
+const isBlobRef = (value: unknown): value is BlobRef =>
+    isRecord(value) && typeof value.key === 'string' && typeof value.size === 'number' && typeof value.type === 'string';
+const isVfsNode = (value: unknown): value is VfsNode => {
+    if (!isRecord(value) || typeof value.mode !== 'number' || typeof value.owner !== 'string'
+        || typeof value.ctime !== 'number' || typeof value.mtime !== 'number') return false;
+    if (value.type === 'file') return typeof value.content === 'string' && (value.blob === undefined || isBlobRef(value.blob));
+    return value.type === 'dir' && isRecord(value.children) && Object.values(value.children).every(isVfsNode);
+};
+export const isPatchOp = (value: unknown): value is VfsPatchOp => isRecord(value) && typeof value.path === 'string'
+    && (value.op === 'delete' || ((value.op === 'create' || value.op === 'update') && isVfsNode(value.node)));
+export const isVfsTree = (value: unknown): value is VfsTree =>
+    isRecord(value) && value.version === VFS_VERSION && isVfsNode(value['~']) && value['~'].type === 'dir';
+
+export const diffVfs = (before: VfsTree, after: VfsTree): VfsPatchOp[] => {
+    const ops: VfsPatchOp[] = [];
+    const walk = (a: DirNode, b: DirNode, path: string) => {
+        if (!sameMeta(a, b)) ops.push({ op: 'update', path, node: metaOnly(b) });
+        for (const name of Object.keys(a.children)) {
+            if (!Object.prototype.hasOwnProperty.call(b.children, name)) ops.push({ op: 'delete', path: joinPath(path, name) });
+        }
+        for (const [name, node] of Object.entries(b.children)) {
+            const childPath = joinPath(path, name);
+            const old = a.children[name];
+            if (!old || old.type !== node.type) {
+                if (old) ops.push({ op: 'delete', path: childPath });
+                ops.push({ op: 'create', path: childPath, node });
+            } else if (isDir(old) && isDir(node)) {
+                walk(old, node, childPath);
+            } else if (isFile(old) && isFile(node) && (old.content !== node.content || old.blob?.key !== node.blob?.key || !sameMeta(old, node))) {
+                ops.push({ op: 'update', path: childPath, node });
+            }
+        }
+    };
+    walk(before['~'], after['~'], '~');
+    return ops;
+};
+
+// Applies the operations in order and stops at the first one that does not fit the tree.
+// Returns that error, or null when everything was applied. The tree is modified in place.
+export const applyPatch = (obj: VfsTree, ops: VfsPatchOp[]): string | null => {
+    for (const op of ops) {
+        const existing = getObjectByPath(obj, op.path);
+        if (op.op === 'update') {
+            if (!existing || existing.type !== op.node.type) return `update ${op.path}: no such ${op.node.type === 'dir' ? 'directory' : 'file'}`;
+            if (isDir(existing)) Object.assign(existing, metaOnly(op.node as DirNode), { children: existing.children });
+            else { delete existing.blob; Object.assign(existing, op.node); }
+            continue;
+        }
+        const parent = getParent(obj, op.path);
+        if (!parent) return `${op.op} ${op.path}: no such directory`;
+        if (op.op === 'create') {
+            if (existing) return `create ${op.path}: already exists`;
+            parent[0].children[parent[1]] = op.node;
+        } else {
+            if (!existing) return `delete ${op.path}: no such file or directory`;
+            delete parent[0].children[parent[1]];
+        }
+    }
+    return null;
+};
+
+// --- Permissions ---
+// Classic rwx bits for owner and others. There are no groups, so the group triplet mirrors the owner one.
+export type Access = 'r' | 'w' | 'x';
+const ACCESS_BITS: { [access in Access]: number } = { r: 4, w: 2, x: 1 };
+
+export const canAccess = (node: VfsNode, username: string | undefined, access: Access): boolean =>
+    ((node.mode >> (node.owner === username ? 6 : 0)) & ACCESS_BITS[access]) !== 0;
+
+export const formatMode = (node: VfsNode): string => (isDir(node) ? 'd' : '-') + [6, 3, 0]
+    .map(shift => (node.mode >> shift) & 7)
+    .map(bits => `${bits & 4 ? 'r' : '-'}${bits & 2 ? 'w' : '-'}${bits & 1 ? 'x' : '-'}`)
+    .join('');
+
+// Parses an octal (`755`) or symbolic (`u+x`, `go-w`, `a=r`, `+x`) mode. Returns null when invalid.
+export const parseMode = (spec: string, current: number): number | null => {
+    if (/^[0-7]{3,4}$/.test(spec)) return parseInt(spec, 8) & 0o777;
+    let mode = current;
+    for (const clause of spec.split(',')) {
+        const match = clause.match(/^([ugoa]*)([+=-])([rwx]*)$/);
+        if (!match) return null;
+        const [, who, op, perms] = match;
+        const shifts = (!who || who.includes('a') ? 'ugo' : who).split('').map(w => ({ u: 6, g: 3, o: 0 } as { [k: string]: number })[w]);
+        const bits = perms.split('').reduce((sum, p) => sum | ACCESS_BITS[p as Access], 0);
+        for (const shift of shifts) {
+            if (op === '+') mode |= bits << shift;
+            else if (op === '-') mode &= ~(bits << shift);
+            else mode = (mode & ~(7 << shift)) | (bits << shift);
+        }
+    }
+    return mode & 0o777;
+};
@@ -0,0 +1,54 @@
+import { VfsPatchOp, VfsTree } from './vfs';
+
+// --- Offline VFS Cache ---
+// One IndexedDB record per user holds the last known tree, the server revision it is based on
+// and the patch ops that have not reached the server yet. It lets the terminal start with the
+// user's files while offline and replay the queued edits once the connection is back.
+export interface CachedVfs {
+    tree: VfsTree;
+    etag: string | null;
+    queue: VfsPatchOp[];
+}
+
+const DB_NAME = 'web-zsh';
+const STORE = 'vfs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => { dbPromise = null; reject(request.error); };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Cache failures (private browsing, quota) must never break the terminal, so they only log.
+export const loadCachedVfs = async (username: string): Promise<CachedVfs | null> => {
+    try { return await run<CachedVfs | undefined>('readonly', store => store.get(username)) ?? null; }
+    catch (e) { console.warn('VFS cache unavailable:', e); return null; }
+};
+
+export const saveCachedVfs = async (username: string, entry: CachedVfs): Promise<void> => {
+    try { await run('readwrite', store => store.put(entry, username)); }
+    catch (e) { console.warn('Failed to update VFS cache:', e); }
+};
+
+// Drops every cached tree when a session ends, so no private files stay behind on the device.
+export const clearCachedVfs = async (): Promise<void> => {
+    try { await run('readwrite', store => store.clear()); }
+    catch (e) { console.warn('Failed to clear VFS cache:', e); }
+};
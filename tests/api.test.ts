@@ -0,0 +1,582 @@
+import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
+import { hashSync } from 'bcrypt-ts';
+import { onRequest } from '../functions/api/[[path]]';
+import { BlobRef, createBlobFile, createFile, createVfs } from '../src/utils/vfs';
+import { readEvents } from '../src/utils/sse';
+import { totpCode, totpStep } from '../src/utils/totp';
+import { createD1, createFetch, createKV, createR2, sseResponse } from './fakes';
+
+type Env = { DB: Awaited<ReturnType<typeof createD1>>; SITE_KV: ReturnType<typeof createKV>; SHARE_BUCKET: ReturnType<typeof createR2>; [key: string]: unknown };
+let env: Env;
+
+interface RequestOptions { method?: string; token?: string; body?: unknown; headers?: Record<string, string>; }
+
+const call = (path: string, { method = 'GET', token, body, headers = {} }: RequestOptions = {}) => {
+    const request = new Request(`https://terminal.test${path}`, {
+        method,
+        // Strings are sent as-is; anything else as JSON.
+        headers: { ...(body !== undefined && typeof body !== 'string' && { 'Content-Type': 'application/json' }), ...(token && { Authorization: `Bearer ${token}` }), ...headers },
+        body: body === undefined || typeof body === 'string' ? body : JSON.stringify(body),
+        redirect: 'manual',
+    });
+    return onRequest({ request, env } as unknown as Parameters<typeof onRequest>[0]) as Promise<Response>;
+};
+
+const login = async (username: string, password = 'secret') => {
+    const response = await call('/api/login', { method: 'POST', body: { username, password, turnstileToken: 'ok' } });
+    return (await response.json() as { token: string }).token;
+};
+
+beforeEach(async () => {
+    env = { DB: await createD1(), SITE_KV: createKV(), SHARE_BUCKET: createR2(), JWT_SECRET: 'test-secret', TURNSTILE_SECRET_KEY: 'turnstile', GEMINI_API_KEY: 'gemini' };
+    // A low bcrypt cost keeps the suite fast; compareSync reads the cost from the hash.
+    await env.DB.prepare('INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?), (?, ?, ?)')
+        .bind('admin', hashSync('secret', 4), 'admin', 'alice', hashSync('secret', 4), 'guest').run();
+    vi.stubGlobal('fetch', createFetch([
+        ['https://challenges.cloudflare.com/turnstile/', async (request) => {
+            const form = await request.formData();
+            return Response.json({ success: form.get('response') === 'ok' && form.get('secret') === 'turnstile' });
+        }],
+        ['https://generativelanguage.googleapis.com/', async (request) => {
+            const { contents } = await request.json() as { contents: { parts: { text: string }[] }[] };
+            if (contents[0].parts[0].text === 'fail') return new Response('quota exceeded', { status: 429, statusText: 'Too Many Requests' });
+            const chunk = (text: string) => ({ data: JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] }) });
+            return sseResponse([chunk('echo: '), chunk(contents[0].parts[0].text)]);
+        }],
+        ['https://netease-cloud-music-api-nine-delta-39.vercel.app/search', () =>
+            Response.json({ code: 200, result: { songs: [{ id: 1, name: 'Song', ar: [{ name: 'Artist' }] }] } })],
+    ]));
+});
+
+afterEach(() => { vi.unstubAllGlobals(); vi.restoreAllMocks(); });
+
+describe('login', () => {
+    it('returns a token and the user for valid credentials', async () => {
+        const response = await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'secret', turnstileToken: 'ok' } });
+        expect(response.status).toBe(200);
+        const data = await response.json() as { token: string; user: unknown };
+        expect(data.user).toEqual({ username: 'alice', role: 'guest', permissions: ['ai.use', 'files.upload', 'net.curl', 'share.create', 'vfs.write'] });
+        expect(data.token.split('.')).toHaveLength(3);
+    });
+
+    it('rejects missing fields, failed bot checks and wrong passwords', async () => {
+        expect((await call('/api/login', { method: 'POST', body: { username: 'alice' } })).status).toBe(400);
+        expect((await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'secret', turnstileToken: 'bad' } })).status).toBe(403);
+        expect((await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'wrong', turnstileToken: 'ok' } })).status).toBe(401);
+        expect((await call('/api/login', { method: 'POST', body: { username: 'nobody', password: 'secret', turnstileToken: 'ok' } })).status).toBe(401);
+    });
+
+    it('rejects requests without a valid token', async () => {
+        expect((await call('/api/vfs')).status).toBe(401);
+        expect((await call('/api/vfs', { token: 'not.a.jwt' })).status).toBe(401);
+    });
+});
+
+describe('sessions', () => {
+    const start = async (username: string) => {
+        const response = await call('/api/login', { method: 'POST', body: { username, password: 'secret', turnstileToken: 'ok' }, headers: { 'User-Agent': 'Firefox/1' } });
+        return await response.json() as { token: string; refreshToken: string };
+    };
+    const refresh = (refreshToken: string) => call('/api/refresh', { method: 'POST', body: { refreshToken } });
+
+    it('issues short-lived access tokens and rotates the refresh token', async () => {
+        const { token, refreshToken } = await start('alice');
+        const { exp } = JSON.parse(atob(token.split('.')[1])) as { exp: number };
+        expect(exp - Date.now() / 1000).toBeLessThanOrEqual(15 * 60);
+        const renewed = await refresh(refreshToken);
+        expect(renewed.status).toBe(200);
+        const next = await renewed.json() as { token: string; refreshToken: string; user: unknown };
+        expect(next.refreshToken).not.toBe(refreshToken);
+        expect(next.user).toMatchObject({ username: 'alice', role: 'guest' });
+        expect((await call('/api/vfs', { token: next.token })).status).toBe(200);
+        expect((await refresh('unknown')).status).toBe(401);
+    });
+
+    it('revokes the session when a rotated refresh token is used again', async () => {
+        const { refreshToken } = await start('alice');
+        const next = await (await refresh(refreshToken)).json() as { token: string; refreshToken: string };
+        expect((await refresh(refreshToken)).status).toBe(401);
+        expect((await refresh(next.refreshToken)).status).toBe(401);
+        expect((await call('/api/vfs', { token: next.token })).status).toBe(401);
+    });
+
+    it('lists the caller\'s sessions and signs single devices out', async () => {
+        const first = await start('alice');
+        const second = await start('alice');
+        await start('admin');
+        const { sessions } = await (await call('/api/sessions', { token: first.token })).json() as { sessions: { id: string; userAgent: string; current: boolean }[] };
+        expect(sessions).toHaveLength(2);
+        expect(sessions.filter(session => session.current)).toHaveLength(1);
+        expect(sessions[0].userAgent).toBe('Firefox/1');
+        const other = sessions.find(session => !session.current)!;
+        expect((await call(`/api/sessions/${other.id}`, { method: 'DELETE', token: first.token })).status).toBe(200);
+        expect((await call('/api/vfs', { token: second.token })).status).toBe(401);
+        expect((await refresh(second.refreshToken)).status).toBe(401);
+        expect((await call(`/api/sessions/${other.id}`, { method: 'DELETE', token: first.token })).status).toBe(404);
+    });
+
+    it('ends one or all sessions on logout', async () => {
+        const first = await start('alice');
+        const second = await start('alice');
+        await call('/api/logout', { method: 'POST', token: first.token, body: {} });
+        expect((await call('/api/vfs', { token: first.token })).status).toBe(401);
+        expect((await call('/api/vfs', { token: second.token })).status).toBe(200);
+        const third = await start('alice');
+        await call('/api/logout', { method: 'POST', token: third.token, body: { all: true } });
+        expect((await call('/api/vfs', { token: second.token })).status).toBe(401);
+        expect((await call('/api/vfs', { token: third.token })).status).toBe(401);
+    });
+
+    it('signs users out when an admin revokes them or changes their password', async () => {
+        const admin = await start('admin');
+        const alice = await start('alice');
+        const revoked = await call('/api/admin/revoke', { method: 'POST', token: admin.token, body: { username: 'alice' } });
+        expect(await revoked.json()).toMatchObject({ message: "Revoked 1 session(s) of 'alice'." });
+        expect((await call('/api/vfs', { token: alice.token })).status).toBe(401);
+        expect((await call('/api/admin/revoke', { method: 'POST', token: admin.token, body: { username: 'nobody' } })).status).toBe(404);
+
+        const again = await start('alice');
+        await call('/api/admin/passwd', { method: 'POST', token: admin.token, body: { username: 'alice', newPassword: 'changed it' } });
+        expect((await refresh(again.refreshToken)).status).toBe(401);
+        expect((await call('/api/vfs', { token: admin.token })).status).toBe(200);
+
+        const deleted = await start('admin');
+        await call('/api/admin/userdel', { method: 'POST', token: deleted.token, body: { username: 'alice' } });
+        expect(await env.DB.prepare('SELECT COUNT(*) AS n FROM sessions WHERE user_id = 2').first('n')).toBe(0);
+    });
+});
+
+describe('login throttling and audit log', () => {
+    const attempt = (username: string, password: string, ip = '198.51.100.1') =>
+        call('/api/login', { method: 'POST', body: { username, password, turnstileToken: 'ok' }, headers: { 'CF-Connecting-IP': ip } });
+
+    it('locks an account out with growing delays after repeated failures', async () => {
+        for (let i = 0; i < 4; i++) expect((await attempt('alice', 'wrong')).status).toBe(401);
+        expect((await attempt('alice', 'wrong')).status).toBe(401);
+        const locked = await attempt('alice', 'secret');
+        expect(locked.status).toBe(429);
+        expect(Number(locked.headers.get('Retry-After'))).toBeGreaterThan(25);
+        expect((await attempt('admin', 'secret')).status).toBe(200);
+
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now + 31 * 1000);
+        expect((await attempt('alice', 'wrong')).status).toBe(401);
+        expect(Number((await attempt('alice', 'secret')).headers.get('Retry-After'))).toBeGreaterThan(55);
+        vi.spyOn(Date, 'now').mockReturnValue(now + 200 * 1000);
+        expect((await attempt('alice', 'secret')).status).toBe(200);
+        await expect(env.DB.prepare("SELECT key FROM login_failures").all()).resolves.toMatchObject({ results: [{ key: 'ip:198.51.100.1' }] });
+    });
+
+    it('counts parallel failures without losing any', async () => {
+        await Promise.all(Array.from({ length: 5 }, () => attempt('alice', 'wrong')));
+        await expect(env.DB.prepare("SELECT count FROM login_failures WHERE key = 'user:alice'").first('count')).resolves.toBe(5);
+        expect((await attempt('alice', 'secret')).status).toBe(429);
+    });
+
+    it('records logins, failures and account changes for admins to browse', async () => {
+        await attempt('alice', 'wrong');
+        const admin = await login('admin');
+        await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'bob', password: 'long enough', role: 'guest' } });
+        await call('/api/admin/userdel', { method: 'POST', token: admin, body: { username: 'bob' } });
+        const { entries } = await (await call('/api/admin/audit', { token: admin })).json() as { entries: { actor: string | null; action: string; target: string | null; ip: string | null }[] };
+        expect(entries.map(entry => [entry.actor, entry.action, entry.target])).toEqual([
+            [null, 'login_failed', 'alice'], ['admin', 'login', null], ['admin', 'useradd', 'bob'], ['admin', 'userdel', 'bob'], ['admin', 'vfs_wipe', 'bob'],
+        ]);
+        expect(entries[0].ip).toBe('198.51.100.1');
+        const filtered = await (await call('/api/admin/audit?user=bob&since=1', { token: admin })).json() as { entries: unknown[] };
+        expect(filtered.entries).toHaveLength(3);
+        expect((await call('/api/admin/audit', { token: await login('alice') })).status).toBe(403);
+    });
+
+    it('shows guests only their own login history', async () => {
+        await login('admin');
+        const alice = await login('alice');
+        const { entries } = await (await call('/api/audit/logins?user=admin', { token: alice })).json() as { entries: { actor: string }[] };
+        expect(entries.map(entry => entry.actor)).toEqual(['alice']);
+        const { users } = await (await call('/api/audit/lastlog', { token: await login('admin') })).json() as { users: { username: string; time: number | null }[] };
+        expect(users.map(user => user.username)).toEqual(['admin', 'alice']);
+        expect(users.every(user => user.time)).toBe(true);
+    });
+
+    it('records sudo use reported by the client', async () => {
+        const alice = await login('alice');
+        expect((await call('/api/audit', { method: 'POST', token: alice, body: { action: 'sudo_denied', command: 'userdel admin' } })).status).toBe(201);
+        expect((await call('/api/audit', { method: 'POST', token: alice, body: { action: 'useradd' } })).status).toBe(400);
+        const { entries } = await (await call('/api/admin/audit?user=alice', { token: await login('admin') })).json() as { entries: { action: string; detail: string }[] };
+        expect(entries[entries.length - 1]).toMatchObject({ action: 'sudo_denied', detail: 'userdel admin' });
+    });
+});
+
+describe('two-factor authentication', () => {
+    const enable = async (token: string) => {
+        const { secret, uri } = await (await call('/api/2fa/setup', { method: 'POST', token })).json() as { secret: string; uri: string };
+        expect(uri).toBe(`otpauth://totp/Linkium:alice?secret=${secret}&issuer=Linkium&digits=6&period=30`);
+        expect((await call('/api/2fa/enable', { method: 'POST', token, body: { code: '000000' } })).status).toBe(400);
+        const enabled = await call('/api/2fa/enable', { method: 'POST', token, body: { code: await totpCode(secret, totpStep()) } });
+        return { secret, ...await enabled.json() as { recoveryCodes: string[] } };
+    };
+    const start = async () => {
+        const response = await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'secret', turnstileToken: 'ok' } });
+        return await response.json() as { token?: string; twoFactorRequired?: boolean; challenge: string };
+    };
+    const finish = (challenge: string, code: string) => call('/api/login/verify', { method: 'POST', body: { challenge, code } });
+
+    it('asks for a code after the password once enabled', async () => {
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now);   // Keeps every code below in the same 30 s step
+        const token = await login('alice');
+        const { secret, recoveryCodes } = await enable(token);
+        expect(recoveryCodes).toHaveLength(10);
+        expect((await call('/api/2fa/setup', { method: 'POST', token })).status).toBe(409);
+
+        const first = await start();
+        expect(first).toEqual({ twoFactorRequired: true, challenge: expect.any(String) });
+        expect((await call('/api/vfs', { token: first.challenge })).status).toBe(401);
+        expect((await finish(first.challenge, '123456')).status).toBe(401);
+        // The code that confirmed the setup cannot be replayed; the next one works.
+        expect((await finish(first.challenge, await totpCode(secret, totpStep()))).status).toBe(401);
+        vi.spyOn(Date, 'now').mockReturnValue(now + 30 * 1000);
+        const verified = await finish(first.challenge, await totpCode(secret, totpStep()));
+        const { token: session } = await verified.json() as { token: string };
+        expect((await call('/api/vfs', { token: session })).status).toBe(200);
+        expect((await finish('not.a.jwt', '123456')).status).toBe(401);
+    });
+
+    it('accepts each recovery code once and can be turned off', async () => {
+        const token = await login('alice');
+        const { recoveryCodes } = await enable(token);
+        expect((await finish((await start()).challenge, recoveryCodes[0].toUpperCase())).status).toBe(200);
+        expect((await finish((await start()).challenge, recoveryCodes[0])).status).toBe(401);
+        expect(await (await call('/api/2fa', { token })).json()).toEqual({ enabled: true, recoveryCodesLeft: 9 });
+
+        expect((await call('/api/2fa/disable', { method: 'POST', token, body: { code: recoveryCodes[0] } })).status).toBe(400);
+        expect((await call('/api/2fa/disable', { method: 'POST', token, body: { code: recoveryCodes[1] } })).status).toBe(200);
+        expect((await start()).token).toEqual(expect.any(String));
+        expect(await (await call('/api/2fa', { token })).json()).toEqual({ enabled: false, recoveryCodesLeft: 0 });
+    });
+});
+
+describe('role checks', () => {
+    it('only lets admins manage users', async () => {
+        const guest = await login('alice');
+        const admin = await login('admin');
+        expect((await call('/api/admin/useradd', { method: 'POST', token: guest, body: { username: 'bob', password: 'long enough', role: 'guest' } })).status).toBe(403);
+        const created = await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'bob', password: 'long enough', role: 'guest' } });
+        expect(await created.json()).toMatchObject({ success: true });
+        expect((await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'bob', password: 'long enough', role: 'guest' } })).status).toBe(500);
+        expect((await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'eve', password: 'long enough', role: 'root' } })).status).toBe(400);
+        expect((await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'Eve!', password: 'long enough', role: 'guest' } })).status).toBe(400);
+        expect((await call('/api/admin/useradd', { method: 'POST', token: admin, body: { username: 'eve', password: 'pw', role: 'guest' } })).status).toBe(400);
+    });
+
+    it('deletes users together with their file system', async () => {
+        const admin = await login('admin');
+        await call('/api/vfs', { token: await login('alice') });
+        expect(env.SITE_KV.entries.has('vfs_alice')).toBe(true);
+        const response = await call('/api/admin/userdel', { method: 'POST', token: admin, body: { username: 'alice' } });
+        expect(await response.json()).toMatchObject({ success: true });
+        expect(env.SITE_KV.entries.has('vfs_alice')).toBe(false);
+        expect(await (await call('/api/admin/userdel', { method: 'POST', token: admin, body: { username: 'admin' } })).json()).toMatchObject({ error: expect.any(String) });
+    });
+});
+
+describe('user management', () => {
+    it('lists accounts with their last login and changes roles', async () => {
+        const admin = await login('admin');
+        const alice = await login('alice');
+        expect((await call('/api/admin/users', { token: alice })).status).toBe(403);
+        const { users } = await (await call('/api/admin/users', { token: admin })).json() as { users: { username: string; role: string; locked: boolean; lastLogin: number | null }[] };
+        expect(users.map(user => user.username)).toEqual(['admin', 'alice']);
+        expect(users[1]).toMatchObject({ role: 'guest', locked: false, lastLogin: expect.any(Number) });
+
+        const promote = (token: string, username: string, body: unknown) => call(`/api/admin/users/${username}`, { method: 'PATCH', token, body });
+        expect((await promote(admin, 'alice', { role: 'root' })).status).toBe(400);
+        expect((await promote(admin, 'admin', { locked: true })).status).toBe(400);
+        expect((await promote(admin, 'nobody', { role: 'admin' })).status).toBe(404);
+        expect(await (await promote(admin, 'alice', { role: 'admin' })).json()).toMatchObject({ message: "User 'alice' updated (role=admin)." });
+        // The new role applies to the session alice already has.
+        expect((await call('/api/admin/users', { token: alice })).status).toBe(200);
+        await expect(env.DB.prepare("SELECT * FROM audit_log WHERE action = 'usermod'").first()).resolves.toMatchObject({ actor: 'admin', target: 'alice', detail: 'role=admin' });
+    });
+
+    it('locks accounts out of new and existing sessions', async () => {
+        const admin = await login('admin');
+        const alice = await (await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'secret', turnstileToken: 'ok' } })).json() as { token: string; refreshToken: string };
+        await call('/api/admin/users/alice', { method: 'PATCH', token: admin, body: { locked: true } });
+        expect((await call('/api/vfs', { token: alice.token })).status).toBe(401);
+        expect((await call('/api/refresh', { method: 'POST', body: { refreshToken: alice.refreshToken } })).status).toBe(401);
+        expect((await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'secret', turnstileToken: 'ok' } })).status).toBe(403);
+        // A wrong password does not reveal the lock.
+        expect((await call('/api/login', { method: 'POST', body: { username: 'alice', password: 'wrong', turnstileToken: 'ok' } })).status).toBe(401);
+        await call('/api/admin/users/alice', { method: 'PATCH', token: admin, body: { locked: false } });
+        expect(await login('alice')).toEqual(expect.any(String));
+    });
+
+    it('registers guests with invite codes', async () => {
+        const admin = await login('admin');
+        const register = (invite: string, username: string, password = 'long enough') => call('/api/register', { method: 'POST', body: { invite, username, password } });
+        const { code } = await (await call('/api/admin/invites', { method: 'POST', token: admin, body: { uses: 1, ttl: 3600 } })).json() as { code: string };
+        expect((await register('nope', 'bob')).status).toBe(403);
+        expect((await register(code, 'Bob!')).status).toBe(400);
+        expect((await register(code, 'bob', 'short')).status).toBe(400);
+        expect((await register(code, 'alice')).status).toBe(409);
+        expect((await register(code, 'bob')).status).toBe(201);
+        expect((await register(code, 'carol')).status).toBe(403);
+        const bob = await (await call('/api/login', { method: 'POST', body: { username: 'bob', password: 'long enough', turnstileToken: 'ok' } })).json() as { user: unknown };
+        expect(bob.user).toMatchObject({ username: 'bob', role: 'guest' });
+        expect(await (await call('/api/admin/invites', { token: admin })).json()).toEqual({ invites: [] });
+
+        const second = await (await call('/api/admin/invites', { method: 'POST', token: admin, body: {} })).json() as { code: string };
+        expect((await call(`/api/admin/invites/${second.code}`, { method: 'DELETE', token: admin })).status).toBe(200);
+        expect((await register(second.code, 'carol')).status).toBe(403);
+
+        // Losing a race for the name is a conflict and leaves the invite usable.
+        const third = await (await call('/api/admin/invites', { method: 'POST', token: admin, body: {} })).json() as { code: string };
+        const prepare = env.DB.prepare;
+        vi.spyOn(env.DB, 'prepare').mockImplementation(sql => prepare(sql.startsWith('SELECT id FROM users WHERE username') ? 'SELECT ? WHERE 0' : sql));
+        expect((await register(third.code, 'bob')).status).toBe(409);
+        vi.restoreAllMocks();
+        expect((await register(third.code, 'carol')).status).toBe(201);
+    });
+
+    it('deletes a user\'s uploads and links with the account', async () => {
+        const alice = await login('alice');
+        await call('/api/files?name=a.bin', { method: 'PUT', token: alice, headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': '3' }, body: 'abc' });
+        await call('/api/shorten', { method: 'POST', token: alice, body: { url: 'https://example.com' } });
+        await call('/api/shares', { method: 'POST', token: alice, body: { name: 'a.txt', content: 'hi', ttl: 3600 } });
+        await call('/api/shorten', { method: 'POST', token: await login('admin'), body: { url: 'https://example.org' } });
+        const response = await call('/api/admin/userdel', { method: 'POST', token: await login('admin'), body: { username: 'alice' } });
+        expect(response.status).toBe(200);
+        expect(env.SHARE_BUCKET.objects.size).toBe(0);
+        expect([...env.SITE_KV.entries.keys()].filter(key => key.startsWith('short_') || key.startsWith('share_'))).toHaveLength(1);
+        await expect(env.DB.prepare("SELECT detail FROM audit_log WHERE action = 'userdel'").first('detail')).resolves.toBe('1 file(s), 2 link(s)');
+    });
+});
+
+describe('permissions', () => {
+    it('grants what the role defines in D1', async () => {
+        const alice = await login('alice');
+        expect(await (await call('/api/me', { token: alice })).json()).toEqual({
+            id: 2, username: 'alice', role: 'guest', permissions: expect.arrayContaining(['vfs.write', 'ai.use']),
+        });
+        expect((await call('/api/admin/audit', { token: alice })).status).toBe(403);
+        // Changing one's own password does not need `users.manage`.
+        expect((await call('/api/admin/passwd', { method: 'POST', token: alice, body: { username: 'alice', newPassword: 'secret' } })).status).toBe(400);
+        expect((await call('/api/admin/passwd', { method: 'POST', token: alice, body: { username: 'alice', newPassword: 'long enough' } })).status).toBe(200);
+        expect((await call('/api/admin/passwd', { method: 'POST', token: alice, body: { username: 'admin', newPassword: 'x' } })).status).toBe(403);
+    });
+
+    it('applies custom roles and role edits to existing sessions', async () => {
+        const admin = await login('admin');
+        await env.DB.exec("INSERT INTO roles (name, description, storage_quota) VALUES ('reader', 'Read-only', 0)");
+        expect((await call('/api/admin/users/alice', { method: 'PATCH', token: admin, body: { role: 'editor' } })).status).toBe(400);
+        expect((await call('/api/admin/users/alice', { method: 'PATCH', token: admin, body: { role: 'reader' } })).status).toBe(200);
+        const alice = await login('alice');
+        await call('/api/vfs', { token: alice });
+        const ops = [{ op: 'create', path: '/notes.txt', node: createFile('hi', 'alice') }];
+        const patch = () => call('/api/vfs', { method: 'PATCH', token: alice, body: { ops }, headers: { 'If-Match': '"1"' } });
+        expect(await (await patch()).json()).toEqual({ error: "Forbidden: requires the 'vfs.write' permission" });
+        expect((await call('/api/ai', { method: 'POST', token: alice, body: { prompt: 'hi' } })).status).toBe(403);
+        expect((await call('/api/curl?url=https://example.com', { token: alice })).status).toBe(403);
+        expect((await call('/api/curl?url=https://example.com')).status).toBe(401);
+        expect(await (await call('/api/files', { token: alice })).json()).toEqual({ used: 0, quota: 0 });
+
+        await env.DB.exec("INSERT INTO role_permissions (role, permission) VALUES ('reader', 'vfs.write')");
+        expect((await patch()).status).toBe(200);
+    });
+
+    it('limits account management to roles within the caller\'s permissions', async () => {
+        await env.DB.exec("INSERT INTO roles (name, description, storage_quota) VALUES ('helpdesk', 'Manages guests', 0)");
+        await env.DB.exec("INSERT INTO role_permissions (role, permission) SELECT 'helpdesk', permission FROM role_permissions WHERE role = 'guest'");
+        await env.DB.exec("INSERT INTO role_permissions (role, permission) VALUES ('helpdesk', 'users.manage')");
+        await env.DB.exec("UPDATE users SET role = 'helpdesk' WHERE username = 'alice'");
+        const alice = await login('alice');
+        const post = (path: string, body: unknown) => call(`/api/admin/${path}`, { method: 'POST', token: alice, body });
+        expect((await post('useradd', { username: 'eve', password: 'long enough', role: 'admin' })).status).toBe(403);
+        expect((await post('useradd', { username: 'bob', password: 'long enough', role: 'guest' })).status).toBe(200);
+        expect((await call('/api/admin/users/bob', { method: 'PATCH', token: alice, body: { role: 'admin' } })).status).toBe(403);
+        expect((await call('/api/admin/users/admin', { method: 'PATCH', token: alice, body: { locked: true } })).status).toBe(403);
+        expect((await post('passwd', { username: 'admin', newPassword: 'long enough' })).status).toBe(403);
+        expect((await post('userdel', { username: 'admin' })).status).toBe(403);
+        expect((await post('passwd', { username: 'bob', newPassword: 'even longer' })).status).toBe(200);
+        expect((await post('userdel', { username: 'bob' })).status).toBe(200);
+        expect(await login('admin')).toEqual(expect.any(String));
+    });
+});
+
+describe('VFS persistence', () => {
+    it('creates a home directory on first load and tracks revisions', async () => {
+        const token = await login('alice');
+        const first = await call('/api/vfs', { token });
+        expect(first.headers.get('ETag')).toBe('"1"');
+        const tree = await first.json() as { version: number; '~': { children: Record<string, unknown> } };
+        expect(tree.version).toBe(2);
+        expect(Object.keys(tree['~'].children)).toEqual(['README.md']);
+        expect((await call('/api/vfs', { token })).headers.get('ETag')).toBe('"1"');
+    });
+
+    it('applies patches and rejects stale or invalid ones', async () => {
+        const token = await login('alice');
+        await call('/api/vfs', { token });
+        const ops = [{ op: 'create', path: '/notes.txt', node: createFile('hi', 'alice') }];
+        expect((await call('/api/vfs', { method: 'PATCH', token, body: { ops } })).status).toBe(428);
+        const patched = await call('/api/vfs', { method: 'PATCH', token, body: { ops }, headers: { 'If-Match': '"1"' } });
+        expect(await patched.json()).toEqual({ success: true, etag: '"2"' });
+        expect((await call('/api/vfs', { method: 'PATCH', token, body: { ops }, headers: { 'If-Match': '"1"' } })).status).toBe(412);
+        expect((await call('/api/vfs', { method: 'PATCH', token, body: { ops }, headers: { 'If-Match': '"2"' } })).status).toBe(409);
+        const tree = await (await call('/api/vfs', { token })).json() as { '~': { children: Record<string, { content: string }> } };
+        expect(tree['~'].children['notes.txt'].content).toBe('hi');
+        for (const invalid of [[{ op: 'create', path: '/x' }], [{ op: 'update', path: '/notes.txt', node: { type: 'file' } }], [{ op: 'delete' }], [null]]) {
+            expect((await call('/api/vfs', { method: 'PATCH', token, body: { ops: invalid }, headers: { 'If-Match': '"2"' } })).status).toBe(400);
+        }
+    });
+
+    it('replaces the tree only with a well-formed one', async () => {
+        const token = await login('alice');
+        await call('/api/vfs', { token });
+        for (const invalid of [{ version: 2, '~': { type: 'dir' } }, { version: 2, '~': createFile('x', 'alice') }, { '~': {} }]) {
+            expect((await call('/api/vfs', { method: 'POST', token, body: invalid, headers: { 'If-Match': '"1"' } })).status).toBe(400);
+        }
+        const replaced = await call('/api/vfs', { method: 'POST', token, body: createVfs('alice'), headers: { 'If-Match': '"1"' } });
+        expect(await replaced.json()).toEqual({ success: true, etag: '"2"' });
+        expect((await call('/api/vfs', { token })).status).toBe(200);
+    });
+
+    it('gives the revision back when the tree cannot be stored', async () => {
+        const token = await login('alice');
+        await call('/api/vfs', { token });
+        const write = () => call('/api/vfs', { method: 'PATCH', token, body: { ops: [{ op: 'create', path: '/a', node: createFile('a', 'alice') }] }, headers: { 'If-Match': '"1"' } });
+        vi.spyOn(env.SITE_KV, 'put').mockRejectedValueOnce(new Error('KV unavailable'));
+        expect((await write()).status).toBe(500);
+        vi.restoreAllMocks();
+        expect(await (await write()).json()).toEqual({ success: true, etag: '"2"' });
+    });
+
+    it('accepts only one of two concurrent writes based on the same revision', async () => {
+        const token = await login('alice');
+        await call('/api/vfs', { token });
+        const write = (name: string) => call('/api/vfs', { method: 'PATCH', token, body: { ops: [{ op: 'create', path: `/${name}`, node: createFile(name, 'alice') }] }, headers: { 'If-Match': '"1"' } });
+        // Both requests read revision 1 before either of them writes.
+        const read = env.SITE_KV.getWithMetadata;
+        const waiting: (() => void)[] = [];
+        vi.spyOn(env.SITE_KV, 'getWithMetadata').mockImplementation(async (key, type) => {
+            const result = await read(key, type);
+            await new Promise<void>(resolve => { waiting.push(resolve); if (waiting.length === 2) waiting.forEach(release => release()); });
+            return result;
+        });
+        const statuses = (await Promise.all([write('a'), write('b')])).map(response => response.status);
+        expect(statuses.sort()).toEqual([200, 412]);
+        vi.restoreAllMocks();
+        const tree = await (await call('/api/vfs', { token })).json() as { '~': { children: Record<string, unknown> } };
+        expect(Object.keys(tree['~'].children)).toHaveLength(2);
+    });
+
+    it('answers cross-origin requests only from its own origin', async () => {
+        const origin = (value: string) => call('/api/vfs', { headers: { Origin: value } });
+        expect((await origin('https://terminal.test')).headers.get('Access-Control-Allow-Origin')).toBe('https://terminal.test');
+        expect((await origin('https://evil.example')).headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('keeps each user\'s tree separate and migrates legacy trees', async () => {
+        await env.SITE_KV.put('vfs_admin', JSON.stringify({ '~': { 'old.txt': 'legacy' } }));
+        const tree = await (await call('/api/vfs', { token: await login('admin') })).json() as { version: number; '~': { children: Record<string, { type: string; owner: string }> } };
+        expect(tree.version).toBe(2);
+        expect(tree['~'].children['old.txt']).toMatchObject({ type: 'file', owner: 'admin' });
+        const alice = await (await call('/api/vfs', { token: await login('alice') })).json() as { '~': { children: Record<string, unknown> } };
+        expect(alice['~'].children['old.txt']).toBeUndefined();
+    });
+});
+
+describe('file storage', () => {
+    it('stores uploads under the owner\'s prefix and keeps other users out', async () => {
+        const token = await login('alice');
+        const upload = await call('/api/files?name=a.bin', { method: 'PUT', token, headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': '3' }, body: 'abc' });
+        expect(upload.status).toBe(201);
+        const { key } = await upload.json() as { key: string };
+        expect(key.startsWith('alice/')).toBe(true);
+        expect(await (await call(`/api/files/${key}`, { token })).text()).toBe('abc');
+        expect(await (await call('/api/files', { token })).json()).toEqual({ used: 3, quota: 50 * 1024 * 1024 });
+        expect((await call(`/api/files/${key}`, { token: await login('admin') })).status).toBe(403);
+    });
+
+    it('serves shared uploads inline only for safe types', async () => {
+        const token = await login('alice');
+        const share = async (type: string, claimed: string) => {
+            const upload = await call('/api/files?name=f', { method: 'PUT', token, headers: { 'Content-Type': type, 'Content-Length': '3' }, body: 'abc' });
+            const { key } = await upload.json() as { key: string };
+            const { id } = await (await call('/api/shares', { method: 'POST', token, body: { name: 'f', blob: { key, size: 3, type: claimed }, ttl: 3600 } })).json() as { id: string };
+            return call(`/api/share/${id}`);
+        };
+        const html = await share('text/html', 'image/png');
+        expect(html.headers.get('Content-Type')).toBe('text/html');
+        expect(html.headers.get('Content-Disposition')).toMatch(/^attachment;/);
+        expect(html.headers.get('X-Content-Type-Options')).toBe('nosniff');
+        expect(html.headers.get('Content-Security-Policy')).toBe('sandbox');
+        expect((await share('image/png', 'text/html')).headers.get('Content-Disposition')).toMatch(/^inline;/);
+    });
+
+    it('lists the user\'s shares and skips records without metadata', async () => {
+        const token = await login('alice');
+        const { id } = await (await call('/api/shares', { method: 'POST', token, body: { name: 'a.txt', content: 'hi', ttl: 3600 } })).json() as { id: string };
+        await env.SITE_KV.put('share_legacy', JSON.stringify({ owner: 'alice', name: 'old.txt' }));
+        const listing = await call('/api/shares', { token });
+        expect(listing.status).toBe(200);
+        expect((await listing.json() as { shares: { id: string }[] }).shares.map(share => share.id)).toEqual([id]);
+    });
+
+    it('deletes uploads once an accepted patch no longer references them', async () => {
+        const token = await login('alice');
+        await call('/api/vfs', { token });
+        const upload = await call('/api/files?name=a.bin', { method: 'PUT', token, headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': '3' }, body: 'abc' });
+        const blob = await upload.json() as BlobRef;
+        const patch = (ops: unknown[], revision: number) => call('/api/vfs', { method: 'PATCH', token, body: { ops }, headers: { 'If-Match': `"${revision}"` } });
+        expect((await patch([{ op: 'create', path: '/a.bin', node: createBlobFile(blob, 'alice') }], 1)).status).toBe(200);
+        // A stale write is rejected and the upload is kept.
+        expect((await patch([{ op: 'delete', path: '/a.bin' }], 1)).status).toBe(412);
+        expect(env.SHARE_BUCKET.objects.has(blob.key)).toBe(true);
+        expect((await patch([{ op: 'delete', path: '/a.bin' }], 2)).status).toBe(200);
+        expect(env.SHARE_BUCKET.objects.has(blob.key)).toBe(false);
+    });
+});
+
+describe('shortener', () => {
+    it('creates short links that redirect and resolve', async () => {
+        const token = await login('alice');
+        expect((await call('/api/shorten', { method: 'POST', body: { url: 'https://example.com' } })).status).toBe(401);
+        const { short_url } = await (await call('/api/shorten', { method: 'POST', token, body: { url: 'https://example.com/page' } })).json() as { short_url: string };
+        expect(short_url).toMatch(/^https:\/\/terminal\.test\/s\/\w{6}$/);
+        const key = short_url.split('/').pop();
+        const redirect = await call(`/s/${key}`);
+        expect(redirect.status).toBe(301);
+        expect(redirect.headers.get('Location')).toBe('https://example.com/page');
+        expect(await (await call(`/api/unshorten/${key}`, { token })).json()).toEqual({ long_url: 'https://example.com/page' });
+        expect((await call('/api/unshorten/nothing', { token })).status).toBe(404);
+        expect((await call('/s/nothing')).status).toBe(404);
+    });
+});
+
+describe('API proxies', () => {
+    it('streams AI answers from Gemini to logged-in users as server-sent events', async () => {
+        expect((await call('/api/ai', { method: 'POST', body: { prompt: 'hi' } })).status).toBe(401);
+        const response = await call('/api/ai', { method: 'POST', token: await login('alice'), body: { prompt: 'hi' } });
+        expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+        const events = [];
+        for await (const event of readEvents(response.body!)) events.push(event);
+        expect(events).toEqual([
+            { event: 'message', data: JSON.stringify({ text: 'echo: ' }) },
+            { event: 'message', data: JSON.stringify({ text: 'hi' }) },
+            { event: 'done', data: '' },
+        ]);
+    });
+
+    it('reports Gemini errors before streaming starts', async () => {
+        const response = await call('/api/ai', { method: 'POST', token: await login('alice'), body: { prompt: 'fail' } });
+        expect(response.status).toBe(429);
+        expect(await response.json()).toEqual({ error: 'Gemini API error: Too Many Requests' });
+    });
+
+    it('proxies music searches', async () => {
+        const response = await call('/api/music/search/song');
+        expect(await response.json()).toMatchObject({ code: 200, result: { songs: [{ name: 'Song' }] } });
+    });
+});
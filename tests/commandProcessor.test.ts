@@ -0,0 +1,518 @@
+import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
+import { processCommand } from '../src/utils/commandProcessor';
+import { AuthContext, HeadlessController, LoginAttempt, User, VfsContext, createHeadlessController } from '../src/utils/commandContext';
+import { importLegacyAliases, shellEnv } from '../src/utils/environment';
+import { shellHistory } from '../src/utils/history';
+import { jobTable } from '../src/utils/jobs';
+import { DEFAULT_SCROLLBACK, lineMatches, searchPattern, trimScrollback } from '../src/utils/scrollback';
+import { lineText, paint, parseAnsi, table, toText } from '../src/utils/output';
+import { encodeQr, renderQr } from '../src/utils/qrcode';
+import { base32Decode, base32Encode, totpCode, verifyTotp } from '../src/utils/totp';
+import { sseResponse } from './fakes';
+import { VfsTree, createDir, createFile, createVfs, getObjectByPath, isFile, resolvePath } from '../src/utils/vfs';
+
+// processCommand runs against an in-memory VFS and a headless controller; nothing touches React.
+let vfs: VfsContext;
+let controller: HeadlessController;
+let auth: AuthContext & { loginAttempts: LoginAttempt[]; loggedOut: boolean | 'everywhere' };
+
+const setup = (user: User | null, tree: VfsTree = createVfs(user?.username ?? '')) => {
+    vfs = {
+        vfs: tree,
+        currentPath: '~',
+        updateVFS: (newTree) => { vfs.vfs = newTree; },
+        setCurrentPath: (path) => { vfs.currentPath = path; },
+    };
+    controller = createHeadlessController(() => vfs.vfs);
+    auth = {
+        user, loginAttempts: [], loggedOut: false,
+        logout: async (everywhere) => { auth.loggedOut = everywhere ? 'everywhere' : true; },
+        getAuthHeader: async () => ({ Authorization: 'Bearer test' }),
+        startLogin: (attempt) => { auth.loginAttempts.push(attempt); },
+    };
+};
+
+const run = (command: string) => processCommand(command, auth, vfs, () => {}, controller);
+const text = async (command: string) => toText((await run(command)).text);
+const alice: User = { username: 'alice', role: 'guest', permissions: ['vfs.write', 'files.upload', 'share.create', 'ai.use', 'net.curl'] };
+const admin: User = { username: 'admin', role: 'admin', permissions: [...alice.permissions, 'sudo', 'users.manage', 'audit.read'] };
+
+beforeEach(() => {
+    shellEnv.reset();
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value), removeItem: (key: string) => storage.delete(key) });
+    setup(alice);
+});
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await Promise.all(jobTable.list().map(job => { jobTable.kill(job); return job.result; }));
+});
+
+describe('resolvePath', () => {
+    it('resolves relative paths against the working directory', () => {
+        expect(resolvePath('docs', '~')).toBe('/docs');
+        expect(resolvePath('./a/./b', '/docs')).toBe('/docs/a/b');
+        expect(resolvePath('..', '/docs/a')).toBe('/docs');
+        expect(resolvePath('', '/docs')).toBe('/docs');
+    });
+
+    it('never climbs above the home directory', () => {
+        expect(resolvePath('..', '~')).toBe('~');
+        expect(resolvePath('../../..', '/docs')).toBe('~');
+        expect(resolvePath('../../etc/passwd', '/docs')).toBe('/etc/passwd');
+        expect(resolvePath('/..', '/docs')).toBe('~');
+    });
+
+    it('normalizes absolute and home-relative paths', () => {
+        expect(resolvePath('/', '/docs')).toBe('~');
+        expect(resolvePath('~', '/docs')).toBe('~');
+        expect(resolvePath('~/notes', '/docs')).toBe('/notes');
+        expect(resolvePath('/docs/../notes/', '/x')).toBe('/notes');
+        expect(resolvePath('//docs//a', '~')).toBe('/docs/a');
+    });
+});
+
+describe('file system commands', () => {
+    it('creates, lists, reads and removes files', async () => {
+        expect((await run('mkdir docs && cd docs && echo hello > a.txt')).exitCode).toBe(0);
+        expect(vfs.currentPath).toBe('/docs');
+        expect(await text('cat /docs/a.txt')).toBe('hello');
+        expect(await text('cat ../docs/./a.txt')).toBe('hello');
+        expect(await text('ls ~')).toContain('docs/');
+        expect((await run('cd ~ && rm docs')).exitCode).toBe(1);
+        expect((await run('rm -r docs')).exitCode).toBe(0);
+        expect(getObjectByPath(vfs.vfs, '/docs')).toBeUndefined();
+    });
+
+    it('stays in the home directory when cd goes past it', async () => {
+        await run('cd ../..');
+        expect(vfs.currentPath).toBe('~');
+        expect(await text('pwd')).toBe('~');
+    });
+
+    it('reports missing files with the command name', async () => {
+        expect(await run('cat missing.txt')).toEqual({ text: ['cat: missing.txt: No such file or directory'], exitCode: 1 });
+        expect((await run('cd missing')).text).toEqual(['cd: no such file or directory: missing']);
+    });
+
+    it('passes output through pipes and appends with >>', async () => {
+        await run('echo b > list && echo a >> list && echo c >> list');
+        expect(await text('sort list | head -n 2')).toBe('a\nb');
+        expect(await text('cat list | wc')).toMatch(/^\s+3\s+3\s+5$/);
+    });
+
+    it('enforces mode bits, except for sudo', async () => {
+        setup(admin, createVfs('admin', { 'secret.txt': { ...createFile('top secret', 'root'), mode: 0o600 } }));
+        expect(await text('cat secret.txt')).toBe('cat: secret.txt: Permission denied');
+        expect(await text('sudo cat secret.txt')).toBe('top secret');
+        expect((await run('echo x > secret.txt')).text).toEqual(['zsh: permission denied: secret.txt']);
+    });
+
+    it('does not look inside unreadable directories with find, du or stat', async () => {
+        const vault = { ...createDir('root', { 'key.txt': createFile('top secret', 'root') }), mode: 0o700 };
+        setup(admin, createVfs('admin', { vault }));
+        expect(await run('find .')).toEqual({ text: ['.', './vault', "find: './vault': Permission denied"], exitCode: 1 });
+        expect(await text('sudo find . -name key.txt')).toBe('./vault/key.txt');
+        expect(await run('du vault')).toMatchObject({ text: ["du: cannot read directory 'vault': Permission denied", expect.stringMatching(/^0 +vault$/)], exitCode: 1 });
+        expect(await text('stat vault')).toBe("stat: cannot stat 'vault': Permission denied");
+        expect(await text('sudo stat vault')).toContain('Entries: 1');
+    });
+
+    it('keeps an existing file\'s mode when it is overwritten', async () => {
+        await run('echo one > f && chmod 600 f && echo two > f');
+        const node = getObjectByPath(vfs.vfs, '/f');
+        expect(isFile(node) && node.content).toBe('two');
+        expect(node?.mode).toBe(0o600);
+    });
+});
+
+describe('authentication and roles', () => {
+    it('requires a login for file system commands', async () => {
+        setup(null);
+        expect(await run('ls')).toEqual({ text: ['ls: permission denied. Please log in first.'], exitCode: 1 });
+        expect((await run('echo hi > f')).exitCode).toBe(1);
+        expect(await text('whoami')).toBe('guest');
+    });
+
+    it('starts the login flow and logs out', async () => {
+        setup(null);
+        expect(await text('login bob')).toBe('Initializing login for bob...');
+        expect(auth.loginAttempts).toEqual([{ username: 'bob', turnstileToken: null }]);
+        setup(alice);
+        expect(await text('login bob')).toContain('already logged in as alice');
+        await run('logout');
+        expect(auth.loggedOut).toBe(true);
+    });
+
+    it('runs admin commands only through sudo, and sudo only for admins', async () => {
+        expect(await text('useradd bob guest')).toBe("useradd: permission denied (try 'sudo useradd')");
+        expect(await text('sudo useradd bob guest')).toBe('sudo: user not in sudoers file. This incident will be reported.');
+
+        setup(admin);
+        const fetch = vi.fn(async () => Response.json({ message: "User 'bob' created successfully." }));
+        vi.stubGlobal('fetch', fetch);
+        controller.secrets.push('long enough', 'long enough');
+        expect(await text('sudo useradd bob guest')).toBe("User 'bob' created successfully.");
+        expect(fetch).toHaveBeenCalledWith('/api/admin/useradd', expect.objectContaining({ method: 'POST', body: JSON.stringify({ username: 'bob', password: 'long enough', role: 'guest' }) }));
+    });
+
+    it('reads new passwords at the masked prompt, twice', async () => {
+        const fetch = vi.fn(async () => Response.json({ success: true, message: 'Password changed.' }));
+        vi.stubGlobal('fetch', fetch);
+        expect((await run('passwd hunter22')).exitCode).toBe(1);
+        controller.secrets.push('long enough', 'not the same');
+        expect(await run('passwd')).toEqual({ text: ['passwd: passwords do not match'], exitCode: 1 });
+        expect(await run('passwd')).toEqual({ text: ['passwd: cancelled'], exitCode: 1 });
+        expect(fetch).not.toHaveBeenCalled();
+        controller.secrets.push('long enough', 'long enough');
+        expect(await text('passwd')).toBe('Password changed.');
+        expect(fetch).toHaveBeenCalledWith('/api/admin/passwd', expect.objectContaining({ body: JSON.stringify({ username: 'alice', newPassword: 'long enough' }) }));
+    });
+
+    it('lists sessions, signs devices out and logs out everywhere', async () => {
+        const fetch = vi.fn(async (url: string) => url === '/api/sessions' ? Response.json({ sessions: [
+            { id: 'a1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0', ip: '203.0.113.7', created: 0, lastUsed: 0, current: true },
+            { id: 'b2', userAgent: null, ip: null, created: 0, lastUsed: 0, current: false },
+        ] }) : Response.json({ error: "Session 'zz' not found." }, { status: 404 }));
+        vi.stubGlobal('fetch', fetch);
+        const listing = (await text('sessions')).split('\n');
+        expect(listing[1]).toMatch(/^a1 \*.*203\.0\.113\.7\s+Firefox on Linux$/);
+        expect(listing[2]).toMatch(/^b2 .*-\s+unknown$/);
+        expect(await run('sessions rm zz')).toEqual({ text: ["sessions: Session 'zz' not found."], exitCode: 1 });
+        expect(fetch).toHaveBeenCalledWith('/api/sessions/zz', expect.objectContaining({ method: 'DELETE' }));
+        expect(await text('sessions revoke bob')).toBe("sessions: revoke: permission denied (try 'sudo sessions revoke')");
+
+        await run('logout --all');
+        expect(auth.loggedOut).toBe('everywhere');
+    });
+
+    it('lists and edits accounts, and registers with invite codes', async () => {
+        setup(admin);
+        const fetch = vi.fn(async (url: string, _init?: RequestInit) => url === '/api/admin/users' ? Response.json({ users: [
+            { username: 'alice', role: 'guest', locked: true, created: null, lastLogin: null, lastIp: null, twoFactor: false },
+        ] }) : url === '/api/admin/invites' ? Response.json({ code: 'abc123', uses: 2, expires: 0 }, { status: 201 })
+            : Response.json({ message: "User 'alice' updated (role=admin, unlocked)." }));
+        vi.stubGlobal('fetch', fetch);
+        expect((await text('sudo users')).split('\n')[1]).toMatch(/^alice +guest +locked +off +never$/);
+        expect(await text('sudo usermod -r admin -U alice')).toBe("User 'alice' updated (role=admin, unlocked).");
+        expect(fetch).toHaveBeenLastCalledWith('/api/admin/users/alice', expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ role: 'admin', locked: false }) }));
+        expect((await run('sudo usermod alice')).exitCode).toBe(1);
+        expect(await text('sudo invite --uses 2 --ttl 1d')).toContain('register abc123 <username>');
+        expect(fetch).toHaveBeenLastCalledWith('/api/admin/invites', expect.objectContaining({ body: JSON.stringify({ uses: 2, ttl: 86400 }) }));
+
+        setup(null);
+        vi.stubGlobal('fetch', async () => Response.json({ error: 'Invalid or expired invite code.' }, { status: 403 }));
+        expect((await run('register abc123 bob hunter22')).exitCode).toBe(1);
+        controller.secrets.push('hunter22', 'hunter22');
+        expect(await run('register abc123 bob')).toEqual({ text: ['register: Invalid or expired invite code.'], exitCode: 1 });
+        expect(await text('users')).toBe("users: permission denied (try 'sudo users')");
+    });
+
+    it('checks permissions before commands run and shows them with id and groups', async () => {
+        const reader: User = { username: 'reader', role: 'reader', permissions: ['ai.use'] };
+        setup(reader);
+        expect(await text('mkdir docs')).toBe("mkdir: permission denied (requires the 'vfs.write' permission)");
+        expect(await run('echo hi > notes.txt')).toMatchObject({ exitCode: 1 });
+        expect(getObjectByPath(vfs.vfs, '/notes.txt')).toBeUndefined();
+        expect(await text('curl https://example.com')).toBe("curl: permission denied (requires the 'net.curl' permission)");
+        expect(await text('sudo whoami')).toBe('sudo: user not in sudoers file. This incident will be reported.');
+
+        vi.stubGlobal('fetch', async () => Response.json({ id: 7, username: 'reader', role: 'reader', permissions: ['ai.use', 'beta.feature'] }));
+        expect(await text('id')).toBe('uid=7(reader) role=reader permissions=ai.use,beta.feature');
+        const groups = (await text('groups')).split('\n');
+        expect(groups[0]).toBe('reader : reader');
+        expect(groups[2]).toBe('ai.use        ask the AI assistant');
+        expect(groups[3]).toMatch(/^beta\.feature */);
+    });
+
+    it('reports sudo use and browses the audit log', async () => {
+        const fetch = vi.fn(async (url: string) => url.startsWith('/api/admin/audit')
+            ? Response.json({ entries: [{ id: 1, time: 0, actor: null, action: 'login_failed', target: 'alice', ip: '198.51.100.1', detail: null }] })
+            : Response.json({ success: true }, { status: 201 }));
+        vi.stubGlobal('fetch', fetch);
+        await run('sudo whoami');
+        await vi.waitFor(() => expect(fetch).toHaveBeenCalledWith('/api/audit', expect.objectContaining({ body: JSON.stringify({ action: 'sudo_denied', command: 'whoami' }) })));
+
+        setup(admin);
+        expect((await text('sudo audit --user alice --since 7d')).split('\n')[1]).toMatch(/^\S+ +\d+ \d\d:\d\d +- +login_failed +alice +198\.51\.100\.1 *$/);
+        expect(fetch).toHaveBeenCalledWith(expect.stringMatching(/^\/api\/admin\/audit\?user=alice&since=\d+$/), expect.anything());
+        expect(await text('sudo audit --since yesterday')).toContain("audit: invalid time 'yesterday'");
+        expect(await text('audit')).toBe("audit: permission denied (try 'sudo audit')");
+    });
+});
+
+describe('two-factor authentication', () => {
+    it('computes the RFC 6238 test vectors', async () => {
+        const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+        expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(new TextDecoder().decode(base32Decode(secret.toLowerCase().replace(/(.{4})/g, '$1 ')))).toBe('12345678901234567890');
+        expect(await totpCode(secret, Math.floor(59 / 30))).toBe('287082');
+        expect(await totpCode(secret, Math.floor(1111111109 / 30))).toBe('081804');
+        expect(await verifyTotp(secret, '081804', 0, 1111111109 * 1000 + 30 * 1000)).toBe(37037036);
+        expect(await verifyTotp(secret, '081804', 37037036, 1111111109 * 1000)).toBeNull();
+    });
+
+    it('encodes QR codes with finder patterns and a growing version', () => {
+        const small = encodeQr('hi');
+        expect(small).toHaveLength(21);
+        const finder = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'];
+        const rows = small.map(row => row.map(dark => dark ? '1' : '0').join(''));
+        expect(rows.slice(0, 7).map(row => row.substring(0, 7))).toEqual(finder);
+        expect(rows.slice(0, 7).map(row => row.substring(14))).toEqual(finder);
+        expect(rows.slice(14).map(row => row.substring(0, 7))).toEqual(finder);
+        expect(encodeQr('x'.repeat(100))).toHaveLength(41);
+        expect(() => encodeQr('x'.repeat(300))).toThrow();
+        const lines = renderQr(small);
+        expect(lines).toHaveLength(13);
+        expect(lines[0]).toBe('█'.repeat(25));
+    });
+
+    it('shows the key as a QR code and prints the recovery codes', async () => {
+        const fetch = vi.fn(async (url: string) => url === '/api/2fa/setup'
+            ? Response.json({ secret: 'JBSWY3DPEHPK3PXP', uri: 'otpauth://totp/Linkium:alice?secret=JBSWY3DPEHPK3PXP&issuer=Linkium' })
+            : url === '/api/2fa/enable' ? Response.json({ success: true, recoveryCodes: ['abcde-fghij'] })
+            : Response.json({ error: 'Invalid verification code' }, { status: 400 }));
+        vi.stubGlobal('fetch', fetch);
+        const { text: lines } = await run('2fa enable');
+        expect(lines[1]).toEqual([{ type: 'pre', text: expect.stringContaining('▀'), tight: true }]);
+        expect(lines[2]).toBe('Or enter the key by hand: JBSW Y3DP EHPK 3PXP');
+        expect(await text('2fa verify 123456')).toContain('    abcde-fghij');
+        expect(await run('2fa disable 000000')).toEqual({ text: ['2fa: Invalid verification code'], exitCode: 1 });
+        expect((await run('2fa verify')).exitCode).toBe(1);
+    });
+});
+
+describe('shell', () => {
+    it('reports unknown commands and syntax errors', async () => {
+        expect(await run('frobnicate')).toEqual({ text: ['zsh: command not found: frobnicate'], exitCode: 127 });
+        expect((await run('echo "unterminated')).exitCode).toBe(2);
+    });
+
+    it('expands variables and aliases', async () => {
+        await run('NAME=world && alias greet="echo hello"');
+        expect(await text('greet $NAME')).toBe('hello world');
+        expect(await text('echo $USER $?')).toBe('alice 0');
+    });
+
+    it('moves aliases kept in localStorage into ~/.zshrc once', async () => {
+        localStorage.setItem('aliases', JSON.stringify({ ll: 'ls -l', greet: `echo "it's me"`, 'bad=name': 'ls' }));
+        expect(importLegacyAliases(vfs.vfs, 'alice')).toBe(true);
+        expect(localStorage.getItem('aliases')).toBeNull();
+        const rc = getObjectByPath(vfs.vfs, '/.zshrc');
+        expect(isFile(rc) && rc.content.split('\n')).toHaveLength(2);
+        await run('source ~/.zshrc');
+        expect(await text('greet')).toBe("it's me");
+        expect(importLegacyAliases(vfs.vfs, 'alice')).toBe(false);
+    });
+
+    it('generates help from the command registry', async () => {
+        expect(await text('help fs')).toContain('mkdir');
+        expect(await text('man cp')).toContain('cp [-r] <source> <destination>');
+        expect((await run('man nothing')).exitCode).toBe(1);
+        expect(await text('which ls')).toBe('ls: shell built-in command (fs)');
+    });
+
+    it('sends streamed output and theme changes to the controller', async () => {
+        await run('banner');
+        expect(controller.output.length).toBeGreaterThan(0);
+        await run('theme gruvbox');
+        expect(controller.theme).toBe('gruvbox');
+        expect((await run('clear')).special).toBe('clear');
+    });
+});
+
+describe('history', () => {
+    it('keeps command lines with passwords out of the history', () => {
+        shellHistory.clear();
+        ['ls', 'passwd hunter22', 'sudo useradd bob hunter22 guest', 'register abc bob hunter22', 'share a.txt --password x', 'echo passwd', 'passwd', 'sudo passwd bob', 'sudo useradd bob guest'].forEach(shellHistory.add);
+        expect(shellHistory.entries()).toEqual(['ls', 'echo passwd', 'passwd', 'sudo passwd bob', 'sudo useradd bob guest']);
+        shellHistory.load('ls\nsudo passwd bob hunter22\ncd ~');
+        expect(shellHistory.serialize()).toBe('ls\ncd ~');
+    });
+});
+
+describe('scrollback', () => {
+    const line = (id: number) => ({ id, line: `line ${id}` });
+
+    it('keeps the newest lines up to the limit', () => {
+        const lines = [1, 2, 3, 4].map(line);
+        expect(trimScrollback(lines, 2).map(l => l.id)).toEqual([3, 4]);
+        expect(trimScrollback(lines, 10)).toBe(lines);
+    });
+
+    it('searches the text as shown, not escapes or segments', () => {
+        const colored = `a ${paint('<b>', 'red')} c`;
+        expect(lineMatches(colored, searchPattern('<B>')!)).toBe(true);
+        expect(lineMatches(colored, searchPattern('31m')!)).toBe(false);
+        expect(lineMatches([{ type: 'link', text: 'docs', href: 'https://example.com' }], searchPattern('example')!)).toBe(false);
+        expect(searchPattern('')).toBeNull();
+        expect(lineMatches('1+1 = 2', searchPattern('1+1')!)).toBe(true);
+    });
+
+    it('shows and sets the line limit', async () => {
+        expect(await text('scrollback')).toBe(`scrollback: ${DEFAULT_SCROLLBACK} lines`);
+        expect((await run('scrollback 10')).exitCode).toBe(1);
+        expect((await run('scrollback lots')).exitCode).toBe(1);
+        expect(controller.scrollback).toBeNull();
+        await run('scrollback 200');
+        expect(controller.scrollback).toBe(200);
+    });
+});
+
+describe('output', () => {
+    it('parses ANSI colours into styled segments', () => {
+        expect(parseAnsi('\x1b[1;31merror\x1b[22m: \x1b[42mok\x1b[0m done')).toEqual([
+            { type: 'span', text: 'error', style: { bold: true, color: 'red' } },
+            { type: 'span', text: ': ', style: { color: 'red' } },
+            { type: 'span', text: 'ok', style: { color: 'red', background: 'green' } },
+            { type: 'text', text: ' done' },
+        ]);
+        expect(parseAnsi('\x1b[90mdim\x1b[38;5;200m\x1b[2Kx\x1b[m')).toEqual([
+            { type: 'span', text: 'dim', style: { color: 'gray' } },
+            { type: 'span', text: 'x', style: { color: 'gray' } },
+        ]);
+    });
+
+    it('prints file contents as text, never as markup', async () => {
+        await run('echo "<img src=x onerror=alert(1)>" > page.html');
+        expect((await run('cat page.html')).text).toEqual(['<img src=x onerror=alert(1)>']);
+        expect((await run('grep img page.html')).text).toEqual([`<${paint('img', 'black', 'yellow')} src=x onerror=alert(1)>`]);
+        expect(await text('grep img page.html | cat')).toBe('<img src=x onerror=alert(1)>');
+    });
+
+    it('returns links and actions as segments and pads tables as text', async () => {
+        expect((await run('repo')).text).toEqual([[{ type: 'action', action: 'open', url: 'https://github.com/wcz1459/personal-terminal-website', text: 'Opening https://github.com/wcz1459/personal-terminal-website ...' }]]);
+        const [email] = (await run('contact')).text.slice(1);
+        expect(email).toContainEqual({ type: 'link', text: 'chengze2012@gmail.com', href: 'mailto:chengze2012@gmail.com' });
+        expect(lineText(table(['PID', 'COMMAND'], [['432', 'zsh'], ['1001', paint('sleep', 'red')]]))).toBe('PID   COMMAND\n432   zsh\n1001  sleep');
+    });
+});
+
+describe('job control', () => {
+    // Runs a command line the way the terminal does: as a foreground job.
+    const spawn = (command: string) => jobTable.spawn(command, 'alice', false, job => processCommand(command, auth, vfs, () => {}, controller, job));
+
+    it('runs `&` lists in the background and lists them with jobs and ps', async () => {
+        expect(await text('sleep 10 &')).toMatch(/^\[1\] \d+$/);
+        await run('sleep 20 & echo started');
+        expect(await text('jobs')).toBe('[1]  - running    sleep 10\n[2]  + running    sleep 20');
+        const ps = await text('ps');
+        expect(ps).toMatch(/432 pts\/0 +\d\d:\d\d:\d\d zsh/);
+        expect(ps).toContain('sleep 20');
+    });
+
+    it('kills jobs by number or pid and reports how they ended', async () => {
+        await run('sleep 10 &');
+        const [job] = jobTable.list();
+        expect(await run('kill %1')).toEqual({ text: [], exitCode: 0 });
+        await job.result;
+        expect(controller.output).toContain('[1]    terminated sleep 10');
+        expect(await text('kill %1')).toBe('kill: %1: no such job');
+        expect(await text('kill 432')).toBe('kill: kill 432 failed: operation not permitted');
+
+        await run('echo done &');
+        await jobTable.list()[0]?.result;
+        expect(controller.output.slice(-2)).toEqual(['done', '[1]    done       echo done']);
+    });
+
+    it('keeps a killed job listed until its command returns', async () => {
+        let finish = () => {};
+        const job = jobTable.spawn('stubborn', 'alice', true, () => new Promise(resolve => { finish = () => resolve({ text: [], exitCode: 0 }); }));
+        expect(jobTable.kill(job)).toBe(true);
+        await Promise.resolve();
+        expect(jobTable.list()).toContain(job);
+        finish();
+        await job.result;
+        expect(jobTable.list()).not.toContain(job);
+    });
+
+    it('brings a background job to the foreground with fg', async () => {
+        expect(await text('fg')).toBe('fg: no current job');
+        await run('sleep 0.01 && echo back &');
+        expect(await run('fg %1')).toEqual({ text: ['back'], exitCode: 0 });
+        expect(controller.output).toContain('[1]  + running    sleep 0.01 && echo back');
+        expect(controller.output).not.toContain('back');
+    });
+
+    it('writes background changes on top of the latest tree, from its own directory', async () => {
+        await run('mkdir docs');
+        await run('sleep 0.05 && cd docs && echo bg > a.txt &');
+        const [job] = jobTable.list();
+        await run('echo fg > b.txt');
+        await job.result;
+        expect(getObjectByPath(vfs.vfs, '/b.txt')).toMatchObject({ content: 'fg' });
+        expect(getObjectByPath(vfs.vfs, '/docs/a.txt')).toMatchObject({ content: 'bg' });
+        expect(vfs.currentPath).toBe('~');
+    });
+
+    it('cancels in-flight requests when the foreground job is interrupted', async () => {
+        let signal: AbortSignal | undefined;
+        vi.stubGlobal('fetch', (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            signal = init.signal!;
+            signal.addEventListener('abort', () => reject(signal!.reason));
+        }));
+        const job = spawn('curl example.com; echo after');
+        await vi.waitFor(() => expect(signal).toBeDefined());
+        expect(jobTable.interrupt()).toBe(true);
+        expect(await job.result).toEqual({ text: [], exitCode: 130 });
+        expect(signal!.aborted).toBe(true);
+        expect(jobTable.list()).toEqual([]);
+    });
+
+    it('runs several watchers side by side until each is killed', async () => {
+        await run('watch -n 0.01 echo a & watch -n 0.01 echo b &');
+        const count = (line: string) => controller.output.filter(output => output === line).length;
+        await vi.waitFor(() => expect(count('a')).toBeGreaterThan(1));
+        await run('kill %1');
+        const ticks = count('a');
+        await vi.waitFor(() => expect(count('b')).toBeGreaterThan(ticks + 2));
+        expect(count('a')).toBe(ticks);
+        expect(await text('jobs')).toBe('[2]  + running    watch -n 0.01 echo b');
+    });
+});
+
+describe('streaming output', () => {
+    afterEach(() => { vi.useRealTimers(); vi.restoreAllMocks(); });
+
+    it('prints ping replies as they arrive, after the output before them', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const result = run('echo first; ping example.com');
+        await vi.advanceTimersByTimeAsync(800);
+        expect(controller.output).toEqual(['first', 'PING example.com (example.com): 56 data bytes', '64 bytes from example.com: icmp_seq=1 ttl=55 time=30.000 ms']);
+        await vi.advanceTimersByTimeAsync(2400);
+        expect(controller.output).toHaveLength(6);
+        expect((await result).text).toEqual(['', '--- example.com ping statistics ---', '4 packets transmitted, 4 packets received, 0% packet loss']);
+    });
+
+    it('collects streamed output in pipes and redirects', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const piped = run('ping example.com | head -n 2');
+        await vi.advanceTimersByTimeAsync(3200);
+        expect((await piped).text).toEqual(['PING example.com (example.com): 56 data bytes', '64 bytes from example.com: icmp_seq=1 ttl=55 time=30.000 ms']);
+        const redirected = run('ping example.com > log');
+        await vi.advanceTimersByTimeAsync(3200);
+        await redirected;
+        expect(controller.output).toEqual([]);
+        expect(await text('wc log')).toMatch(/^\s+8\s/);
+    });
+
+    it('streams AI answers token by token', async () => {
+        vi.stubGlobal('fetch', async () => sseResponse([
+            { data: JSON.stringify({ text: 'Hello, ' }) }, { data: JSON.stringify({ text: 'wor' }) },
+            { data: JSON.stringify({ text: 'ld\nBye' }) }, { event: 'done', data: '' },
+        ]));
+        expect(await run('ai hi')).toEqual({ text: [], exitCode: 0 });
+        expect(controller.output).toEqual(['Hello, world', 'Bye']);
+        await run('ai hi > answer');
+        expect(await text('cat answer')).toBe('Hello, world\nBye');
+
+        vi.stubGlobal('fetch', async () => sseResponse([{ data: JSON.stringify({ text: 'Partial' }) }, { event: 'error', data: JSON.stringify({ error: 'interrupted' }) }]));
+        expect(await text('ai hi | cat')).toBe('Partial\nAI Error: interrupted');
+
+        vi.stubGlobal('fetch', async () => new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway', headers: { 'Content-Type': 'text/html' } }));
+        expect(await text('ai hi')).toBe('AI Error: Bad Gateway');
+    });
+});
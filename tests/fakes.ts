@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+// --- Local stand-ins for the Cloudflare bindings ---
+// Only the parts of the D1, KV and R2 APIs the worker uses are implemented. D1 runs on an
+// in-memory SQLite database created from schema.sql, so queries are real SQL.
+
+const SCHEMA = readFileSync(new URL('../schema.sql', import.meta.url), 'utf8');
+
+class FakeStatement {
+    constructor(private db: Database, private sql: string, private params: SqlValue[] = []) {}
+
+    bind(...params: unknown[]) {
+        return new FakeStatement(this.db, this.sql, params.map(param => param === undefined ? null : param as SqlValue));
+    }
+
+    async all<T>() {
+        const statement = this.db.prepare(this.sql);
+        statement.bind(this.params);
+        const results: T[] = [];
+        while (statement.step()) results.push(statement.getAsObject() as T);
+        statement.free();
+        return { results, success: true, meta: {} };
+    }
+
+    async first<T>(column?: string): Promise<T | null> {
+        const [row] = (await this.all<Record<string, unknown>>()).results;
+        if (!row) return null;
+        return (column ? row[column] : row) as T;
+    }
+
+    async run() {
+        this.db.run(this.sql, this.params);
+        const changes = this.db.getRowsModified();
+        const lastRowId = this.db.exec('SELECT last_insert_rowid()')[0]?.values[0][0] as number;
+        return { success: true, results: [], meta: { changes, last_row_id: lastRowId } };
+    }
+}
+
+export const createD1 = async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(SCHEMA);
+    return {
+        prepare: (sql: string) => new FakeStatement(db, sql),
+        // Like D1, a batch is one transaction: if a statement fails, the earlier ones are rolled back.
+        batch: async (statements: FakeStatement[]) => {
+            db.run('BEGIN');
+            try {
+                const results = [];
+                for (const statement of statements) results.push(await statement.run());
+                db.run('COMMIT');
+                return results;
+            } catch (error) {
+                db.run('ROLLBACK');
+                throw error;
+            }
+        },
+        exec: async (sql: string) => { db.run(sql); return { count: 1, duration: 0 }; },
+    };
+};
+
+interface KvEntry { value: string; metadata?: unknown; expires?: number; }
+
+export const createKV = () => {
+    const entries = new Map<string, KvEntry>();
+    const live = (key: string) => {
+        const entry = entries.get(key);
+        if (entry?.expires && entry.expires <= Date.now()) { entries.delete(key); return undefined; }
+        return entry;
+    };
+    const decode = (entry: KvEntry | undefined, type?: string) =>
+        entry === undefined ? null : type === 'json' ? JSON.parse(entry.value) : entry.value;
+    return {
+        entries,
+        get: async (key: string, type?: string) => decode(live(key), type),
+        getWithMetadata: async (key: string, type?: string) => {
+            const entry = live(key);
+            return { value: decode(entry, type), metadata: entry?.metadata ?? null };
+        },
+        put: async (key: string, value: string, options: { expirationTtl?: number; metadata?: unknown } = {}) => {
+            entries.set(key, { value, metadata: options.metadata, expires: options.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined });
+        },
+        delete: async (key: string) => { entries.delete(key); },
+        list: async ({ prefix = '' }: { prefix?: string; cursor?: string } = {}) => ({
+            keys: [...entries.keys()].filter(key => key.startsWith(prefix) && live(key)).map(name => ({ name, metadata: entries.get(name)!.metadata })),
+            list_complete: true,
+            cursor: '',
+        }),
+    };
+};
+
+interface R2Entry { bytes: ArrayBuffer; httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string>; }
+
+export const createR2 = () => {
+    const objects = new Map<string, R2Entry>();
+    return {
+        objects,
+        put: async (key: string, body: ReadableStream | string | ArrayBuffer, options: Omit<R2Entry, 'bytes'> = {}) => {
+            const bytes = await new Response(body).arrayBuffer();
+            objects.set(key, { bytes, ...options });
+            return { key, size: bytes.byteLength };
+        },
+        get: async (key: string) => {
+            const entry = objects.get(key);
+            if (!entry) return null;
+            return { key, size: entry.bytes.byteLength, httpMetadata: entry.httpMetadata, customMetadata: entry.customMetadata, body: new Response(entry.bytes).body };
+        },
+        delete: async (keys: string | string[]) => { [keys].flat().forEach(key => objects.delete(key)); },
+        list: async ({ prefix = '' }: { prefix?: string; cursor?: string } = {}) => ({
+            objects: [...objects.entries()].filter(([key]) => key.startsWith(prefix)).map(([key, entry]) => ({ key, size: entry.bytes.byteLength })),
+            truncated: false,
+            cursor: undefined,
+        }),
+    };
+};
+
+// Answers the worker's outbound requests by URL prefix. Unmatched requests fail loudly.
+export type FetchRoute = [prefix: string, respond: (request: Request) => Response | Promise<Response>];
+
+export const createFetch = (routes: FetchRoute[]) => async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const route = routes.find(([prefix]) => request.url.startsWith(prefix));
+    if (!route) throw new Error(`Unexpected outbound request: ${request.method} ${request.url}`);
+    return route[1](request);
+};
+
+// A `text/event-stream` response that sends each event as its own chunk.
+export const sseResponse = (events: { event?: string; data: string }[]) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const { event, data } of events) controller.enqueue(encoder.encode(`${event ? `event: ${event}\r\n` : ''}data: ${data}\r\n\r\n`));
+            controller.close();
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};